@@ -1,134 +1,671 @@
+import "./server/env";
 import express from "express";
 import { createServer as createViteServer } from "vite";
-import Database from "better-sqlite3";
+import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { dayOf, MAX_RANGE_DAYS, publishingAnalytics } from "./server/analytics";
+import { ApiError, errorHandler, handle, idParam, notFound, parse, queryOf, sendError } from "./server/api";
+import { APPROVAL_STATES, review, reviewCounts, reviewHistory, reviewQueue } from "./server/approvals";
+import {
+  AuthError, authenticate, createUser, deleteUser, findUser, listUsers, login, logout, requireRole,
+  SESSION_COOKIE, sessionToken, setSessionCookie, updateUser, userCount, verifyPassword,
+} from "./server/auth";
+import { autoScheduleChannels, minutesOf, windowsFor } from "./server/autoscheduler";
+import { runBulk } from "./server/bulk";
+import { checkChannelHealth, deleteChannel, findChannel, startHealthChecks, updateChannel } from "./server/channels";
+import { type CaptionProvider, createCaptionProviderFromEnv, suggestCaptions } from "./server/captions";
+import { db } from "./server/db";
+import { duplicateQueue, resolveDuplicate, startFingerprintBackfill } from "./server/duplicates";
+import { subscribe } from "./server/events";
+import { inspectMedia } from "./server/ingest";
+import { allTags, searchMedia, setTags } from "./server/library";
+import { exportLogs, LOG_LEVELS, type LogFilters, logsToCsv, mediaTimeline, pruneLogs, queryLogs, withUser, writeLog } from "./server/logs";
+import { updateMedia } from "./server/media";
+import { runMigrations } from "./server/migrations";
+import { listNotifications, markRead, startRunwayChecks } from "./server/notifications";
+import * as schemas from "./server/schemas";
+import { getSetting, isValidTimeZone, listSettings, setting, SETTING_DEFINITIONS, settingsEnv, updateSettings } from "./server/settings";
+import { beginConnect, completeConnect } from "./server/oauth";
+import { createSnapchatPublish } from "./server/publish";
+import { createPublisherFromEnv, type Publisher } from "./server/publishers";
+import { scanChannels, startScheduledScans } from "./server/scanner";
+import { conflictWindowMinutes, reschedule, scheduleRange } from "./server/schedule";
+import type { ApprovalStatus, LogLevel, MediaRow, MediaStatus } from "./server/types";
+import { fetchMediaFile } from "./server/sources";
+import { BUILT_IN_VARIABLES, findTemplate, hashtagSetsFor, parseTemplateFields, renderForMedia } from "./server/templates";
+import { generateThumbnail, thumbnailPath } from "./server/thumbnails";
+import { transformMedia } from "./server/transform";
+import { createWebhook, deleteWebhook, listWebhooks, startWebhookDeliveries, testWebhook, updateWebhook, webhookDeliveries } from "./server/webhooks";
+import { createPublishWorker } from "./server/worker";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const db = new Database("platform.db");
-
-// Initialize Database
-db.exec(`
-  CREATE TABLE IF NOT EXISTS channels (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    name TEXT,
-    profile_id TEXT,
-    avatar TEXT,
-    status TEXT DEFAULT 'Connected',
-    drive_folder_id TEXT,
-    daily_limit INTEGER DEFAULT 10,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  CREATE TABLE IF NOT EXISTS media (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    file_name TEXT,
-    file_id TEXT UNIQUE,
-    type TEXT,
-    size INTEGER,
-    aspect_ratio TEXT,
-    status TEXT DEFAULT 'Pending',
-    caption TEXT,
-    scheduled_time DATETIME,
-    snapchat_link TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  CREATE TABLE IF NOT EXISTS logs (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-    file_name TEXT,
-    action TEXT,
-    status TEXT,
-    error_message TEXT
-  );
-
-  CREATE TABLE IF NOT EXISTS settings (
-    key TEXT PRIMARY KEY,
-    value TEXT
-  );
-`);
+// Built once the settings table exists, and rebuilt when credentials change in Settings.
+let publisher: Publisher;
+let captionProvider: CaptionProvider;
+const loadProviders = () => {
+  const env = settingsEnv();
+  publisher = createPublisherFromEnv(env);
+  captionProvider = createCaptionProviderFromEnv(env);
+};
+const worker = createPublishWorker({
+  publish: media => createSnapchatPublish(publisher)(media),
+  canPublish: () => publisher.kind !== "none",
+});
+const LOG_PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000;
 
 async function startServer() {
+  try {
+    runMigrations(db);
+  } catch (e: any) {
+    console.error(e?.message || e);
+    process.exit(1);
+  }
+  loadProviders();
+
   const app = express();
   const PORT = 3000;
 
   app.use(express.json());
+  app.use("/api", authenticate);
+
+  const startSession = async (req: express.Request, res: express.Response, username: string, password: string) => {
+    const session = await login(username, password);
+    setSessionCookie(req, res, session.token, session.expiresAt);
+    withUser(session.user, () => writeLog(session.user.username, "Signed In", "Success"));
+    res.json({ user: session.user });
+  };
+
+  // Auth. With no accounts yet, the first visitor creates the admin.
+  app.get("/api/auth/me", (req, res) => {
+    res.json({ user: req.user ?? null, setup_required: !req.user && userCount() === 0 });
+  });
+
+  app.post("/api/auth/setup", handle(async (req, res) => {
+    const { username, password, display_name } = parse(schemas.setup, req.body);
+    if (userCount() > 0) throw new AuthError("Setup is already done, sign in instead", "setup_done");
+    await createUser({ username, password, display_name, role: "admin" });
+    await startSession(req, res, username, password);
+  }));
+
+  app.post("/api/auth/login", handle(async (req, res) => {
+    const { username, password } = parse(schemas.credentials, req.body);
+    await startSession(req, res, username, password);
+  }));
+
+  app.post("/api/auth/logout", requireRole("viewer"), (req, res) => {
+    const token = sessionToken(req);
+    if (token) logout(token);
+    res.clearCookie(SESSION_COOKIE, { path: "/" });
+    res.json({ success: true });
+  });
+
+  app.put("/api/auth/password", requireRole("viewer"), handle(async (req, res) => {
+    const { current_password, new_password } = parse(schemas.passwordChange, req.body);
+    if (!(await verifyPassword(current_password, findUser(req.user!.id)!.password_hash))) {
+      throw new AuthError("Current password is wrong", "invalid_credentials");
+    }
+    await updateUser(req.user!.id, { password: new_password });
+    writeLog(req.user!.username, "Password Changed", "Info");
+    // Changing the password ended every session, this one included.
+    await startSession(req, res, req.user!.username, new_password);
+  }));
+
+  app.get("/api/users", requireRole("admin"), (req, res) => {
+    res.json(listUsers());
+  });
+
+  app.post("/api/users", requireRole("admin"), handle(async (req, res) => {
+    const user = await createUser(parse(schemas.userCreate, req.body));
+    writeLog(user.username, `User Created (${user.role})`, "Success");
+    res.json(user);
+  }));
+
+  app.patch("/api/users/:id", requireRole("admin"), handle(async (req, res) => {
+    const { display_name, password, role } = parse(schemas.userUpdate, req.body);
+    const user = await updateUser(parse(idParam, req.params.id, "id"), { display_name, password, role });
+    const changes = [role !== undefined && `role ${user.role}`, password !== undefined && "password reset", display_name !== undefined && "display name"].filter(Boolean);
+    writeLog(user.username, `User Updated (${changes.join(", ")})`, "Info");
+    res.json(user);
+  }));
+
+  app.delete("/api/users/:id", requireRole("admin"), (req, res) => {
+    const id = parse(idParam, req.params.id, "id");
+    const user = findUser(id);
+    deleteUser(id);
+    writeLog(user!.username, "User Deleted", "Info");
+    res.json({ success: true });
+  });
 
   // API Routes
-  app.get("/api/stats", (req, res) => {
-    const totalMedia = db.prepare("SELECT COUNT(*) as count FROM media").get() as any;
-    const pending = db.prepare("SELECT COUNT(*) as count FROM media WHERE status = 'Pending'").get() as any;
-    const publishedToday = db.prepare("SELECT COUNT(*) as count FROM media WHERE status = 'Published' AND date(created_at) = date('now')").get() as any;
-    const failed = db.prepare("SELECT COUNT(*) as count FROM media WHERE status = 'Failed'").get() as any;
-    
-    const recentActivity = db.prepare("SELECT * FROM media ORDER BY created_at DESC LIMIT 5").all();
+  app.get("/api/stats", requireRole("viewer"), (req, res) => {
+    const channelId = parse(schemas.channelFilter, queryOf(req)).channel_id ?? null;
+    const scope = channelId === null ? "status != 'Deleted'" : "status != 'Deleted' AND channel_id = @channelId";
+    const count = (where: string) => (db.prepare(`SELECT COUNT(*) as count FROM media WHERE ${scope} AND ${where}`).get({ channelId }) as any).count;
+
+    const recentActivity = db.prepare(`SELECT * FROM media WHERE ${scope} ORDER BY created_at DESC LIMIT 5`).all({ channelId });
     
     res.json({
       stats: {
-        totalMedia: totalMedia.count,
-        pending: pending.count,
-        publishedToday: publishedToday.count,
-        failed: failed.count
+        totalMedia: count("1 = 1"),
+        pending: count("status = 'Pending'"),
+        publishedToday: count("status = 'Published' AND date(published_at) = date('now')"),
+        failed: count("status IN ('Failed', 'Dead Letter')"),
+        deadLetter: count("status = 'Dead Letter'"),
+        inReview: reviewCounts()["In Review"] || 0
       },
       recentActivity
     });
   });
 
-  app.get("/api/channels", (req, res) => {
-    const channels = db.prepare("SELECT * FROM channels").all();
+  // Defaults to the last 30 days.
+  app.get("/api/analytics", requireRole("viewer"), (req, res) => {
+    const query = parse(schemas.analytics, queryOf(req));
+    const to = query.to ?? dayOf(new Date());
+    const from = query.from ?? dayOf(new Date(Date.parse(`${to}T00:00:00Z`) - 29 * 24 * 60 * 60 * 1000));
+    const isDay = (day: string) => !isNaN(Date.parse(day)) && dayOf(new Date(`${day}T00:00:00Z`)) === day;
+    if (!isDay(from) || !isDay(to)) throw new ApiError(400, "invalid_input", "from and to must be real dates", { field: "from" });
+    if (from > to) throw new ApiError(400, "invalid_input", "from must be on or before to", { field: "from" });
+    if (Date.parse(to) - Date.parse(from) >= MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      throw new ApiError(400, "invalid_input", `Range can't be longer than ${MAX_RANGE_DAYS} days`, { field: "from" });
+    }
+    res.json(publishingAnalytics({ from, to, channelId: query.channel_id ?? null }));
+  });
+
+  app.get("/api/channels", requireRole("viewer"), (req, res) => {
+    const channels = db.prepare(`
+      SELECT channels.*, channel_tokens.channel_id IS NOT NULL as authorized,
+        (SELECT COUNT(*) FROM media WHERE channel_id = channels.id AND status = 'Pending') as queued,
+        (SELECT COUNT(*) FROM media WHERE channel_id = channels.id AND date(published_at) = date('now')) as published_today
+      FROM channels LEFT JOIN channel_tokens ON channel_tokens.channel_id = channels.id
+    `).all();
     res.json(channels);
   });
 
-  app.post("/api/channels", (req, res) => {
-    const { name, profile_id, drive_folder_id, daily_limit } = req.body;
-    const info = db.prepare("INSERT INTO channels (name, profile_id, drive_folder_id, daily_limit) VALUES (?, ?, ?, ?)").run(name, profile_id, drive_folder_id, daily_limit);
-    res.json({ id: info.lastInsertRowid });
+  app.post("/api/channels", requireRole("admin"), (req, res) => {
+    const { name, profile_id, drive_folder_id, daily_limit } = parse(schemas.channelCreate, req.body);
+    const info = db.prepare("INSERT INTO channels (name, profile_id, drive_folder_id, daily_limit, timezone) VALUES (?, ?, ?, ?, ?)")
+      .run(name, profile_id, drive_folder_id, daily_limit, setting("default_timezone"));
+    res.json(findChannel(Number(info.lastInsertRowid)));
+  });
+
+  // Name, folder, limit, avatar and paused. Resuming a channel publishes anything that came due meanwhile.
+  app.patch("/api/channels/:id", requireRole("admin"), (req, res) => {
+    const changes = parse(schemas.channelUpdate, req.body);
+    const channel = updateChannel(parse(idParam, req.params.id, "id"), changes);
+    if (changes.paused === false) worker.tick();
+    res.json(channel);
+  });
+
+  // Refused with has_queued_media until ?queued=move&move_to=<id> or ?queued=remove says what to do with unpublished posts.
+  app.delete("/api/channels/:id", requireRole("admin"), (req, res) => {
+    res.json(deleteChannel(parse(idParam, req.params.id, "id"), parse(schemas.channelDelete, queryOf(req))));
+  });
+
+  app.post("/api/channels/:id/health-check", requireRole("admin"), handle(async (req, res) => {
+    res.json(await checkChannelHealth(channelParam(req), publisher));
+  }));
+
+  app.put("/api/channels/:id/caption-prompt", requireRole("editor"), (req, res) => {
+    const { caption_prompt } = parse(schemas.captionPrompt, req.body);
+    const info = db.prepare("UPDATE channels SET caption_prompt = ? WHERE id = ?").run(caption_prompt || null, parse(idParam, req.params.id, "id"));
+    if (info.changes === 0) throw notFound("Channel");
+    res.json({ success: true });
+  });
+
+  app.get("/api/snapchat/connect", requireRole("admin"), (req, res) => {
+    const channelId = parse(schemas.channelFilter, queryOf(req)).channel_id ?? null;
+    res.redirect(beginConnect(publisher, channelId));
+  });
+
+  app.get("/api/snapchat/callback", requireRole("admin"), async (req, res) => {
+    const { code, state, error } = req.query as Record<string, string | undefined>;
+    try {
+      if (error || !code || !state) throw new Error(error || "Missing authorization code");
+      const channelId = await completeConnect(publisher, state, code);
+      res.redirect(`/?page=channels&connected=${channelId}`);
+    } catch (e: any) {
+      res.redirect(`/?page=channels&connect_error=${encodeURIComponent(e?.message || "Connection failed")}`);
+    }
+  });
+
+  app.get("/api/media", requireRole("viewer"), (req, res) => {
+    const { channel_id } = parse(schemas.channelFilter, queryOf(req));
+    const media = channel_id
+      ? db.prepare("SELECT * FROM media WHERE channel_id = ? AND status != 'Deleted' ORDER BY created_at DESC").all(channel_id)
+      : db.prepare("SELECT * FROM media WHERE status != 'Deleted' ORDER BY created_at DESC").all();
+    res.json(media);
+  });
+
+  const list = (value?: string) => value ? value.split(",").map(item => item.trim()).filter(Boolean) : undefined;
+
+  app.get("/api/media/search", requireRole("viewer"), (req, res) => {
+    const query = parse(schemas.mediaSearch, queryOf(req));
+    res.json(searchMedia({ ...query, status: list(query.status) as MediaStatus[] | undefined, tags: list(query.tags) }));
+  });
+
+  app.get("/api/tags", requireRole("viewer"), (req, res) => {
+    res.json(allTags());
+  });
+
+  app.post("/api/media/scan", requireRole("editor"), handle(async (req, res) => {
+    const { channel_id } = parse(schemas.scan, req.body ?? {});
+    res.json(await scanChannels(channel_id ?? undefined));
+  }));
+
+  app.post("/api/media/bulk", requireRole("editor"), (req, res) => {
+    const { action, ids, params } = parse(schemas.bulk, req.body);
+    const result = runBulk(action, ids, params);
+    if ((action === "publish" || action === "retry") && result.succeeded > 0) worker.tick();
+    res.json(result);
+  });
+
+  // Returns the updated row. Send the version from the row being edited and the
+  // edit is refused with version_conflict if someone else changed it first.
+  app.patch("/api/media/:id", requireRole("editor"), (req, res) => {
+    const { version, ...changes } = parse(schemas.mediaPatch, req.body);
+    res.json(updateMedia(parse(idParam, req.params.id, "id"), changes, version));
+  });
+
+  const findMedia = (id: number) => db.prepare("SELECT * FROM media WHERE id = ?").get(id) as MediaRow | undefined;
+
+  // The media row named by the :id param, or a 404.
+  const mediaParam = (req: express.Request) => {
+    const media = findMedia(parse(idParam, req.params.id, "id"));
+    if (!media) throw notFound("Media");
+    return media;
+  };
+
+  const channelParam = (req: express.Request) => {
+    const channel = findChannel(parse(idParam, req.params.id, "id"));
+    if (!channel) throw notFound("Channel");
+    return channel;
+  };
+
+  app.put("/api/media/:id/tags", requireRole("editor"), (req, res) => {
+    const media = mediaParam(req);
+    res.json({ tags: setTags(media.id, parse(schemas.tags, req.body).tags) });
+  });
+
+  app.post("/api/media/:id/inspect", requireRole("editor"), handle(async (req, res) => {
+    const media = mediaParam(req);
+    const result = await inspectMedia(media);
+    if (!result.probed) throw new ApiError(502, "upstream_failed", "Could not probe the file, see logs for details");
+    res.json({ ...result, media: findMedia(media.id) });
+  }));
+
+  app.post("/api/media/:id/transform", requireRole("editor"), handle(async (req, res) => {
+    const media = mediaParam(req);
+    const { fit } = parse(schemas.transform, req.body ?? {});
+    res.json(await transformMedia(media, fit ? { fit } : {}));
+  }));
+
+  app.get("/api/schedule", requireRole("viewer"), (req, res) => {
+    const query = parse(schemas.scheduleRange, queryOf(req));
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+    if (to <= from) throw new ApiError(400, "invalid_input", "from must be before to", { field: "to" });
+    if (to.getTime() - from.getTime() > 62 * 24 * 60 * 60 * 1000) throw new ApiError(400, "invalid_input", "Range can't be longer than 62 days", { field: "to" });
+
+    res.json({ conflict_window_minutes: conflictWindowMinutes(), items: scheduleRange(from, to, query.channel_id ?? null) });
+  });
+
+  app.post("/api/schedule/auto", requireRole("editor"), (req, res) => {
+    const { channel_id, ids, reflow } = parse(schemas.autoSchedule, req.body ?? {});
+    res.json(autoScheduleChannels(channel_id ?? undefined, { ids, reflow }));
+  });
+
+  app.get("/api/channels/:id/posting-windows", requireRole("viewer"), (req, res) => {
+    const channel = channelParam(req);
+    res.json({ timezone: channel.timezone, schedule_order: channel.schedule_order, windows: windowsFor(channel.id) });
+  });
+
+  // Partial update like template-settings; windows replaces the whole list.
+  app.put("/api/channels/:id/posting-windows", requireRole("editor"), (req, res) => {
+    const channel = channelParam(req);
+    const { timezone, schedule_order, windows } = parse(schemas.postingWindows, req.body);
+
+    if (timezone !== undefined && !isValidTimeZone(timezone)) throw new ApiError(400, "invalid_input", `Unknown timezone "${timezone}"`, { field: "timezone" });
+    windows?.forEach((window, i) => {
+      if (minutesOf(window.end_time) < minutesOf(window.start_time)) {
+        throw new ApiError(400, "invalid_input", "A window can't end before it starts", { field: `windows[${i}].end_time` });
+      }
+    });
+
+    db.transaction(() => {
+      if (timezone !== undefined) db.prepare("UPDATE channels SET timezone = ? WHERE id = ?").run(timezone, channel.id);
+      if (schedule_order !== undefined) db.prepare("UPDATE channels SET schedule_order = ? WHERE id = ?").run(schedule_order, channel.id);
+      if (windows !== undefined) {
+        db.prepare("DELETE FROM posting_windows WHERE channel_id = ?").run(channel.id);
+        for (const window of windows) {
+          db.prepare("INSERT INTO posting_windows (channel_id, days, start_time, end_time, slots, min_spacing_minutes) VALUES (?, ?, ?, ?, ?, ?)")
+            .run(channel.id, [...new Set(window.days)].sort().join(","), window.start_time, window.end_time, window.slots, window.min_spacing_minutes);
+        }
+      }
+    })();
+    res.json({ success: true });
+  });
+
+  // A conflict comes back as a 409 with the slot check, so the UI can offer to schedule anyway.
+  app.post("/api/media/:id/reschedule", requireRole("editor"), (req, res) => {
+    const { scheduled_time, force } = parse(schemas.reschedule, req.body);
+    res.json(reschedule(parse(idParam, req.params.id, "id"), new Date(scheduled_time), force));
+  });
+
+  app.get("/api/reviews", requireRole("viewer"), (req, res) => {
+    const query = parse(schemas.reviewQueue, queryOf(req));
+    const states = query.status.split(",").filter(state => APPROVAL_STATES.includes(state as ApprovalStatus)) as ApprovalStatus[];
+    if (states.length === 0) throw new ApiError(400, "invalid_input", `status must be one of ${APPROVAL_STATES.join(", ")}`, { field: "status" });
+    res.json({ counts: reviewCounts(), items: reviewQueue(states, query.channel_id ?? null) });
+  });
+
+  app.post("/api/media/:id/review", requireRole("editor"), (req, res) => {
+    const { action, comment } = parse(schemas.reviewAction, req.body);
+    res.json(review(parse(idParam, req.params.id, "id"), action, comment ?? undefined));
+  });
+
+  app.get("/api/media/:id/reviews", requireRole("viewer"), (req, res) => {
+    res.json(reviewHistory(mediaParam(req).id));
   });
 
-  app.get("/api/media", (req, res) => {
-    const media = db.prepare("SELECT * FROM media ORDER BY created_at DESC").all();
+  // Posts held back because they look like something already published on their channel.
+  app.get("/api/duplicates", requireRole("viewer"), (req, res) => {
+    res.json(duplicateQueue(parse(schemas.channelFilter, queryOf(req)).channel_id ?? null));
+  });
+
+  app.post("/api/media/:id/duplicate", requireRole("editor"), (req, res) => {
+    const { action } = parse(schemas.duplicateAction, req.body);
+    const media = resolveDuplicate(parse(idParam, req.params.id, "id"), action);
+    if (action === "allow") worker.tick();
     res.json(media);
   });
 
-  app.post("/api/media/scan", (req, res) => {
-    // Mocking a drive scan
-    const mockFiles = [
-      { file_name: "snap_story_01.mp4", file_id: "drive_1", type: "video", size: 1024 * 1024 * 5, aspect_ratio: "9:16" },
-      { file_name: "promo_shot.jpg", file_id: "drive_2", type: "image", size: 1024 * 512, aspect_ratio: "9:16" },
-      { file_name: "behind_the_scenes.mp4", file_id: "drive_3", type: "video", size: 1024 * 1024 * 12, aspect_ratio: "16:9" },
-    ];
+  app.put("/api/channels/:id/approval", requireRole("admin"), (req, res) => {
+    const channel = channelParam(req);
+    const { requires_approval } = parse(schemas.approvalSetting, req.body);
+    db.prepare("UPDATE channels SET requires_approval = ? WHERE id = ?").run(requires_approval ? 1 : 0, channel.id);
+    writeLog(channel.name, `Approval ${requires_approval ? "required" : "no longer required"}`, "Info", null, { channel_id: channel.id });
+    res.json({ success: true });
+  });
+
+  app.post("/api/media/:id/captions", requireRole("editor"), handle(async (req, res) => {
+    const media = mediaParam(req);
+    const { count } = parse(schemas.captionSuggest, req.body ?? {});
+    try {
+      res.json({ provider: captionProvider.kind, suggestions: await suggestCaptions(captionProvider, media, count ?? 3) });
+    } catch (e: any) {
+      throw new ApiError(502, "upstream_failed", `Caption generation failed: ${e?.message || e}`);
+    }
+  }));
 
-    let newCount = 0;
-    for (const file of mockFiles) {
+  app.post("/api/captions/suggest", requireRole("editor"), handle(async (req, res) => {
+    const { ids, count } = parse(schemas.captionSuggestMany, req.body);
+    const results = [];
+    for (const id of ids) {
+      const media = findMedia(id);
+      if (!media) {
+        results.push({ id, error: "Media not found" });
+        continue;
+      }
       try {
-        db.prepare("INSERT INTO media (file_name, file_id, type, size, aspect_ratio) VALUES (?, ?, ?, ?, ?)").run(file.file_name, file.file_id, file.type, file.size, file.aspect_ratio);
-        newCount++;
-      } catch (e) {
-        // Duplicate file_id
+        results.push({ id: media.id, suggestions: await suggestCaptions(captionProvider, media, count ?? 3) });
+      } catch (e: any) {
+        results.push({ id: media.id, error: e?.message || String(e) });
       }
     }
+    res.json({ provider: captionProvider.kind, results });
+  }));
+
+  const templateOf = (id: number, field: string) => {
+    const template = findTemplate(id);
+    if (!template) throw new ApiError(400, "invalid_input", "Template not found", { field });
+    return template;
+  };
 
-    db.prepare("INSERT INTO logs (file_name, action, status) VALUES (?, ?, ?)").run("System", "Drive Scan", "Success");
-    res.json({ newCount });
+  const checkChannel = (id: number | null | undefined) => {
+    if (id && !findChannel(id)) throw new ApiError(400, "invalid_input", "Channel not found", { field: "channel_id" });
+  };
+
+  app.get("/api/templates", requireRole("viewer"), (req, res) => {
+    const { channel_id } = parse(schemas.templateFilter, queryOf(req));
+    const templates = channel_id
+      ? db.prepare("SELECT * FROM caption_templates WHERE channel_id IS NULL OR channel_id = ? ORDER BY name").all(channel_id)
+      : db.prepare("SELECT * FROM caption_templates ORDER BY name").all();
+    res.json(templates);
   });
 
-  app.patch("/api/media/:id", (req, res) => {
-    const { id } = req.params;
-    const { caption, scheduled_time, status } = req.body;
-    
-    if (caption !== undefined) db.prepare("UPDATE media SET caption = ? WHERE id = ?").run(caption, id);
-    if (scheduled_time !== undefined) db.prepare("UPDATE media SET scheduled_time = ? WHERE id = ?").run(scheduled_time, id);
-    if (status !== undefined) db.prepare("UPDATE media SET status = ? WHERE id = ?").run(status, id);
-    
+  app.post("/api/templates", requireRole("editor"), (req, res) => {
+    const { name, body, channel_id } = parse(schemas.templateCreate, req.body);
+    checkChannel(channel_id);
+    const info = db.prepare("INSERT INTO caption_templates (name, body, channel_id) VALUES (?, ?, ?)").run(name, body, channel_id || null);
+    res.json(findTemplate(Number(info.lastInsertRowid)));
+  });
+
+  app.patch("/api/templates/:id", requireRole("editor"), (req, res) => {
+    const template = findTemplate(parse(idParam, req.params.id, "id"));
+    if (!template) throw notFound("Template");
+    const { name, body, channel_id } = parse(schemas.templateUpdate, req.body);
+    checkChannel(channel_id);
+
+    db.prepare(`
+      UPDATE caption_templates SET name = ?, body = ?, channel_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(name ?? template.name, body ?? template.body, channel_id === undefined ? template.channel_id : channel_id || null, template.id);
+    res.json(findTemplate(template.id));
+  });
+
+  app.delete("/api/templates/:id", requireRole("editor"), (req, res) => {
+    const id = parse(idParam, req.params.id, "id");
+    db.transaction(() => {
+      db.prepare("UPDATE channels SET default_template_id = NULL WHERE default_template_id = ?").run(id);
+      db.prepare("DELETE FROM caption_templates WHERE id = ?").run(id);
+    })();
+    res.json({ success: true });
+  });
+
+  // Renders a saved template, or an unsaved draft body, against a real media row
+  // without using up the channel's next hashtag set.
+  app.post("/api/templates/preview", requireRole("editor"), (req, res) => {
+    const { template_id, body, media_id } = parse(schemas.templatePreview, req.body);
+    const template = template_id ? templateOf(template_id, "template_id") : body !== undefined ? { body } : undefined;
+    if (!template) throw new ApiError(400, "invalid_input", "template_id or body is required", { field: "template_id" });
+    const media = findMedia(media_id);
+    if (!media) throw notFound("Media");
+    res.json(renderForMedia(template, media));
+  });
+
+  app.post("/api/media/:id/apply-template", requireRole("editor"), (req, res) => {
+    const media = mediaParam(req);
+    const template = templateOf(parse(schemas.applyTemplate, req.body).template_id, "template_id");
+    const { text, missing } = renderForMedia(template, media, true);
+    res.json({ media: updateMedia(media.id, { caption: text }), missing });
+  });
+
+  app.get("/api/channels/:id/template-settings", requireRole("viewer"), (req, res) => {
+    const channel = channelParam(req);
+    res.json({
+      default_template_id: channel.default_template_id,
+      template_fields: parseTemplateFields(channel),
+      hashtag_sets: hashtagSetsFor(channel.id),
+      variables: BUILT_IN_VARIABLES,
+    });
+  });
+
+  // Partial update: only the keys present in the body are changed. hashtag_sets
+  // replaces the channel's whole rotation and restarts it from the first set.
+  app.put("/api/channels/:id/template-settings", requireRole("editor"), (req, res) => {
+    const channel = channelParam(req);
+    const { default_template_id, template_fields, hashtag_sets } = parse(schemas.templateSettings, req.body);
+
+    if (default_template_id) templateOf(default_template_id, "default_template_id");
+    for (const key of Object.keys(template_fields ?? {})) {
+      const field = `template_fields.${key}`;
+      if (!/^[a-zA-Z0-9_]+$/.test(key)) throw new ApiError(400, "invalid_input", `Invalid field name "${key}", use letters, numbers and underscores`, { field });
+      if (BUILT_IN_VARIABLES.includes(key)) throw new ApiError(400, "invalid_input", `"${key}" is a built-in variable`, { field });
+    }
+
+    db.transaction(() => {
+      if (default_template_id !== undefined) db.prepare("UPDATE channels SET default_template_id = ? WHERE id = ?").run(default_template_id || null, channel.id);
+      if (template_fields !== undefined) db.prepare("UPDATE channels SET template_fields = ? WHERE id = ?").run(JSON.stringify(template_fields), channel.id);
+      if (hashtag_sets !== undefined) {
+        db.prepare("DELETE FROM hashtag_sets WHERE channel_id = ?").run(channel.id);
+        hashtag_sets.forEach((set, position) => {
+          db.prepare("INSERT INTO hashtag_sets (channel_id, tags, cta, position) VALUES (?, ?, ?, ?)").run(channel.id, set.tags, set.cta?.trim() || null, position);
+        });
+        db.prepare("UPDATE channels SET hashtag_cursor = 0 WHERE id = ?").run(channel.id);
+      }
+    })();
+    res.json({ success: true });
+  });
+
+  // Ids whose thumbnail couldn't be rendered, so we don't rerun ffmpeg on every
+  // request. We try again after a while, or straight away once the source file changes.
+  const THUMBNAIL_RETRY_MS = 10 * 60 * 1000;
+  const thumbnailFailures = new Map<number, { at: number; source: string }>();
+  const sourceVersion = (media: MediaRow) => `${media.file_id}:${media.source_checksum ?? ""}:${media.source_modified_at ?? ""}`;
+  const thumbnailFailed = (media: MediaRow) => {
+    const failure = thumbnailFailures.get(media.id);
+    return !!failure && failure.source === sourceVersion(media) && Date.now() - failure.at < THUMBNAIL_RETRY_MS;
+  };
+
+  app.get("/api/media/:id/thumbnail", requireRole("viewer"), handle(async (req, res) => {
+    const media = mediaParam(req);
+
+    const file = thumbnailPath(media.id);
+    if (!fs.existsSync(file)) {
+      if (thumbnailFailed(media) || !(await generateThumbnail(media))) {
+        if (!thumbnailFailed(media)) thumbnailFailures.set(media.id, { at: Date.now(), source: sourceVersion(media) });
+        throw new ApiError(404, "not_found", "No thumbnail available");
+      }
+      thumbnailFailures.delete(media.id);
+    }
+
+    // Versioned URLs change whenever the thumbnail is regenerated, so they can be cached forever.
+    res.setHeader("Cache-Control", req.query.v ? "public, max-age=31536000, immutable" : "no-cache");
+    res.sendFile(file);
+  }));
+
+  app.get("/api/media/:id/file", requireRole("viewer"), handle(async (req, res) => {
+    const media = mediaParam(req);
+
+    let file: string;
+    try {
+      file = await fetchMediaFile(media);
+    } catch (e: any) {
+      throw new ApiError(502, "upstream_failed", e?.message || "Could not load the file");
+    }
+    res.setHeader("Cache-Control", "private, no-cache");
+    res.sendFile(file);
+  }));
+
+  app.post("/api/media/:id/publish", requireRole("editor"), handle(async (req, res) => {
+    res.json(await worker.publishNow(parse(idParam, req.params.id, "id")));
+  }));
+
+  app.post("/api/media/:id/retry", requireRole("editor"), (req, res) => {
+    res.json(worker.retry(parse(idParam, req.params.id, "id")));
+  });
+
+  app.get("/api/worker", requireRole("viewer"), (req, res) => {
+    res.json({ ...worker.status(), lastScanAt: getSetting("last_scan_at") });
+  });
+
+  // Server-sent events: media rows as they change, new log entries, scan
+  // progress, notifications and worker heartbeats. The first event is the current worker status.
+  app.get("/api/events", requireRole("viewer"), (req, res) => {
+    res.set({ "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+
+    const send = (type: string, data: unknown) => res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    send("worker", { ...worker.status(), lastScanAt: getSetting("last_scan_at") });
+
+    const unsubscribe = subscribe(event => send(event.type, event.data));
+    // Comment lines keep proxies from closing an idle stream.
+    const ping = setInterval(() => res.write(": ping\n\n"), 25000);
+    req.on("close", () => {
+      clearInterval(ping);
+      unsubscribe();
+    });
+  });
+
+  const logFilters = (req: express.Request): LogFilters => {
+    const { level, format, ...query } = parse(schemas.logQuery, queryOf(req));
+    return { ...query, level: list(level)?.filter(level => LOG_LEVELS.includes(level as LogLevel)) as LogLevel[] | undefined };
+  };
+
+  app.get("/api/logs", requireRole("viewer"), (req, res) => {
+    res.json(queryLogs(logFilters(req)));
+  });
+
+  // Same filters as /api/logs, without paging.
+  app.get("/api/logs/export", requireRole("viewer"), (req, res) => {
+    const format = parse(schemas.logQuery, queryOf(req)).format ?? "json";
+    const rows = exportLogs(logFilters(req));
+    const stamp = new Date().toISOString().slice(0, 10);
+    res.attachment(`logs-${stamp}.${format}`);
+    if (format === "csv") res.type("text/csv").send(logsToCsv(rows));
+    else res.json(rows);
+  });
+
+  app.post("/api/logs/prune", requireRole("admin"), (req, res) => {
+    res.json({ pruned: pruneLogs(parse(schemas.logPrune, req.body ?? {}).days) });
+  });
+
+  app.get("/api/settings", requireRole("viewer"), (req, res) => {
+    res.json(listSettings());
+  });
+
+  app.put("/api/settings", requireRole("admin"), (req, res) => {
+    const changed = updateSettings(parse(schemas.settings, req.body));
+    if (changed.some(key => SETTING_DEFINITIONS.find(def => def.key === key)?.group === "credentials")) loadProviders();
+    res.json(listSettings());
+  });
+
+  // Notifications are shared; read state is per user.
+  app.get("/api/notifications", requireRole("viewer"), (req, res) => {
+    const { unread, limit } = parse(schemas.notificationQuery, queryOf(req));
+    res.json(listNotifications(req.user!.id, { unread: unread === "true", limit }));
+  });
+
+  app.post("/api/notifications/read", requireRole("viewer"), (req, res) => {
+    res.json({ unread: markRead(req.user!.id, parse(schemas.notificationRead, req.body ?? {}).ids) });
+  });
+
+  app.get("/api/webhooks", requireRole("admin"), (req, res) => {
+    res.json(listWebhooks());
+  });
+
+  app.post("/api/webhooks", requireRole("admin"), (req, res) => {
+    res.json(createWebhook(parse(schemas.webhookCreate, req.body)));
+  });
+
+  app.patch("/api/webhooks/:id", requireRole("admin"), (req, res) => {
+    res.json(updateWebhook(parse(idParam, req.params.id, "id"), parse(schemas.webhookUpdate, req.body)));
+  });
+
+  app.delete("/api/webhooks/:id", requireRole("admin"), (req, res) => {
+    deleteWebhook(parse(idParam, req.params.id, "id"));
     res.json({ success: true });
   });
 
-  app.get("/api/logs", (req, res) => {
-    const logs = db.prepare("SELECT * FROM logs ORDER BY timestamp DESC LIMIT 50").all();
-    res.json(logs);
+  // Sends a sample payload right away and returns the delivery, successful or not.
+  app.post("/api/webhooks/:id/test", requireRole("admin"), handle(async (req, res) => {
+    res.json(await testWebhook(parse(idParam, req.params.id, "id")));
+  }));
+
+  app.get("/api/webhooks/:id/deliveries", requireRole("admin"), (req, res) => {
+    res.json(webhookDeliveries(parse(idParam, req.params.id, "id")));
+  });
+
+  app.get("/api/media/:id/timeline", requireRole("viewer"), (req, res) => {
+    res.json(mediaTimeline(mediaParam(req).id));
+  });
+
+  // Anything else under /api is a JSON 404 rather than the SPA's index.html.
+  app.use("/api", (req, res) => {
+    sendError(res, 404, "not_found", `No route for ${req.method} ${req.originalUrl}`);
   });
 
   // Vite middleware for development
@@ -145,8 +682,18 @@ async function startServer() {
     });
   }
 
+  app.use(errorHandler);
+
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
+    worker.start();
+    startScheduledScans();
+    startHealthChecks(() => publisher);
+    startRunwayChecks();
+    startWebhookDeliveries();
+    startFingerprintBackfill();
+    pruneLogs();
+    setInterval(() => pruneLogs(), LOG_PRUNE_INTERVAL_MS);
   });
 }
 
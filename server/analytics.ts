@@ -0,0 +1,191 @@
+import { windowsFor } from "./autoscheduler";
+import { db } from "./db";
+import type { ChannelRow } from "./types";
+
+// Days are UTC calendar days, "YYYY-MM-DD", inclusive at both ends.
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+  channelId: number | null;
+}
+
+export interface DailyPoint {
+  day: string;
+  published: number;
+  // Attempts that failed, including the ones that went to the dead letter queue.
+  failed: number;
+  // Posts ingested but not yet published at the end of the day.
+  backlog: number;
+}
+
+export interface ChannelAnalytics {
+  channel_id: number;
+  name: string;
+  published: number;
+  failed: number;
+  // Share of finished attempts that published, or null with no attempts in range.
+  success_rate: number | null;
+  mean_hours_to_publish: number | null;
+  series: DailyPoint[];
+  runway: Runway;
+}
+
+export interface Runway {
+  // Posts ready to go out: Pending, or Failed and waiting for a retry.
+  queued: number;
+  per_day: number | null;
+  // Where per_day comes from: the channel's posting windows, or what it actually published lately.
+  basis: "posting_windows" | "recent_average" | null;
+  days_left: number | null;
+  runs_out_on: string | null;
+  // Set when the queue isn't draining at all.
+  stalled: "paused" | "disconnected" | null;
+}
+
+export const MAX_RANGE_DAYS = 366;
+const RECENT_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const dayOf = (date: Date) => date.toISOString().slice(0, 10);
+
+export function daysBetween(from: string, to: string) {
+  const days: string[] = [];
+  for (let time = Date.parse(`${from}T00:00:00Z`); time <= Date.parse(`${to}T00:00:00Z`); time += DAY_MS) {
+    days.push(dayOf(new Date(time)));
+  }
+  return days;
+}
+
+type Counts = { channel_id: number; day: string; count: number }[];
+
+// Per channel and day, keyed "channel:day".
+const byChannelDay = (rows: Counts) => new Map(rows.map(row => [`${row.channel_id}:${row.day}`, row.count]));
+
+function dailyCounts({ from, to, channelId }: AnalyticsRange) {
+  const params = { from, to, channelId };
+  const published = byChannelDay(db.prepare(`
+    SELECT channel_id, date(published_at) as day, COUNT(*) as count FROM media
+    WHERE status = 'Published' AND date(published_at) BETWEEN @from AND @to AND (@channelId IS NULL OR channel_id = @channelId)
+    GROUP BY channel_id, day
+  `).all(params) as Counts);
+
+  const failed = byChannelDay(db.prepare(`
+    SELECT channel_id, date(attempted_at) as day, COUNT(*) as count FROM publish_attempts
+    WHERE outcome != 'published' AND date(attempted_at) BETWEEN @from AND @to AND (@channelId IS NULL OR channel_id = @channelId)
+    GROUP BY channel_id, day
+  `).all(params) as Counts);
+
+  // Reconstructed from ingest and publish times. Posts since deleted, removed or
+  // rejected are left out of every day, since we don't record when that happened.
+  const backlog = byChannelDay(db.prepare(`
+    WITH RECURSIVE days(day) AS (
+      SELECT date(@from) UNION ALL SELECT date(day, '+1 day') FROM days WHERE day < date(@to)
+    )
+    SELECT media.channel_id, days.day, COUNT(*) as count
+    FROM days JOIN media ON date(media.created_at) <= days.day AND (media.published_at IS NULL OR date(media.published_at) > days.day)
+    WHERE media.channel_id IS NOT NULL AND media.status NOT IN ('Deleted', 'Removed', 'Rejected')
+      AND (@channelId IS NULL OR media.channel_id = @channelId)
+    GROUP BY media.channel_id, days.day
+  `).all(params) as Counts);
+
+  return { published, failed, backlog };
+}
+
+// Average publishes per day the channel's posting windows allow, capped by its daily limit.
+function windowRate(channel: ChannelRow) {
+  const windows = windowsFor(channel.id);
+  if (windows.length === 0) return null;
+  const perWeek = windows.reduce((sum, window) => sum + window.slots * window.days.split(",").length, 0);
+  return Math.min(perWeek / 7, channel.daily_limit);
+}
+
+export function runwayFor(channel: ChannelRow, now = new Date()): Runway {
+  const queued = (db.prepare(`
+    SELECT COUNT(*) as count FROM media WHERE channel_id = ? AND (status = 'Pending' OR (status = 'Failed' AND next_attempt_at IS NOT NULL))
+  `).get(channel.id) as { count: number }).count;
+  const stalled = channel.paused ? "paused" : channel.status !== "Connected" ? "disconnected" : null;
+
+  let perDay = windowRate(channel);
+  let basis: Runway["basis"] = perDay === null ? null : "posting_windows";
+  if (perDay === null) {
+    const recent = (db.prepare(`
+      SELECT COUNT(*) as count FROM media WHERE channel_id = ? AND status = 'Published' AND datetime(published_at) > datetime('now', ?)
+    `).get(channel.id, `-${RECENT_DAYS} days`) as { count: number }).count;
+    if (recent > 0) {
+      perDay = recent / RECENT_DAYS;
+      basis = "recent_average";
+    }
+  }
+
+  const daysLeft = perDay && !stalled ? queued / perDay : null;
+  return {
+    queued,
+    per_day: perDay === null ? null : Math.round(perDay * 10) / 10,
+    basis,
+    days_left: daysLeft === null ? null : Math.round(daysLeft * 10) / 10,
+    runs_out_on: daysLeft === null ? null : dayOf(new Date(now.getTime() + daysLeft * DAY_MS)),
+    stalled,
+  };
+}
+
+function meanHoursToPublish({ from, to }: AnalyticsRange, channelId: number | null) {
+  const row = db.prepare(`
+    SELECT AVG((julianday(published_at) - julianday(created_at)) * 24) as hours FROM media
+    WHERE status = 'Published' AND date(published_at) BETWEEN ? AND ? AND (? IS NULL OR channel_id = ?)
+  `).get(from, to, channelId, channelId) as { hours: number | null };
+  return row.hours === null ? null : Math.round(row.hours * 10) / 10;
+}
+
+const successRate = (published: number, failed: number) =>
+  published + failed === 0 ? null : Math.round((published / (published + failed)) * 1000) / 10;
+
+// Daily publish, failure and backlog series per channel, with totals over the
+// range and how long each channel's queue will last at its current pace.
+export function publishingAnalytics(range: AnalyticsRange) {
+  const days = daysBetween(range.from, range.to);
+  const counts = dailyCounts(range);
+  const channels = (range.channelId === null
+    ? db.prepare("SELECT * FROM channels ORDER BY name").all()
+    : db.prepare("SELECT * FROM channels WHERE id = ?").all(range.channelId)) as ChannelRow[];
+
+  const perChannel: ChannelAnalytics[] = channels.map(channel => {
+    const series = days.map(day => {
+      const key = `${channel.id}:${day}`;
+      return { day, published: counts.published.get(key) ?? 0, failed: counts.failed.get(key) ?? 0, backlog: counts.backlog.get(key) ?? 0 };
+    });
+    const published = series.reduce((sum, point) => sum + point.published, 0);
+    const failed = series.reduce((sum, point) => sum + point.failed, 0);
+    return {
+      channel_id: channel.id,
+      name: channel.name,
+      published,
+      failed,
+      success_rate: successRate(published, failed),
+      mean_hours_to_publish: meanHoursToPublish(range, channel.id),
+      series,
+      runway: runwayFor(channel),
+    };
+  });
+
+  const totals = days.map((day, i) => ({
+    day,
+    published: perChannel.reduce((sum, channel) => sum + channel.series[i].published, 0),
+    failed: perChannel.reduce((sum, channel) => sum + channel.series[i].failed, 0),
+    backlog: perChannel.reduce((sum, channel) => sum + channel.series[i].backlog, 0),
+  }));
+  const published = perChannel.reduce((sum, channel) => sum + channel.published, 0);
+  const failed = perChannel.reduce((sum, channel) => sum + channel.failed, 0);
+
+  return {
+    from: range.from,
+    to: range.to,
+    summary: {
+      published,
+      failed,
+      success_rate: successRate(published, failed),
+      mean_hours_to_publish: meanHoursToPublish(range, range.channelId),
+    },
+    series: totals,
+    channels: perChannel,
+  };
+}
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { ApiError, errorHandler, parse, v } from "./api";
+import { authenticate, createUser, login, requireRole, SESSION_COOKIE } from "./auth";
+import { listNotifications, markRead, notify } from "./notifications";
+import { setupTestDb } from "./test-helpers";
+
+// A response that records what was sent.
+function stubResponse() {
+  const sent: { status?: number; body?: any } = {};
+  const res = {
+    headersSent: false,
+    status(code: number) {
+      sent.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return this;
+    },
+  };
+  return { sent, res: res as any };
+}
+
+// Runs the error handler against a stub response and returns what it sent.
+function handleError(err: unknown) {
+  const { sent, res } = stubResponse();
+  const originalError = console.error;
+  console.error = () => {};
+  try {
+    errorHandler(err, { method: "GET", originalUrl: "/api/test" } as any, res, () => {});
+  } finally {
+    console.error = originalError;
+  }
+  return sent;
+}
+
+// Runs a request through authenticate and requireRole; true if it got past both.
+function authorize(token: string, method: string, path: string, role: Parameters<typeof requireRole>[0]) {
+  const { sent, res } = stubResponse();
+  const req = { method, path, headers: { cookie: `${SESSION_COOKIE}=${encodeURIComponent(token)}` } } as any;
+  let passed = false;
+  authenticate(req, res, () => requireRole(role)(req, res, () => {
+    passed = true;
+  }));
+  return { passed, sent };
+}
+
+before(setupTestDb);
+
+const invalidField = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (e) {
+    assert.ok(e instanceof ApiError);
+    assert.equal(e.code, "invalid_input");
+    return e.details?.field;
+  }
+  assert.fail("expected invalid_input");
+};
+
+describe("request schemas", () => {
+  const schema = v.object({
+    name: v.string({ min: 1, max: 5 }),
+    count: v.withDefault(v.integer({ min: 0 }), 1),
+    tags: v.optional(v.array(v.string())),
+    mode: v.nullable(v.oneOf(["a", "b"] as const)),
+  });
+
+  it("returns typed, trimmed values and drops unknown keys", () => {
+    assert.deepEqual(parse(schema, { name: " ok ", count: "3", mode: null, extra: true }), { name: "ok", count: 3, tags: undefined, mode: null });
+  });
+
+  it("names the offending field", () => {
+    assert.equal(invalidField(() => parse(schema, { name: "", mode: "a" })), "name");
+    assert.equal(invalidField(() => parse(schema, { name: "toolong", mode: "a" })), "name");
+    assert.equal(invalidField(() => parse(schema, { name: "ok", count: 1.5, mode: "a" })), "count");
+    assert.equal(invalidField(() => parse(schema, { name: "ok", tags: ["x", 2], mode: "a" })), "tags[1]");
+    assert.equal(invalidField(() => parse(schema, { name: "ok", mode: "c" })), "mode");
+    assert.equal(invalidField(() => parse(schema, [])), null);
+  });
+
+  it("normalizes dates to UTC", () => {
+    assert.equal(parse(v.date(), "2026-03-01T10:00:00+02:00"), "2026-03-01T08:00:00.000Z");
+    assert.equal(invalidField(() => parse(v.date(), "tomorrow", "when")), "when");
+  });
+});
+
+describe("errorHandler", () => {
+  it("maps domain error codes to their HTTP status", () => {
+    const error = Object.assign(new Error("Daily publish limit reached"), { code: "daily_limit" });
+    assert.deepEqual(handleError(error), { status: 429, body: { error: "Daily publish limit reached", code: "daily_limit" } });
+  });
+
+  it("keeps the details of unexpected errors out of the response", () => {
+    const sent = handleError(Object.assign(new Error("SQLITE_ERROR: no such column: secret near /srv/app/platform.db"), { code: "SQLITE_ERROR" }));
+    assert.equal(sent.status, 500);
+    assert.deepEqual(sent.body, { error: "Something went wrong on the server", code: "internal_error" });
+  });
+});
+
+describe("viewer access", () => {
+  it("lets a viewer mark their notifications read but not make other changes", async () => {
+    const viewer = await createUser({ username: "viewer", password: "viewer-password", role: "viewer" });
+    const { token } = await login("viewer", "viewer-password");
+    notify({ kind: "empty_scan", severity: "info", title: "No new media" });
+
+    assert.equal(authorize(token, "POST", "/notifications/read", "viewer").passed, true);
+    markRead(viewer.id);
+    assert.equal(listNotifications(viewer.id).unread, 0);
+
+    const denied = authorize(token, "POST", "/scan", "editor");
+    assert.equal(denied.passed, false);
+    assert.deepEqual([denied.sent.status, denied.sent.body?.code], [403, "read_only"]);
+  });
+});
@@ -0,0 +1,154 @@
+import type { NextFunction, Request, Response } from "express";
+
+// Every API error response is { error, code, ...details }: `error` is a sentence
+// the UI can show as is, `code` is stable for clients to branch on.
+export class ApiError extends Error {
+  constructor(public status: number, public code: string, message: string, public details?: Record<string, unknown>) {
+    super(message);
+  }
+}
+
+// HTTP status for the codes domain errors (AuthError, PublishError, ScheduleError, ...) carry.
+const STATUS_BY_CODE: Record<string, number> = {
+  invalid_input: 400,
+  invalid_json: 400,
+  invalid_cursor: 400,
+  invalid_value: 400,
+  invalid_time: 400,
+  invalid_action: 400,
+  unknown_setting: 400,
+  comment_required: 400,
+  unauthenticated: 401,
+  invalid_credentials: 401,
+  forbidden: 403,
+  read_only: 403,
+  not_found: 404,
+  conflict: 409,
+  version_conflict: 409,
+  invalid_transition: 409,
+  setup_done: 409,
+  last_admin: 409,
+  not_pending: 409,
+  not_failed: 409,
+  not_reschedulable: 409,
+  not_required: 409,
+  not_approved: 409,
+  no_channel: 409,
+  channel_paused: 409,
+  channel_disconnected: 409,
+  channel_busy: 409,
+  has_queued_media: 409,
+  flagged_duplicate: 409,
+  not_flagged: 409,
+  not_needs_fix: 409,
+  derived_media: 409,
+  scan_in_progress: 409,
+  daily_limit: 429,
+  upstream_failed: 502,
+  not_configured: 503,
+};
+
+export const sendError = (res: Response, status: number, code: string, message: string, details?: Record<string, unknown>) =>
+  res.status(status).json({ error: message, code, ...details });
+
+// Last middleware on the app: anything a route throws (or passes to next) ends up here.
+export function errorHandler(err: any, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) return next(err);
+  if (err?.type === "entity.parse.failed") return sendError(res, 400, "invalid_json", "Request body is not valid JSON");
+
+  const code = typeof err?.code === "string" ? err.code : undefined;
+  const status = err instanceof ApiError ? err.status : code ? STATUS_BY_CODE[code] : undefined;
+  if (!status || !code) {
+    // Unexpected errors can carry SQL, file paths or upstream responses, so the details stay in the server log.
+    console.error(`${req.method} ${req.originalUrl} failed`, err);
+    return sendError(res, 500, "internal_error", "Something went wrong on the server");
+  }
+  const details = err.details && typeof err.details === "object" ? err.details : undefined;
+  sendError(res, status, code, err.message, details);
+}
+
+// Express 4 doesn't catch rejected promises, so async routes go through this.
+export const handle = (fn: (req: Request, res: Response) => Promise<unknown>) =>
+  (req: Request, res: Response, next: NextFunction) => fn(req, res).catch(next);
+
+export const notFound = (what: string) => new ApiError(404, "not_found", `${what} not found`);
+
+// Request schemas. A schema checks an unknown value and returns it typed (and
+// trimmed or converted where noted), or throws a 400 naming the offending field.
+export type Schema<T> = (value: unknown, path: string) => T;
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const invalid = (path: string, message: string): never => {
+  throw new ApiError(400, "invalid_input", `${path || "Request body"} ${message}`, { field: path || null });
+};
+
+const at = (path: string, key: string | number) => typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+// Query strings and route params arrive as strings, so numbers accept numeric strings too.
+const toNumber = (value: unknown) => typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+
+export const v = {
+  string: ({ min = 0, max = 10000, pattern, trim = true }: { min?: number; max?: number; pattern?: RegExp; trim?: boolean } = {}): Schema<string> =>
+    (value, path) => {
+      if (typeof value !== "string") return invalid(path, "must be text");
+      const text = trim ? value.trim() : value;
+      if (text.length < min) return invalid(path, min === 1 ? "can't be empty" : `must be at least ${min} characters`);
+      if (text.length > max) return invalid(path, `must be at most ${max} characters`);
+      if (pattern && !pattern.test(text)) return invalid(path, "is not in the expected format");
+      return text;
+    },
+
+  integer: ({ min, max }: { min?: number; max?: number } = {}): Schema<number> => (value, path) => {
+    const number = toNumber(value);
+    if (typeof number !== "number" || !Number.isInteger(number)) return invalid(path, "must be a whole number");
+    if (min !== undefined && number < min) return invalid(path, `must be at least ${min}`);
+    if (max !== undefined && number > max) return invalid(path, `must be at most ${max}`);
+    return number;
+  },
+
+  boolean: (): Schema<boolean> => (value, path) => typeof value === "boolean" ? value : invalid(path, "must be true or false"),
+
+  oneOf: <T extends string>(values: readonly T[]): Schema<T> =>
+    (value, path) => values.includes(value as T) ? value as T : invalid(path, `must be one of ${values.join(", ")}`),
+
+  // An ISO date string, returned normalized to UTC.
+  date: (): Schema<string> => (value, path) => {
+    const date = typeof value === "string" ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date.toISOString() : invalid(path, "must be a valid date");
+  },
+
+  array: <T>(item: Schema<T>, { min = 0, max = 1000 }: { min?: number; max?: number } = {}): Schema<T[]> => (value, path) => {
+    if (!Array.isArray(value)) return invalid(path, "must be a list");
+    if (value.length < min) return invalid(path, min === 1 ? "can't be empty" : `must have at least ${min} items`);
+    if (value.length > max) return invalid(path, `can have at most ${max} items`);
+    return value.map((entry, i) => item(entry, at(path, i)));
+  },
+
+  // Keys outside the shape are dropped, so clients can send back rows they were given.
+  object: <S extends Record<string, Schema<unknown>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> => (value, path) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return invalid(path, "must be an object");
+    return Object.fromEntries(
+      Object.entries(shape).map(([key, schema]) => [key, schema((value as Record<string, unknown>)[key], at(path, key))]),
+    ) as { [K in keyof S]: Infer<S[K]> };
+  },
+
+  // An object with arbitrary keys, for free-form maps like template fields.
+  record: <T>(item: Schema<T>): Schema<Record<string, T>> => (value, path) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return invalid(path, "must be an object");
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, item(entry, at(path, key))]));
+  },
+
+  optional: <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) => value === undefined ? undefined : schema(value, path),
+
+  nullable: <T>(schema: Schema<T>): Schema<T | null> => (value, path) => value === null ? null : schema(value, path),
+
+  withDefault: <T>(schema: Schema<T>, fallback: T): Schema<T> => (value, path) => value === undefined ? fallback : schema(value, path),
+};
+
+export const parse = <T>(schema: Schema<T>, value: unknown, path = "") => schema(value, path);
+
+// The query string with empty parameters dropped: `?channel_id=` means no filter.
+export const queryOf = (req: Request) => Object.fromEntries(Object.entries(req.query).filter(([, value]) => value !== ""));
+
+// Route ids, e.g. parse(idParam, req.params.id, "id").
+export const idParam = v.integer({ min: 1 });
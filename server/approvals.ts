@@ -0,0 +1,139 @@
+import { db } from "./db";
+import { emitMediaChange } from "./events";
+import { currentUser, mediaFields, writeLog } from "./logs";
+import type { ApprovalStatus, MediaRow } from "./types";
+
+export const APPROVAL_STATES: ApprovalStatus[] = ["Draft", "In Review", "Approved", "Changes Requested"];
+export const REVIEW_ACTIONS = ["submit", "approve", "request_changes", "comment"] as const;
+export type ReviewAction = typeof REVIEW_ACTIONS[number];
+
+export interface ApprovalEvent {
+  id: number;
+  media_id: number;
+  // A ReviewAction, or "reset" when an edit sent the post back to Draft.
+  action: string;
+  from_status: ApprovalStatus | null;
+  to_status: ApprovalStatus | null;
+  comment: string | null;
+  user_id: number | null;
+  username: string | null;
+  created_at: string;
+}
+
+export interface ReviewItem extends MediaRow {
+  channel_name: string;
+  last_comment: string | null;
+}
+
+export class ReviewError extends Error {
+  constructor(message: string, public code: "not_found" | "not_required" | "invalid_action" | "invalid_transition" | "comment_required") {
+    super(message);
+  }
+}
+
+const TRANSITIONS: Record<Exclude<ReviewAction, "comment">, { from: ApprovalStatus[]; to: ApprovalStatus; label: string }> = {
+  submit: { from: ["Draft", "Changes Requested"], to: "In Review", label: "Submitted for Review" },
+  approve: { from: ["In Review"], to: "Approved", label: "Approved" },
+  request_changes: { from: ["In Review", "Approved"], to: "Changes Requested", label: "Changes Requested" },
+};
+
+// Posts past these can't go through review any more.
+const CLOSED = "media.status IN ('Published', 'Uploading', 'Removed', 'Rejected', 'Deleted')";
+
+export const approvalOf = (media: MediaRow): ApprovalStatus => media.approval_status ?? "Draft";
+
+export function requiresApproval(channelId: number | null) {
+  const row = db.prepare("SELECT requires_approval FROM channels WHERE id = ?").get(channelId) as { requires_approval: number } | undefined;
+  return !!row?.requires_approval;
+}
+
+// True when the post may be published: its channel doesn't require approval, or it has been approved.
+export const isCleared = (media: MediaRow) => !requiresApproval(media.channel_id) || approvalOf(media) === "Approved";
+
+// As a WHERE clause over media, for the worker's due query.
+export const CLEARED = "(approval_status = 'Approved' OR NOT EXISTS (SELECT 1 FROM channels WHERE channels.id = media.channel_id AND channels.requires_approval = 1))";
+
+function record(media: MediaRow, action: string, from: ApprovalStatus | null, to: ApprovalStatus | null, comment: string | null) {
+  const user = currentUser();
+  db.prepare(`
+    INSERT INTO approval_events (media_id, action, from_status, to_status, comment, user_id, username)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(media.id, action, from, to, comment, user?.id ?? null, user?.username ?? null);
+}
+
+export function review(mediaId: number, action: ReviewAction, comment?: string) {
+  const media = db.prepare("SELECT * FROM media WHERE id = ?").get(mediaId) as MediaRow | undefined;
+  if (!media) throw new ReviewError("Media not found", "not_found");
+  if (!REVIEW_ACTIONS.includes(action)) throw new ReviewError(`action must be one of ${REVIEW_ACTIONS.join(", ")}`, "invalid_action");
+  if (!requiresApproval(media.channel_id)) throw new ReviewError("This channel doesn't require approval", "not_required");
+  const text = comment?.trim() || null;
+  const from = approvalOf(media);
+
+  if (action === "comment") {
+    if (!text) throw new ReviewError("comment can't be empty", "comment_required");
+    record(media, action, from, from, text);
+    writeLog(media.file_name, "Review Comment", "Info", null, { ...mediaFields(media), context: { comment: text } });
+    return { media, event: latestEvent(media.id) };
+  }
+
+  const transition = TRANSITIONS[action];
+  if (!transition.from.includes(from)) throw new ReviewError(`Can't ${action.replace("_", " ")} a post that is ${from}`, "invalid_transition");
+  if (action === "request_changes" && !text) throw new ReviewError("Say what needs to change", "comment_required");
+
+  db.transaction(() => {
+    db.prepare("UPDATE media SET approval_status = ? WHERE id = ?").run(transition.to, media.id);
+    record(media, action, from, transition.to, text);
+  })();
+  emitMediaChange(media.id);
+  writeLog(media.file_name, `Review: ${transition.label}`, action === "request_changes" ? "Failed" : "Success", text, {
+    ...mediaFields(media),
+    level: action === "request_changes" ? "warn" : "info",
+    context: { from, to: transition.to },
+  });
+  return { media: db.prepare("SELECT * FROM media WHERE id = ?").get(media.id) as MediaRow, event: latestEvent(media.id) };
+}
+
+// What was approved is what goes out: changing a post under review or already
+// approved sends it back to Draft.
+export function resetApproval(mediaId: number, reason: string) {
+  const media = db.prepare("SELECT * FROM media WHERE id = ?").get(mediaId) as MediaRow | undefined;
+  if (!media || !requiresApproval(media.channel_id)) return;
+  const from = approvalOf(media);
+  if (from !== "In Review" && from !== "Approved") return;
+
+  db.prepare("UPDATE media SET approval_status = 'Draft' WHERE id = ?").run(media.id);
+  record(media, "reset", from, "Draft", reason);
+  emitMediaChange(media.id);
+  writeLog(media.file_name, `Review: back to Draft (${reason})`, "Info", null, { ...mediaFields(media), context: { from } });
+}
+
+const latestEvent = (mediaId: number) =>
+  db.prepare("SELECT * FROM approval_events WHERE media_id = ? ORDER BY id DESC LIMIT 1").get(mediaId) as ApprovalEvent;
+
+export function reviewHistory(mediaId: number) {
+  return db.prepare("SELECT * FROM approval_events WHERE media_id = ? ORDER BY id").all(mediaId) as ApprovalEvent[];
+}
+
+// Open posts on channels that require approval, soonest scheduled first.
+export function reviewQueue(states: ApprovalStatus[], channelId: number | null) {
+  return db.prepare(`
+    SELECT media.*, channels.name as channel_name,
+      (SELECT comment FROM approval_events WHERE media_id = media.id AND comment IS NOT NULL ORDER BY id DESC LIMIT 1) as last_comment
+    FROM media JOIN channels ON channels.id = media.channel_id AND channels.requires_approval = 1
+    WHERE NOT (${CLOSED})
+      AND COALESCE(media.approval_status, 'Draft') IN (${states.map(() => "?").join(", ")})
+      AND (? IS NULL OR media.channel_id = ?)
+    ORDER BY media.scheduled_time IS NULL, datetime(media.scheduled_time), media.created_at
+  `).all(...states, channelId, channelId) as ReviewItem[];
+}
+
+export function reviewCounts() {
+  return Object.fromEntries(
+    (db.prepare(`
+      SELECT COALESCE(media.approval_status, 'Draft') as state, COUNT(*) as count
+      FROM media JOIN channels ON channels.id = media.channel_id AND channels.requires_approval = 1
+      WHERE NOT (${CLOSED})
+      GROUP BY state
+    `).all() as { state: ApprovalStatus; count: number }[]).map(row => [row.state, row.count]),
+  ) as Partial<Record<ApprovalStatus, number>>;
+}
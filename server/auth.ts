@@ -0,0 +1,188 @@
+import crypto from "crypto";
+import { promisify } from "util";
+import type { NextFunction, Request, Response } from "express";
+import { sendError } from "./api";
+import { db } from "./db";
+import { withUser } from "./logs";
+
+export const ROLES = ["viewer", "editor", "admin"] as const;
+export type Role = typeof ROLES[number];
+
+export interface UserRow {
+  id: number;
+  username: string;
+  display_name: string;
+  password_hash: string;
+  role: Role;
+  created_at: string;
+  last_login_at: string | null;
+}
+
+export type PublicUser = Omit<UserRow, "password_hash">;
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: PublicUser;
+    }
+  }
+}
+
+export const SESSION_COOKIE = "snapauto_session";
+export const MIN_PASSWORD_LENGTH = 8;
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+export class AuthError extends Error {
+  constructor(message: string, public code: "invalid_credentials" | "invalid_input" | "not_found" | "conflict" | "last_admin" | "setup_done") {
+    super(message);
+  }
+}
+
+export const sessionTtlHours = () => Number(process.env.SESSION_TTL_HOURS) || 168;
+
+export const toPublicUser = ({ password_hash, ...user }: UserRow): PublicUser => user;
+
+export async function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return ["scrypt", salt.toString("base64"), hash.toString("base64")].join(":");
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt") return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scrypt(password, Buffer.from(salt, "base64"), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Only a hash of the session token is stored, so a leaked database can't be used to log in.
+const tokenHash = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+export const userCount = () => (db.prepare("SELECT COUNT(*) as count FROM users").get() as { count: number }).count;
+
+export const findUser = (id: number) => db.prepare("SELECT * FROM users WHERE id = ?").get(id) as UserRow | undefined;
+
+export const listUsers = () => (db.prepare("SELECT * FROM users ORDER BY username").all() as UserRow[]).map(toPublicUser);
+
+function validateUser(fields: { username?: string; password?: string; role?: string }) {
+  if (fields.username !== undefined && !/^[a-z0-9._-]{3,32}$/i.test(fields.username)) {
+    throw new AuthError("username must be 3-32 letters, digits, dots, dashes or underscores", "invalid_input");
+  }
+  if (fields.password !== undefined && fields.password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`password must be at least ${MIN_PASSWORD_LENGTH} characters`, "invalid_input");
+  }
+  if (fields.role !== undefined && !ROLES.includes(fields.role as Role)) {
+    throw new AuthError(`role must be one of ${ROLES.join(", ")}`, "invalid_input");
+  }
+}
+
+export async function createUser({ username, password, display_name, role }: { username: string; password: string; display_name?: string; role: Role }) {
+  validateUser({ username, password, role });
+  if (db.prepare("SELECT 1 FROM users WHERE username = ? COLLATE NOCASE").get(username)) throw new AuthError("That username is taken", "conflict");
+  const info = db.prepare("INSERT INTO users (username, display_name, password_hash, role) VALUES (?, ?, ?, ?)")
+    .run(username, display_name?.trim() || username, await hashPassword(password), role);
+  return toPublicUser(findUser(Number(info.lastInsertRowid))!);
+}
+
+const adminCount = () => (db.prepare("SELECT COUNT(*) as count FROM users WHERE role = 'admin'").get() as { count: number }).count;
+
+export async function updateUser(id: number, { display_name, password, role }: { display_name?: string; password?: string; role?: Role }) {
+  const user = findUser(id);
+  if (!user) throw new AuthError("User not found", "not_found");
+  validateUser({ password, role });
+  if (role !== undefined && role !== "admin" && user.role === "admin" && adminCount() === 1) throw new AuthError("There must be at least one admin", "last_admin");
+
+  if (display_name !== undefined) db.prepare("UPDATE users SET display_name = ? WHERE id = ?").run(display_name.trim() || user.username, id);
+  if (role !== undefined) db.prepare("UPDATE users SET role = ? WHERE id = ?").run(role, id);
+  if (password !== undefined) {
+    db.prepare("UPDATE users SET password_hash = ? WHERE id = ?").run(await hashPassword(password), id);
+    // A new password signs the user out everywhere.
+    db.prepare("DELETE FROM sessions WHERE user_id = ?").run(id);
+    db.prepare("DELETE FROM notification_reads WHERE user_id = ?").run(id);
+  }
+  return toPublicUser(findUser(id)!);
+}
+
+export function deleteUser(id: number) {
+  const user = findUser(id);
+  if (!user) throw new AuthError("User not found", "not_found");
+  if (user.role === "admin" && adminCount() === 1) throw new AuthError("There must be at least one admin", "last_admin");
+  db.transaction(() => {
+    db.prepare("DELETE FROM sessions WHERE user_id = ?").run(id);
+    db.prepare("DELETE FROM notification_reads WHERE user_id = ?").run(id);
+    db.prepare("DELETE FROM users WHERE id = ?").run(id);
+  })();
+}
+
+export async function login(username: string, password: string) {
+  const user = db.prepare("SELECT * FROM users WHERE username = ? COLLATE NOCASE").get(username) as UserRow | undefined;
+  // Hash anyway for unknown users so response time doesn't reveal which usernames exist.
+  const valid = await verifyPassword(password, user?.password_hash ?? `scrypt:${crypto.randomBytes(16).toString("base64")}:${crypto.randomBytes(KEY_LENGTH).toString("base64")}`);
+  if (!user || !valid) throw new AuthError("Invalid username or password", "invalid_credentials");
+
+  db.prepare("DELETE FROM sessions WHERE datetime(expires_at) <= datetime('now')").run();
+  const token = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + sessionTtlHours() * 60 * 60 * 1000);
+  db.prepare("INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)").run(tokenHash(token), user.id, expiresAt.toISOString());
+  db.prepare("UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?").run(user.id);
+  return { token, expiresAt, user: toPublicUser(findUser(user.id)!) };
+}
+
+export function logout(token: string) {
+  db.prepare("DELETE FROM sessions WHERE token_hash = ?").run(tokenHash(token));
+}
+
+function sessionUser(token: string) {
+  const user = db.prepare(`
+    SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+    WHERE sessions.token_hash = ? AND datetime(sessions.expires_at) > datetime('now')
+  `).get(tokenHash(token)) as UserRow | undefined;
+  return user ? toPublicUser(user) : undefined;
+}
+
+export function sessionToken(req: Request) {
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+export function setSessionCookie(req: Request, res: Response, token: string, expiresAt: Date) {
+  res.cookie(SESSION_COOKIE, token, { httpOnly: true, sameSite: "lax", secure: req.secure, expires: expiresAt, path: "/" });
+}
+
+// Paths under /api that work without a session: signing in and first-run setup.
+const PUBLIC_PATHS = ["/auth/login", "/auth/setup", "/auth/me"];
+// Writes a read-only account may still make, to its own session, password and notification read state.
+const SELF_SERVICE_PATHS = ["/auth/logout", "/auth/password", "/notifications/read"];
+
+// Resolves the session cookie to req.user for every /api request. Everything
+// but the public paths needs a session, and viewers can only read.
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  const token = sessionToken(req);
+  const user = token ? sessionUser(token) : undefined;
+  if (user) req.user = user;
+
+  if (!user) {
+    if (PUBLIC_PATHS.includes(req.path)) return next();
+    return sendError(res, 401, "unauthenticated", "Sign in required");
+  }
+  if (user.role === "viewer" && req.method !== "GET" && req.method !== "HEAD" && !SELF_SERVICE_PATHS.includes(req.path)) {
+    return sendError(res, 403, "read_only", "Your account is read-only");
+  }
+  withUser(user, next);
+}
+
+const rank = (role: Role) => ROLES.indexOf(role);
+
+export function requireRole(role: Role) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return sendError(res, 401, "unauthenticated", "Sign in required");
+    if (rank(req.user.role) < rank(role)) return sendError(res, 403, "forbidden", `Requires the ${role} role`);
+    next();
+  };
+}
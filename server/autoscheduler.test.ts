@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { autoSchedule } from "./autoscheduler";
+import { db } from "./db";
+import { updateMedia } from "./media";
+import { addChannel, addMedia, findMedia, setupTestDb } from "./test-helpers";
+
+// A channel posting once a day at noon UTC, with three posts laid out on consecutive days.
+function dailyQueue() {
+  const channel = addChannel({ daily_limit: 1, timezone: "UTC" });
+  db.prepare("INSERT INTO posting_windows (channel_id, days, start_time, end_time, slots, min_spacing_minutes) VALUES (?, '0,1,2,3,4,5,6', '12:00', '12:00', 1, 60)")
+    .run(channel.id);
+  const posts = [0, 1, 2].map(() => addMedia({ channel_id: channel.id, scheduled_time: null }));
+  autoSchedule(channel, { silent: true });
+  return { channel, posts: posts.map(post => findMedia(post.id)) };
+}
+
+before(setupTestDb);
+
+describe("queue reflow", () => {
+  it("pulls the queue forward when a post is deleted", () => {
+    const { posts: [first, second, third] } = dailyQueue();
+    assert.ok(first.scheduled_time && second.scheduled_time && third.scheduled_time);
+
+    updateMedia(first.id, { status: "Deleted" });
+
+    assert.equal(findMedia(second.id).scheduled_time, first.scheduled_time);
+    assert.equal(findMedia(third.id).scheduled_time, second.scheduled_time);
+  });
+
+  it("pulls the queue forward when a post moves to another channel", () => {
+    const { posts: [first, second] } = dailyQueue();
+    const other = addChannel();
+
+    updateMedia(first.id, { channel_id: other.id });
+
+    assert.equal(findMedia(second.id).scheduled_time, first.scheduled_time);
+  });
+
+  it("leaves the queue alone for edits that keep the post queued", () => {
+    const { posts: [first, second] } = dailyQueue();
+
+    updateMedia(first.id, { caption: "New caption" });
+
+    assert.equal(findMedia(first.id).scheduled_time, first.scheduled_time);
+    assert.equal(findMedia(second.id).scheduled_time, second.scheduled_time);
+  });
+});
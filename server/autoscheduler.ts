@@ -0,0 +1,210 @@
+import { db } from "./db";
+import { emitMediaChange } from "./events";
+import { writeLog } from "./logs";
+import { BOOKED, BOOKED_STATUSES } from "./schedule";
+import type { ChannelRow, MediaRow } from "./types";
+
+export interface PostingWindow {
+  id: number;
+  channel_id: number;
+  // Comma-separated weekdays, 0 = Sunday.
+  days: string;
+  // "HH:MM" wall-clock times in the channel's timezone.
+  start_time: string;
+  end_time: string;
+  slots: number;
+  min_spacing_minutes: number;
+}
+
+export interface AutoScheduleResult {
+  channel_id: number;
+  scheduled: { id: number; file_name: string; scheduled_time: string }[];
+  // Pending posts still without a slot once the horizon ran out.
+  unscheduled: number;
+}
+
+export interface AutoScheduleOptions {
+  // Only schedule these media ids (they must still be unscheduled).
+  ids?: number[];
+  // Also pull back every future auto-scheduled post and lay the whole queue out again.
+  reflow?: boolean;
+  // Skip the summary log, for callers that write their own.
+  silent?: boolean;
+}
+
+// How far ahead we look for free slots.
+export const HORIZON_DAYS = 60;
+
+export const parseDays = (days: string) => days.split(",").filter(Boolean).map(Number);
+export const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export function windowsFor(channelId: number) {
+  return db.prepare("SELECT * FROM posting_windows WHERE channel_id = ? ORDER BY start_time, id").all(channelId) as PostingWindow[];
+}
+
+// Wall-clock reading of `date` in `timeZone`.
+function zonedParts(date: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone, hourCycle: "h23", year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit",
+    }).formatToParts(date).map(part => [part.type, part.value]),
+  );
+  return { year: +parts.year, month: +parts.month, day: +parts.day, hour: +parts.hour, minute: +parts.minute, second: +parts.second };
+}
+
+// The instant the clock in `timeZone` shows `minutes` past midnight on the given
+// date. The second pass corrects for a DST change between the guess and the answer.
+function zonedTime(year: number, month: number, day: number, minutes: number, timeZone: string) {
+  const wall = Date.UTC(year, month - 1, day, 0, minutes);
+  let guess = wall;
+  for (let i = 0; i < 2; i++) {
+    const shown = zonedParts(new Date(guess), timeZone);
+    guess += wall - Date.UTC(shown.year, shown.month - 1, shown.day, shown.hour, shown.minute, shown.second);
+  }
+  return new Date(guess);
+}
+
+// Slots spread evenly across the window, first and last on its edges.
+function slotMinutes(window: PostingWindow) {
+  const start = minutesOf(window.start_time);
+  const end = minutesOf(window.end_time);
+  if (window.slots <= 1) return [start];
+  const step = (end - start) / (window.slots - 1);
+  return Array.from({ length: window.slots }, (_, i) => Math.round(start + i * step));
+}
+
+function* upcomingSlots(channel: ChannelRow, windows: PostingWindow[], from: Date) {
+  const timeZone = channel.timezone || "UTC";
+  const today = zonedParts(from, timeZone);
+  for (let offset = 0; offset < HORIZON_DAYS; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    const slots: { time: Date; spacingMs: number }[] = [];
+    for (const window of windows) {
+      if (!parseDays(window.days).includes(date.getUTCDay())) continue;
+      for (const minutes of slotMinutes(window)) {
+        slots.push({ time: zonedTime(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), minutes, timeZone), spacingMs: window.min_spacing_minutes * 60 * 1000 });
+      }
+    }
+    slots.sort((a, b) => a.time.getTime() - b.time.getTime());
+    yield* slots.filter(slot => slot.time > from);
+  }
+}
+
+// Highest priority first. Within a priority, oldest first or shuffled.
+function orderQueue(media: MediaRow[], order: ChannelRow["schedule_order"]) {
+  const queue = [...media];
+  if (order === "shuffle") {
+    for (let i = queue.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [queue[i], queue[j]] = [queue[j], queue[i]];
+    }
+  }
+  return queue.sort((a, b) => b.priority - a.priority);
+}
+
+// Pairs queued posts with free slots, in order. A slot is free when the day is
+// under the channel's daily limit (counted per UTC day, as the worker does) and
+// nothing else on the channel is booked within the window's spacing.
+function assignSlots(channel: ChannelRow, queue: MediaRow[]) {
+  const windows = windowsFor(channel.id);
+  const booked = (db.prepare(`
+    SELECT strftime('%s', scheduled_time) * 1000 as time FROM media
+    WHERE channel_id = ? AND ${BOOKED} AND scheduled_time IS NOT NULL AND datetime(scheduled_time) >= datetime('now', '-1 day')
+  `).all(channel.id) as { time: number }[]).map(row => row.time);
+
+  const perDay = new Map<string, number>();
+  const countDay = (day: string) => perDay.set(day, (perDay.get(day) || 0) + 1);
+  booked.forEach(time => countDay(new Date(time).toISOString().slice(0, 10)));
+  (db.prepare("SELECT date(published_at) as day FROM media WHERE channel_id = ? AND status = 'Published' AND date(published_at) >= date('now')").all(channel.id) as { day: string }[])
+    .forEach(row => countDay(row.day));
+
+  const assignments: { media: MediaRow; time: Date }[] = [];
+  let next = 0;
+  for (const slot of upcomingSlots(channel, windows, new Date())) {
+    if (next >= queue.length) break;
+    const day = slot.time.toISOString().slice(0, 10);
+    if ((perDay.get(day) || 0) >= channel.daily_limit) continue;
+    if (booked.some(time => Math.abs(time - slot.time.getTime()) < slot.spacingMs)) continue;
+
+    assignments.push({ media: queue[next++], time: slot.time });
+    booked.push(slot.time.getTime());
+    countDay(day);
+  }
+  return assignments;
+}
+
+// Gives unscheduled Pending posts the channel's next free slots. Posts scheduled
+// by hand are left where they are and their times count as taken.
+export function autoSchedule(channel: ChannelRow, { ids, reflow = false, silent = false }: AutoScheduleOptions = {}): AutoScheduleResult {
+  if (windowsFor(channel.id).length === 0) throw new Error(`${channel.name} has no posting windows`);
+
+  const queued = reflow
+    ? db.prepare(`
+        SELECT * FROM media WHERE channel_id = ? AND status = 'Pending' AND auto_scheduled = 1
+          AND scheduled_time IS NOT NULL AND datetime(scheduled_time) > datetime('now')
+        ORDER BY datetime(scheduled_time)
+      `).all(channel.id) as MediaRow[]
+    : [];
+  const unscheduled = (db.prepare("SELECT * FROM media WHERE channel_id = ? AND status = 'Pending' AND scheduled_time IS NULL ORDER BY created_at, id").all(channel.id) as MediaRow[])
+    .filter(media => !ids || ids.includes(media.id));
+  // The sort is stable, so reflowed posts keep their order within a priority.
+  const queue = [...queued, ...orderQueue(unscheduled, channel.schedule_order)].sort((a, b) => b.priority - a.priority);
+
+  const result: AutoScheduleResult = { channel_id: channel.id, scheduled: [], unscheduled: 0 };
+  db.transaction(() => {
+    for (const media of queued) db.prepare("UPDATE media SET scheduled_time = NULL WHERE id = ?").run(media.id);
+    for (const { media, time } of assignSlots(channel, queue)) {
+      db.prepare("UPDATE media SET scheduled_time = ?, auto_scheduled = 1 WHERE id = ?").run(time.toISOString(), media.id);
+      result.scheduled.push({ id: media.id, file_name: media.file_name, scheduled_time: time.toISOString() });
+    }
+  })();
+  result.unscheduled = queue.length - result.scheduled.length;
+  emitMediaChange(...queue.map(media => media.id));
+
+  if (!silent) {
+    writeLog(channel.name, `${reflow ? "Queue Reflow" : "Auto Schedule"}: ${result.scheduled.length} scheduled, ${result.unscheduled} without a slot`, result.unscheduled > 0 ? "Info" : "Success", null, {
+      channel_id: channel.id,
+      level: result.unscheduled > 0 ? "warn" : "info",
+      context: { scheduled: result.scheduled.map(item => item.id), unscheduled: result.unscheduled },
+    });
+  }
+  return result;
+}
+
+// Runs autoSchedule for one channel or every channel with posting windows,
+// collecting per-channel errors the way scanChannels does.
+export function autoScheduleChannels(channelId: number | undefined, options: AutoScheduleOptions = {}) {
+  const channels = (channelId === undefined
+    ? db.prepare("SELECT * FROM channels WHERE id IN (SELECT channel_id FROM posting_windows)").all()
+    : db.prepare("SELECT * FROM channels WHERE id = ?").all(channelId)) as ChannelRow[];
+
+  const results: AutoScheduleResult[] = [];
+  const errors: { channel_id: number; error: string }[] = [];
+  for (const channel of channels) {
+    try {
+      results.push(autoSchedule(channel, options));
+    } catch (e: any) {
+      errors.push({ channel_id: channel.id, error: e?.message || String(e) });
+    }
+  }
+  return { results, errors };
+}
+
+// Closes the gaps left when posts drop out of the queue. A no-op for channels
+// that don't use posting windows.
+export function reflowQueue(channel: ChannelRow, silent = false) {
+  if (windowsFor(channel.id).length === 0) return null;
+  return autoSchedule(channel, { reflow: true, silent });
+}
+
+// For single-post writes: reflows the channel the post was queued on if the
+// write took it out of that queue (deleted, removed, moved to another channel, ...).
+export function reflowIfLeftQueue(before: Pick<MediaRow, "status" | "channel_id">, after: Pick<MediaRow, "status" | "channel_id">) {
+  if (before.channel_id === null || !BOOKED_STATUSES.includes(before.status)) return;
+  if (after.channel_id === before.channel_id && BOOKED_STATUSES.includes(after.status)) return;
+  const channel = db.prepare("SELECT * FROM channels WHERE id = ?").get(before.channel_id) as ChannelRow | undefined;
+  if (channel) reflowQueue(channel, true);
+}
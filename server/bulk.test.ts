@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { runBulk } from "./bulk";
+import { db } from "./db";
+import { addChannel, addMedia, findMedia, setupTestDb } from "./test-helpers";
+
+before(setupTestDb);
+
+describe("runBulk", () => {
+  it("acts on a post listed twice only once", () => {
+    const channel = addChannel();
+    const failed = addMedia({ channel_id: channel.id, status: "Failed", attempts: 2 });
+    const other = addMedia({ channel_id: channel.id, status: "Dead Letter", attempts: 3 });
+
+    const result = runBulk("retry", [failed.id, other.id, failed.id]);
+
+    assert.equal(result.succeeded, 2);
+    assert.deepEqual(result.results.map(item => item.id), [failed.id, other.id]);
+    assert.equal(findMedia(failed.id).status, "Pending");
+    const log = db.prepare("SELECT action FROM logs WHERE action LIKE 'Bulk retry%' ORDER BY id DESC").pluck().get();
+    assert.equal(log, "Bulk retry: 2 succeeded, 0 skipped");
+  });
+
+  it("skips what the action doesn't apply to and carries on", () => {
+    const channel = addChannel();
+    const pending = addMedia({ channel_id: channel.id });
+    const failed = addMedia({ channel_id: channel.id, status: "Failed" });
+
+    const result = runBulk("retry", [pending.id, failed.id, 999999]);
+
+    assert.deepEqual(result.results, [
+      { id: pending.id, ok: false, error: "Media is Pending" },
+      { id: failed.id, ok: true },
+      { id: 999999, ok: false, error: "Media not found" },
+    ]);
+    assert.equal(result.failed, 2);
+  });
+});
@@ -0,0 +1,210 @@
+import { isCleared, resetApproval } from "./approvals";
+import { autoSchedule, HORIZON_DAYS, reflowQueue, windowsFor } from "./autoscheduler";
+import { db } from "./db";
+import { emitMediaChange } from "./events";
+import { writeLog } from "./logs";
+import { checkSlot, RESCHEDULABLE } from "./schedule";
+import { findTemplate, renderForMedia } from "./templates";
+import type { ChannelRow, MediaRow, MediaStatus } from "./types";
+import { remainingCapacity } from "./worker";
+
+export const BULK_ACTIONS = ["schedule", "publish", "caption", "reassign-channel", "retry", "delete"] as const;
+export type BulkAction = typeof BULK_ACTIONS[number];
+
+export interface BulkParams {
+  // schedule: either a start time (optionally staggered) or auto for posting-window slots.
+  scheduled_time?: string;
+  interval_minutes?: number;
+  auto?: boolean;
+  // caption: literal text or a template rendered per post.
+  caption?: string;
+  template_id?: number;
+  // reassign-channel
+  channel_id?: number;
+}
+
+export interface BulkItemResult {
+  id: number;
+  ok: boolean;
+  error?: string;
+  note?: string;
+}
+
+export interface BulkResult {
+  action: BulkAction;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+const MAX_BULK_IDS = 500;
+
+// Request-level problems: nothing was attempted.
+export class BulkError extends Error {
+  code = "invalid_input" as const;
+}
+
+// One item can't take the action; the rest of the batch carries on.
+class SkipItem extends Error {}
+
+// Posts that are live or on their way out can't be edited.
+const LOCKED: MediaStatus[] = ["Uploading", "Published", "Deleted"];
+
+const findMedia = (id: number) => db.prepare("SELECT * FROM media WHERE id = ?").get(id) as MediaRow | undefined;
+const findChannel = (id: number | null) => db.prepare("SELECT * FROM channels WHERE id = ?").get(id) as ChannelRow | undefined;
+
+function requireStatus(media: MediaRow, allowed: MediaStatus[]) {
+  if (!allowed.includes(media.status)) throw new SkipItem(`Media is ${media.status}`);
+}
+
+function requireUnlocked(media: MediaRow) {
+  if (LOCKED.includes(media.status)) throw new SkipItem(`Media is ${media.status}`);
+}
+
+function validate(action: unknown, ids: unknown, params: BulkParams) {
+  if (!BULK_ACTIONS.includes(action as BulkAction)) throw new BulkError(`action must be one of ${BULK_ACTIONS.join(", ")}`);
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => !Number.isInteger(id))) throw new BulkError("ids must be a non-empty array of media ids");
+  if (ids.length > MAX_BULK_IDS) throw new BulkError(`At most ${MAX_BULK_IDS} media at a time`);
+
+  switch (action as BulkAction) {
+    case "schedule":
+      if (!params.auto && isNaN(new Date(params.scheduled_time as string).getTime())) throw new BulkError("schedule needs scheduled_time or auto");
+      if (params.interval_minutes !== undefined && !(Number(params.interval_minutes) >= 0)) throw new BulkError("interval_minutes can't be negative");
+      break;
+    case "caption":
+      if (typeof params.caption !== "string" && !params.template_id) throw new BulkError("caption needs caption or template_id");
+      if (params.template_id && !findTemplate(Number(params.template_id))) throw new BulkError("Template not found");
+      break;
+    case "reassign-channel":
+      if (!findChannel(Number(params.channel_id))) throw new BulkError("Channel not found");
+      break;
+  }
+}
+
+// Applies one action to many media inside a single transaction. Items the
+// action doesn't apply to are skipped and reported; anything unexpected rolls
+// the whole batch back. Writes one summary log entry for the batch.
+export function runBulk(action: BulkAction, ids: number[], params: BulkParams = {}): BulkResult {
+  validate(action, ids, params);
+  // A post listed twice is acted on, and counted, once.
+  ids = [...new Set(ids)];
+
+  const results = new Map<number, BulkItemResult>();
+  // Channels whose auto-scheduled queue has gaps to close afterwards.
+  const reflow = new Set<number>();
+  // schedule with auto: media ids waiting for a slot, per channel.
+  const autoQueue = new Map<number, number[]>();
+  // publish: how many more posts each channel can still take today.
+  const capacity = new Map<number, number>();
+  const startTime = new Date(params.scheduled_time as string);
+  const template = params.template_id ? findTemplate(Number(params.template_id)) : undefined;
+  let position = 0;
+
+  const handlers: Record<BulkAction, (media: MediaRow) => string | void> = {
+    schedule: (media) => {
+      requireStatus(media, RESCHEDULABLE);
+      const channel = findChannel(media.channel_id);
+      if (!channel) throw new SkipItem("Media is not assigned to a channel");
+
+      if (params.auto) {
+        if (windowsFor(channel.id).length === 0) throw new SkipItem(`${channel.name} has no posting windows`);
+        db.prepare("UPDATE media SET scheduled_time = NULL WHERE id = ?").run(media.id);
+        autoQueue.set(channel.id, [...(autoQueue.get(channel.id) || []), media.id]);
+        return;
+      }
+
+      const time = new Date(startTime.getTime() + position++ * (Number(params.interval_minutes) || 0) * 60 * 1000);
+      const check = checkSlot(media, channel, time);
+      db.prepare("UPDATE media SET scheduled_time = ?, auto_scheduled = 0 WHERE id = ?").run(time.toISOString(), media.id);
+      if (check.over_limit) return `Over ${channel.name}'s daily limit on that day`;
+      if (check.conflicts.length > 0) return `Close to ${check.conflicts.length} other post(s)`;
+    },
+
+    publish: (media) => {
+      requireStatus(media, ["Pending"]);
+      if (media.channel_id === null) throw new SkipItem("Media is not assigned to a channel");
+      if (!isCleared(media)) throw new SkipItem("Needs approval first");
+      if (!capacity.has(media.channel_id)) capacity.set(media.channel_id, remainingCapacity(media.channel_id));
+      const left = capacity.get(media.channel_id)!;
+      capacity.set(media.channel_id, left - 1);
+
+      // Hand the post to the worker by making it due now, so it goes through the usual claim and retry path.
+      db.prepare("UPDATE media SET scheduled_time = ?, auto_scheduled = 0 WHERE id = ?").run(new Date().toISOString(), media.id);
+      if (left <= 0) return "Queued, but the channel has no capacity left today";
+      if (findChannel(media.channel_id)?.paused) return "Queued, but publishing is paused for this channel";
+    },
+
+    caption: (media) => {
+      requireUnlocked(media);
+      const caption = template ? renderForMedia(template, media, true).text : params.caption!;
+      db.prepare("UPDATE media SET caption = ? WHERE id = ?").run(caption, media.id);
+      if (caption !== media.caption) resetApproval(media.id, "caption changed");
+    },
+
+    "reassign-channel": (media) => {
+      requireUnlocked(media);
+      if (media.parent_id !== null) throw new SkipItem("Processed versions move with their original");
+      const channelId = Number(params.channel_id);
+      if (media.channel_id === channelId) return "Already on this channel";
+
+      // An auto-picked slot belonged to the old channel's windows.
+      if (media.auto_scheduled && media.scheduled_time) {
+        db.prepare("UPDATE media SET scheduled_time = NULL, auto_scheduled = 0 WHERE id = ?").run(media.id);
+        if (media.channel_id !== null) reflow.add(media.channel_id);
+      }
+      db.prepare("UPDATE media SET channel_id = ? WHERE id = ? OR parent_id = ?").run(channelId, media.id, media.id);
+    },
+
+    retry: (media) => {
+      requireStatus(media, ["Failed", "Dead Letter"]);
+      db.prepare("UPDATE media SET status = 'Pending', attempts = 0, next_attempt_at = NULL, scheduled_time = datetime('now') WHERE id = ?").run(media.id);
+    },
+
+    // Soft delete: a removed row would be ingested again by the next scan while
+    // the file is still in the source folder. Deleted rows are skipped instead.
+    delete: (media) => {
+      requireUnlocked(media);
+      db.prepare("UPDATE media SET status = 'Deleted' WHERE (id = ? OR parent_id = ?) AND status NOT IN ('Uploading', 'Published')").run(media.id, media.id);
+      if (media.auto_scheduled && media.channel_id !== null) reflow.add(media.channel_id);
+    },
+  };
+
+  db.transaction(() => {
+    for (const id of ids) {
+      const media = findMedia(id);
+      if (!media) {
+        results.set(id, { id, ok: false, error: "Media not found" });
+        continue;
+      }
+      try {
+        const note = handlers[action](media);
+        results.set(id, note ? { id, ok: true, note } : { id, ok: true });
+      } catch (e) {
+        if (!(e instanceof SkipItem)) throw e;
+        results.set(id, { id, ok: false, error: e.message });
+      }
+    }
+
+    for (const [channelId, queued] of autoQueue) {
+      const placed = new Set(autoSchedule(findChannel(channelId)!, { ids: queued, silent: true }).scheduled.map(item => item.id));
+      for (const id of queued) {
+        if (!placed.has(id)) results.set(id, { id, ok: true, note: `No free slot in the next ${HORIZON_DAYS} days, left unscheduled` });
+      }
+    }
+
+    for (const channelId of reflow) {
+      const channel = findChannel(channelId);
+      if (channel) reflowQueue(channel, true);
+    }
+  })();
+
+  const list = ids.map(id => results.get(id)!);
+  emitMediaChange(...list.filter(item => item.ok).map(item => item.id));
+  const succeeded = list.filter(item => item.ok).length;
+  const failed = list.length - succeeded;
+  writeLog(`${ids.length} media`, `Bulk ${action}: ${succeeded} succeeded, ${failed} skipped`, failed === 0 ? "Success" : "Info", failed > 0 ? list.find(item => !item.ok)!.error! : null, {
+    level: failed > 0 ? "warn" : "info",
+    context: { action, params, results: list },
+  });
+  return { action, succeeded, failed, results: list };
+}
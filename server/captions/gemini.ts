@@ -0,0 +1,41 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { MAX_CAPTION_LENGTH, type CaptionInput, type CaptionProvider } from "./types";
+
+function buildPrompt(input: CaptionInput) {
+  const lines = [
+    `Write ${input.count} distinct Snapchat captions for a ${input.type} post.`,
+    `Each caption must be under ${MAX_CAPTION_LENGTH} characters. Don't wrap them in quotes.`,
+    `File name: ${input.fileName}`,
+  ];
+  if (input.durationSeconds !== null) lines.push(`Duration: ${input.durationSeconds.toFixed(0)} seconds`);
+  if (input.aspectRatio) lines.push(`Aspect ratio: ${input.aspectRatio}`);
+  if (input.channelName) lines.push(`Channel: ${input.channelName}`);
+  if (input.tonePrompt) lines.push(`Tone and brand guidance: ${input.tonePrompt}`);
+  if (input.currentCaption) lines.push(`The current caption is "${input.currentCaption}"; offer alternatives to it.`);
+  return lines.join("\n");
+}
+
+export function createGeminiCaptionProvider(apiKey: string, model = "gemini-2.5-flash"): CaptionProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    kind: "gemini",
+
+    async suggest(input) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildPrompt(input),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+      });
+      const captions: unknown = JSON.parse(response.text || "[]");
+      if (!Array.isArray(captions)) throw new Error("Gemini returned an unexpected caption format");
+      return captions
+        .filter((caption): caption is string => typeof caption === "string" && caption.trim().length > 0)
+        .map(caption => caption.trim().slice(0, MAX_CAPTION_LENGTH))
+        .slice(0, input.count);
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { db } from "../db";
+import type { ChannelRow, MediaRow } from "../types";
+import { createGeminiCaptionProvider } from "./gemini";
+import { createStubCaptionProvider } from "./stub";
+import type { CaptionProvider } from "./types";
+
+export type { CaptionInput, CaptionProvider } from "./types";
+
+// CAPTION_PROVIDER=stub forces the deterministic stub; it is also used when no Gemini key is set.
+export function createCaptionProviderFromEnv(env: NodeJS.ProcessEnv = process.env): CaptionProvider {
+  if (env.CAPTION_PROVIDER === "stub" || !env.GEMINI_API_KEY) return createStubCaptionProvider();
+  return createGeminiCaptionProvider(env.GEMINI_API_KEY, env.GEMINI_CAPTION_MODEL || undefined);
+}
+
+export async function suggestCaptions(provider: CaptionProvider, media: MediaRow, count = 3) {
+  const channel = db.prepare("SELECT * FROM channels WHERE id = ?").get(media.channel_id) as ChannelRow | undefined;
+  return provider.suggest({
+    fileName: media.file_name,
+    type: media.type,
+    durationSeconds: media.duration,
+    aspectRatio: media.aspect_ratio,
+    channelName: channel?.name || null,
+    tonePrompt: channel?.caption_prompt || null,
+    currentCaption: media.caption,
+    count,
+  });
+}
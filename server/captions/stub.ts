@@ -0,0 +1,35 @@
+import type { CaptionInput, CaptionProvider } from "./types";
+
+const OPENERS = ["New drop:", "Don't miss this:", "Fresh from the studio:", "Just landed:", "Watch till the end:"];
+const CLOSERS = ["Tap to see more 👀", "Send this to a friend", "More coming soon", "Which part was your favourite?", "Stay tuned ✨"];
+
+// Turns "behind_the_scenes-02.mp4" into "Behind the scenes 02".
+const describe = (fileName: string) => {
+  const words = fileName.replace(/\.[^.]+$/, "").replace(/[_\-.]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const hash = (value: string) => {
+  let h = 0;
+  for (let i = 0; i < value.length; i++) h = (h * 31 + value.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+// Deterministic captions for tests and offline development: the same input
+// always produces the same suggestions.
+export function createStubCaptionProvider(): CaptionProvider {
+  return {
+    kind: "stub",
+
+    async suggest(input) {
+      const subject = describe(input.fileName);
+      const seed = hash(`${input.fileName}|${input.channelName}|${input.tonePrompt}|${input.currentCaption}`);
+      return Array.from({ length: input.count }, (_, i) => {
+        const opener = OPENERS[(seed + i) % OPENERS.length];
+        const closer = CLOSERS[(seed + i * 2) % CLOSERS.length];
+        const channel = input.channelName ? ` on ${input.channelName}` : "";
+        return `${opener} ${subject}${channel}. ${closer}`;
+      });
+    },
+  };
+}
@@ -0,0 +1,19 @@
+export interface CaptionInput {
+  fileName: string;
+  type: string;
+  durationSeconds: number | null;
+  aspectRatio: string | null;
+  channelName: string | null;
+  // Per-channel guidance on tone and brand voice.
+  tonePrompt: string | null;
+  currentCaption: string | null;
+  count: number;
+}
+
+export interface CaptionProvider {
+  kind: string;
+  suggest(input: CaptionInput): Promise<string[]>;
+}
+
+// Snapchat truncates long captions; keep suggestions well under the limit.
+export const MAX_CAPTION_LENGTH = 160;
@@ -0,0 +1,71 @@
+import fs from "fs";
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import os from "os";
+import path from "path";
+import { deleteChannel, updateChannel } from "./channels";
+import { fetchMediaFile } from "./sources";
+import { addChannel, addMedia, findMedia, setupTestDb } from "./test-helpers";
+import { createPublishWorker } from "./worker";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "channels-test-"));
+const folderSource = (folder: string) => `local:${path.join(root, folder)}`;
+
+before(() => {
+  process.env.MEDIA_SOURCE = "local";
+  process.env.LOCAL_MEDIA_DIR = root;
+  setupTestDb();
+});
+after(() => fs.rmSync(root, { recursive: true }));
+
+describe("channel folder", () => {
+  it("takes the old folder's queued posts out of the queue when the folder changes", () => {
+    const channel = addChannel({ drive_folder_id: "old" });
+    const queued = addMedia({ channel_id: channel.id, source: folderSource("old") });
+    const needsFix = addMedia({ channel_id: channel.id, source: folderSource("old"), status: "Needs Fix" });
+    const derived = addMedia({ channel_id: channel.id, parent_id: needsFix.id, source: "derived" });
+    const published = addMedia({ channel_id: channel.id, source: folderSource("old"), status: "Published" });
+    const movedIn = addMedia({ channel_id: channel.id, source: folderSource("elsewhere") });
+
+    updateChannel(channel.id, { drive_folder_id: "new" });
+
+    assert.equal(findMedia(queued.id).status, "Removed");
+    assert.equal(findMedia(needsFix.id).status, "Removed");
+    assert.equal(findMedia(derived.id).status, "Removed");
+    assert.equal(findMedia(published.id).status, "Published");
+    assert.equal(findMedia(movedIn.id).status, "Pending");
+  });
+
+  it("leaves the queue alone for other edits", () => {
+    const channel = addChannel({ drive_folder_id: "same" });
+    const queued = addMedia({ channel_id: channel.id, source: folderSource("same") });
+
+    updateChannel(channel.id, { name: "Renamed", drive_folder_id: "same" });
+
+    assert.equal(findMedia(queued.id).status, "Pending");
+  });
+
+  it("publishes posts moved off a deleted channel from their original folder", async () => {
+    fs.mkdirSync(path.join(root, "gone"));
+    fs.writeFileSync(path.join(root, "gone", "clip.jpg"), "jpeg");
+    const deleted = addChannel({ drive_folder_id: "gone" });
+    const target = addChannel({ drive_folder_id: "kept" });
+    const media = addMedia({ channel_id: deleted.id, file_id: "local:gone/clip.jpg", source: folderSource("gone") });
+    const files: string[] = [];
+    const worker = createPublishWorker({
+      retryPolicy: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000, factor: 2 },
+      publish: async (row) => {
+        files.push(await fetchMediaFile(row));
+        return {};
+      },
+    });
+
+    deleteChannel(deleted.id, { queued: "move", move_to: target.id });
+    await worker.publishNow(media.id);
+
+    assert.deepEqual(files, [path.join(root, "gone", "clip.jpg")]);
+    const row = findMedia(media.id);
+    assert.equal(row.status, "Published");
+    assert.equal(row.channel_id, target.id);
+  });
+});
@@ -0,0 +1,191 @@
+import { reflowQueue } from "./autoscheduler";
+import { db } from "./db";
+import { emitChannelChange, emitMediaChange } from "./events";
+import { writeLog } from "./logs";
+import { AuthRevokedError, type Publisher } from "./publishers";
+import { setting } from "./settings";
+import { channelSourceKey } from "./sources";
+import { getAccessToken, hasTokens, notifyTokenExpired } from "./tokens";
+import type { ChannelRow, ChannelStatus } from "./types";
+
+export class ChannelError extends Error {
+  public details?: { queued: number };
+
+  constructor(message: string, public code: "not_found" | "invalid_input" | "channel_busy" | "has_queued_media", queued?: number) {
+    super(message);
+    // Sent alongside the error so the UI can ask what to do with the queue.
+    if (queued !== undefined) this.details = { queued };
+  }
+}
+
+export interface ChannelChanges {
+  name?: string;
+  drive_folder_id?: string;
+  daily_limit?: number;
+  avatar?: string | null;
+  paused?: boolean;
+}
+
+// What happens to a deleted channel's unpublished posts: moved to another channel or deleted with it.
+export interface QueuedMediaPlan {
+  queued?: "move" | "remove";
+  move_to?: number;
+}
+
+export const findChannel = (id: number | null) => db.prepare("SELECT * FROM channels WHERE id = ?").get(id) as ChannelRow | undefined;
+
+// Everything on the channel that hasn't gone out yet and hasn't been deleted.
+const QUEUED = "channel_id = ? AND status NOT IN ('Published', 'Deleted')";
+// Statuses that can still move to Removed.
+const REMOVABLE = "'Pending', 'Needs Fix', 'Rejected', 'Failed'";
+
+export function updateChannel(id: number, changes: ChannelChanges) {
+  const channel = findChannel(id);
+  if (!channel) throw new ChannelError("Channel not found", "not_found");
+
+  const fields = (Object.keys(changes) as (keyof ChannelChanges)[]).filter(key => changes[key] !== undefined);
+  if (fields.length === 0) return channel;
+  const oldSource = changes.drive_folder_id !== undefined && changes.drive_folder_id !== channel.drive_folder_id ? channelSourceKey(channel) : null;
+  if (oldSource && db.prepare("SELECT 1 FROM media WHERE channel_id = ? AND source = ? AND status = 'Uploading'").get(id, oldSource)) {
+    throw new ChannelError("A post from the current folder is uploading right now, try again in a minute", "channel_busy");
+  }
+
+  const values = Object.fromEntries(fields.map(key => [key, key === "paused" ? (changes.paused ? 1 : 0) : changes[key]]));
+  let removed: number[] = [];
+  db.transaction(() => {
+    db.prepare(`UPDATE channels SET ${fields.map(key => `${key} = @${key}`).join(", ")} WHERE id = @id`).run({ ...values, id });
+    if (!oldSource) return;
+    // No scan watches the old folder any more, so its queued posts come out of
+    // the queue rather than go out from a folder the channel no longer uses.
+    // A scan that finds the same file in the new folder puts it back.
+    const queued = `channel_id = @id AND source = @source AND status IN (${REMOVABLE})`;
+    const fromOldFolder = `(${queued}) OR (parent_id IN (SELECT id FROM media WHERE ${queued}) AND status IN (${REMOVABLE}))`;
+    removed = db.prepare(`SELECT id FROM media WHERE ${fromOldFolder}`).pluck().all({ id, source: oldSource }) as number[];
+    db.prepare(`UPDATE media SET status = 'Removed' WHERE ${fromOldFolder}`).run({ id, source: oldSource });
+  })();
+  emitChannelChange(id);
+  if (removed.length > 0) {
+    emitMediaChange(...removed);
+    reflowQueue(findChannel(id)!, true);
+  }
+
+  const name = changes.name ?? channel.name;
+  if (changes.paused !== undefined && changes.paused !== !!channel.paused) {
+    writeLog(name, changes.paused ? "Channel Paused" : "Channel Resumed", "Info", null, { channel_id: id });
+  }
+  const edited = fields.filter(key => key !== "paused");
+  if (edited.length > 0) {
+    writeLog(name, `Channel Updated (${edited.join(", ")})`, "Info", null, {
+      channel_id: id,
+      context: { ...Object.fromEntries(edited.map(key => [key, changes[key]])), ...(oldSource ? { removed: removed.length } : {}) },
+    });
+  }
+  return findChannel(id)!;
+}
+
+export const queuedCount = (id: number) =>
+  (db.prepare(`SELECT COUNT(*) as count FROM media WHERE ${QUEUED}`).get(id) as { count: number }).count;
+
+// Deletes the channel and everything configured on it. Published posts stay in
+// the library, unassigned. A channel with unpublished posts is only deleted once
+// the caller says whether to move them or delete them too.
+export function deleteChannel(id: number, { queued, move_to }: QueuedMediaPlan = {}) {
+  const channel = findChannel(id);
+  if (!channel) throw new ChannelError("Channel not found", "not_found");
+  if (db.prepare("SELECT 1 FROM media WHERE channel_id = ? AND status = 'Uploading'").get(id)) {
+    throw new ChannelError("A post on this channel is uploading right now, try again in a minute", "channel_busy");
+  }
+  const count = queuedCount(id);
+  if (count > 0 && !queued) {
+    throw new ChannelError(`${channel.name || "This channel"} has ${count} unpublished post(s), move or delete them first`, "has_queued_media", count);
+  }
+  if (queued === "move" && (!move_to || move_to === id || !findChannel(move_to))) {
+    throw new ChannelError("Pick another channel to move the posts to", "invalid_input");
+  }
+
+  const affected = (db.prepare(`SELECT id FROM media WHERE ${QUEUED}`).all(id) as { id: number }[]).map(row => row.id);
+  db.transaction(() => {
+    if (count > 0 && queued === "move") {
+      // Auto-picked slots belonged to this channel's windows.
+      db.prepare(`UPDATE media SET scheduled_time = NULL, auto_scheduled = 0 WHERE ${QUEUED} AND auto_scheduled = 1`).run(id);
+      db.prepare(`UPDATE media SET channel_id = ? WHERE ${QUEUED}`).run(move_to, id);
+    } else if (count > 0) {
+      db.prepare(`UPDATE media SET status = 'Deleted' WHERE ${QUEUED}`).run(id);
+    }
+    // Published posts and the channel's log history outlive it, unlinked.
+    db.prepare("UPDATE media SET channel_id = NULL WHERE channel_id = ?").run(id);
+    db.prepare("UPDATE logs SET channel_id = NULL WHERE channel_id = ?").run(id);
+    db.prepare("UPDATE channels SET default_template_id = NULL WHERE default_template_id IN (SELECT id FROM caption_templates WHERE channel_id = ?)").run(id);
+    for (const table of ["channel_tokens", "posting_windows", "hashtag_sets", "caption_templates"]) {
+      db.prepare(`DELETE FROM ${table} WHERE channel_id = ?`).run(id);
+    }
+    db.prepare("DELETE FROM channels WHERE id = ?").run(id);
+  })();
+
+  emitMediaChange(...affected);
+  emitChannelChange(id, true);
+  const outcome = count === 0 ? "" : queued === "move" ? `, ${count} post(s) moved to ${findChannel(move_to!)!.name}` : `, ${count} post(s) deleted`;
+  writeLog(channel.name || `Channel ${id}`, `Channel Deleted${outcome}`, "Info", null, { context: { channel_id: id, queued: count, plan: queued ?? null, move_to: move_to ?? null } });
+  return { moved: queued === "move" ? count : 0, deleted: queued === "remove" ? count : 0 };
+}
+
+// Checks the channel can still act on Snapchat: it has tokens, they refresh,
+// and the profile call goes through. Snapchat being unreachable says nothing
+// about the channel, so that only records the attempt.
+export async function checkChannelHealth(channel: ChannelRow, publisher: Publisher) {
+  let status: ChannelStatus = "Connected";
+  let error: string | null = null;
+  if (!hasTokens(channel.id)) {
+    status = "Disconnected";
+    error = "No Snapchat authorization, connect the channel";
+  } else {
+    try {
+      await publisher.getProfile(await getAccessToken(channel.id, publisher));
+    } catch (e: any) {
+      if (!(e instanceof AuthRevokedError)) {
+        db.prepare("UPDATE channels SET health_checked_at = CURRENT_TIMESTAMP WHERE id = ?").run(channel.id);
+        writeLog(channel.name, "Health Check", "Failed", e?.message || String(e), { channel_id: channel.id, level: "warn" });
+        emitChannelChange(channel.id);
+        return findChannel(channel.id)!;
+      }
+      status = "Token Expired";
+      error = e.message;
+    }
+  }
+
+  // A failed refresh inside getAccessToken has already marked and logged the channel.
+  const before = findChannel(channel.id)!.status;
+  db.prepare("UPDATE channels SET status = ?, health_error = ?, health_checked_at = CURRENT_TIMESTAMP WHERE id = ?").run(status, error, channel.id);
+  if (status !== before) {
+    writeLog(channel.name, `Health Check: ${status}`, status === "Connected" ? "Success" : "Failed", error, {
+      channel_id: channel.id,
+      level: status === "Connected" ? "info" : "warn",
+    });
+    if (status === "Token Expired") notifyTokenExpired(channel.id, channel.name, error!);
+  }
+  emitChannelChange(channel.id);
+  return findChannel(channel.id)!;
+}
+
+const HEALTH_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Checks every channel each health_check_interval_minutes, re-reading the
+// interval each minute like scheduled scans. The publisher is passed as a
+// getter because it's rebuilt when credentials change in Settings.
+export function startHealthChecks(publisher: () => Publisher) {
+  let running = false;
+  let lastRunAt = 0;
+  return setInterval(async () => {
+    const minutes = setting("health_check_interval_minutes");
+    if (minutes <= 0 || running || Date.now() - lastRunAt < minutes * 60 * 1000) return;
+    running = true;
+    lastRunAt = Date.now();
+    try {
+      for (const channel of db.prepare("SELECT * FROM channels").all() as ChannelRow[]) {
+        await checkChannelHealth(channel, publisher()).catch(e => console.error(`Health check failed for channel ${channel.id}`, e));
+      }
+    } finally {
+      running = false;
+    }
+  }, HEALTH_CHECK_INTERVAL_MS);
+}
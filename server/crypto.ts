@@ -0,0 +1,39 @@
+import crypto from "crypto";
+
+let cachedKey: Buffer | null = null;
+
+// AES-256-GCM key derived from TOKEN_ENCRYPTION_KEY. Outside production we fall
+// back to a fixed dev key so the mock flow works without any setup.
+function encryptionKey() {
+  if (cachedKey) return cachedKey;
+  let secret = process.env.TOKEN_ENCRYPTION_KEY;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") throw new Error("TOKEN_ENCRYPTION_KEY must be set in production");
+    console.warn("TOKEN_ENCRYPTION_KEY is not set, using an insecure development key");
+    secret = "snapauto-dev-insecure-key";
+  }
+  cachedKey = crypto.createHash("sha256").update(secret).digest();
+  return cachedKey;
+}
+
+export function encrypt(plaintext: string) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return ["v1", iv.toString("base64"), cipher.getAuthTag().toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+export function decrypt(payload: string) {
+  const [version, iv, tag, ciphertext] = payload.split(":");
+  if (version !== "v1") throw new Error("Unsupported encrypted payload");
+  const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+}
+
+// Webhook signature. Receivers check X-Webhook-Signature against
+// HMAC-SHA256(secret, "<timestamp>.<body>") and reject stale timestamps, so a
+// captured request can't be replayed later.
+export function signPayload(secret: string, timestamp: string, body: string) {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { autoSchedule } from "./autoscheduler";
+import { db } from "./db";
+import { DuplicateError, flagIfDuplicate, hashDistance, resolveDuplicate } from "./duplicates";
+import { setTags } from "./library";
+import { addChannel, addMedia, findMedia, setupTestDb } from "./test-helpers";
+import { createPublishWorker, PublishError } from "./worker";
+
+// A worker whose publish records what it was asked to post.
+function recordingWorker() {
+  const published: number[] = [];
+  const worker = createPublishWorker({
+    retryPolicy: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000, factor: 2 },
+    publish: async (media) => {
+      published.push(media.id);
+      return {};
+    },
+  });
+  return { worker, published };
+}
+
+const tagsOf = (id: number) => db.prepare("SELECT tag FROM media_tags WHERE media_id = ? ORDER BY tag").pluck().all(id);
+
+before(setupTestDb);
+
+describe("duplicate detection", () => {
+  it("measures the distance between perceptual hashes", () => {
+    assert.equal(hashDistance("ff00,ff00", "ff00,ff00"), 0);
+    // Averaged over the frames: (1 + 3) / 2.
+    assert.equal(hashDistance("ff00,ff00", "ff01,ff07"), 2);
+    assert.equal(hashDistance("ff00,ff00", "ff00"), null);
+  });
+
+  it("flags an identical file already published on the channel", () => {
+    const channel = addChannel();
+    const original = addMedia({ channel_id: channel.id, status: "Published", content_hash: "same" });
+    const repost = addMedia({ channel_id: channel.id, content_hash: "same" });
+    const elsewhere = addMedia({ channel_id: addChannel().id, content_hash: "same", scheduled_time: null });
+
+    assert.equal(flagIfDuplicate(repost)?.original.id, original.id);
+    assert.equal(flagIfDuplicate(elsewhere), null);
+    const row = findMedia(repost.id);
+    assert.equal(row.duplicate_status, "flagged");
+    assert.equal(row.duplicate_of, original.id);
+    assert.equal(row.duplicate_kind, "exact");
+  });
+
+  it("publishes only one of two twins ingested in the same scan", async () => {
+    const channel = addChannel();
+    const first = addMedia({ channel_id: channel.id, content_hash: "twin" });
+    const second = addMedia({ channel_id: channel.id, content_hash: "twin" });
+    const later = addMedia({ channel_id: channel.id, content_hash: "twin", scheduled_time: new Date(Date.now() + 60 * 60 * 1000).toISOString() });
+    const { worker, published } = recordingWorker();
+
+    await worker.tick();
+
+    assert.deepEqual(published, [first.id]);
+    assert.equal(findMedia(second.id).duplicate_status, "flagged");
+    assert.equal(findMedia(second.id).status, "Pending");
+    assert.equal(findMedia(later.id).duplicate_of, first.id);
+  });
+
+  it("refuses to publish a twin now once the other one is out", async () => {
+    const channel = addChannel();
+    addMedia({ channel_id: channel.id, status: "Published", content_hash: "now" });
+    const media = addMedia({ channel_id: channel.id, content_hash: "now" });
+    const { worker, published } = recordingWorker();
+
+    await assert.rejects(worker.publishNow(media.id), (e: PublishError) => e.code === "flagged_duplicate");
+
+    assert.deepEqual(published, []);
+    assert.equal(findMedia(media.id).duplicate_status, "flagged");
+  });
+
+  it("publishes a duplicate once it's allowed", async () => {
+    const channel = addChannel();
+    addMedia({ channel_id: channel.id, status: "Published", content_hash: "allowed" });
+    const media = addMedia({ channel_id: channel.id, content_hash: "allowed" });
+    flagIfDuplicate(media);
+    const { worker, published } = recordingWorker();
+
+    resolveDuplicate(media.id, "allow");
+    await worker.publishNow(media.id);
+
+    assert.deepEqual(published, [media.id]);
+  });
+});
+
+describe("resolveDuplicate", () => {
+  it("merges tags into the original and deletes the duplicate", () => {
+    const channel = addChannel();
+    const original = addMedia({ channel_id: channel.id, status: "Published", content_hash: "merge" });
+    const repost = addMedia({ channel_id: channel.id, content_hash: "merge" });
+    setTags(original.id, ["cats"]);
+    setTags(repost.id, ["dogs"]);
+    flagIfDuplicate(repost);
+
+    const row = resolveDuplicate(repost.id, "merge");
+
+    assert.equal(row.status, "Deleted");
+    assert.equal(row.duplicate_status, "merged");
+    assert.deepEqual(tagsOf(original.id), ["cats", "dogs"]);
+  });
+
+  it("pulls the auto-scheduled queue forward when a duplicate is skipped", () => {
+    const channel = addChannel({ daily_limit: 1, timezone: "UTC" });
+    db.prepare("INSERT INTO posting_windows (channel_id, days, start_time, end_time, slots, min_spacing_minutes) VALUES (?, '0,1,2,3,4,5,6', '12:00', '12:00', 1, 60)")
+      .run(channel.id);
+    addMedia({ channel_id: channel.id, status: "Published", content_hash: "skip", scheduled_time: null });
+    const repost = addMedia({ channel_id: channel.id, content_hash: "skip", scheduled_time: null });
+    const next = addMedia({ channel_id: channel.id, content_hash: "other", scheduled_time: null });
+    autoSchedule(channel, { silent: true });
+    const slot = findMedia(repost.id).scheduled_time;
+    flagIfDuplicate(repost);
+
+    resolveDuplicate(repost.id, "skip");
+
+    assert.equal(findMedia(repost.id).status, "Deleted");
+    assert.equal(findMedia(next.id).scheduled_time, slot);
+  });
+
+  it("only resolves flagged posts", () => {
+    const media = addMedia({ channel_id: addChannel().id });
+    assert.throws(() => resolveDuplicate(media.id, "skip"), (e: DuplicateError) => e.code === "not_flagged");
+  });
+});
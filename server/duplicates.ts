@@ -0,0 +1,298 @@
+import crypto from "crypto";
+import fs from "fs";
+import { reflowQueue } from "./autoscheduler";
+import { db } from "./db";
+import { emitMediaChange } from "./events";
+import { ffmpegOutput } from "./ffmpeg";
+import { setTags } from "./library";
+import { mediaFields, writeLog } from "./logs";
+import { notify } from "./notifications";
+import { setting } from "./settings";
+import { fetchMediaFile } from "./sources";
+import type { ChannelRow, MediaRow } from "./types";
+
+export const DUPLICATE_ACTIONS = ["merge", "skip", "allow"] as const;
+export type DuplicateAction = typeof DUPLICATE_ACTIONS[number];
+
+export class DuplicateError extends Error {
+  constructor(message: string, public code: "not_found" | "not_flagged") {
+    super(message);
+  }
+}
+
+export interface DuplicateItem extends MediaRow {
+  channel_name: string;
+  original: MediaRow;
+}
+
+// As a WHERE clause over media, for the worker's due query: flagged posts, and
+// renders of them, wait for a decision.
+export const NOT_FLAGGED = `(
+  (media.duplicate_status IS NULL OR media.duplicate_status != 'flagged')
+  AND NOT EXISTS (SELECT 1 FROM media original WHERE original.id = media.parent_id AND original.duplicate_status = 'flagged')
+)`;
+
+export const isFlagged = (media: MediaRow) =>
+  media.duplicate_status === "flagged" || !!db.prepare("SELECT 1 FROM media WHERE id = ? AND duplicate_status = 'flagged'").get(media.parent_id);
+
+// Where in a video the compared frames come from, as fractions of its length,
+// so two encodes of the same clip are sampled at the same moments.
+const VIDEO_SAMPLES = [0.1, 0.3, 0.5, 0.7, 0.9];
+
+export function sha256File(file: string) {
+  return new Promise<string>((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(file).on("error", reject).on("data", chunk => hash.update(chunk)).on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+// dHash of one frame: shrunk to 9x8 grey pixels, one bit per pixel for whether
+// it's brighter than its right-hand neighbour. Survives re-encoding, resizing
+// and small edits, unlike the SHA-256. 16 hex characters.
+async function frameHash(input: string, seek?: number) {
+  const pixels = await ffmpegOutput([
+    "-v", "error",
+    ...(seek !== undefined ? ["-ss", seek.toFixed(2)] : []),
+    "-i", input, "-frames:v", "1", "-vf", "scale=9:8:flags=area,format=gray", "-f", "rawvideo", "-",
+  ]);
+  if (pixels.length < 72) throw new Error("ffmpeg returned no frame");
+  let hex = "";
+  for (let y = 0; y < 8; y++) {
+    for (let half = 0; half < 2; half++) {
+      let nibble = 0;
+      for (let x = half * 4; x < half * 4 + 4; x++) nibble = (nibble << 1) | (pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? 1 : 0);
+      hex += nibble.toString(16);
+    }
+  }
+  return hex;
+}
+
+// Comma-separated frame hashes: one for an image, one per sample point for a video.
+async function perceptualHash(input: string, media: MediaRow) {
+  if (media.type !== "video") return frameHash(input);
+  const duration = media.duration ?? 0;
+  if (duration <= 0) return frameHash(input);
+  const hashes = [];
+  for (const at of VIDEO_SAMPLES) hashes.push(await frameHash(input, duration * at));
+  return hashes.join(",");
+}
+
+const bitCount = (n: number) => (n & 1) + ((n >> 1) & 1) + ((n >> 2) & 1) + ((n >> 3) & 1);
+
+// Bits that differ, averaged over the frames both hashes have. Null when they
+// can't be compared (different number of frames, so an image against a video).
+export function hashDistance(a: string, b: string) {
+  const framesA = a.split(",");
+  const framesB = b.split(",");
+  if (framesA.length !== framesB.length) return null;
+  let total = 0;
+  framesA.forEach((frame, i) => {
+    for (let c = 0; c < frame.length; c++) total += bitCount(parseInt(frame[c], 16) ^ parseInt(framesB[i][c], 16));
+  });
+  return Math.round(total / framesA.length);
+}
+
+// Hashes the file behind a media row. The SHA-256 is always stored; the
+// perceptual hash needs ffmpeg and is left null when it can't be computed.
+// Returns the updated row, or null if the file couldn't be read.
+export async function fingerprintMedia(media: MediaRow) {
+  let input: string;
+  let contentHash: string;
+  try {
+    input = await fetchMediaFile(media);
+    contentHash = await sha256File(input);
+  } catch (e: any) {
+    writeLog(media.file_name, "Fingerprint Failed", "Failed", e?.message || String(e), { ...mediaFields(media), level: "warn" });
+    return null;
+  }
+  let perceptual: string | null = null;
+  try {
+    perceptual = await perceptualHash(input, media);
+  } catch (e: any) {
+    writeLog(media.file_name, "Perceptual Hash Failed", "Failed", e?.message || String(e), { ...mediaFields(media), level: "warn" });
+  }
+
+  // New content deserves a fresh look, even if an earlier version was allowed through.
+  const changed = contentHash !== media.content_hash;
+  db.prepare(`
+    UPDATE media SET content_hash = @contentHash, perceptual_hash = @perceptual,
+      duplicate_of = CASE WHEN @changed THEN NULL ELSE duplicate_of END,
+      duplicate_kind = CASE WHEN @changed THEN NULL ELSE duplicate_kind END,
+      duplicate_distance = CASE WHEN @changed THEN NULL ELSE duplicate_distance END,
+      duplicate_status = CASE WHEN @changed THEN NULL ELSE duplicate_status END
+    WHERE id = @id
+  `).run({ contentHash, perceptual, changed: changed ? 1 : 0, id: media.id });
+  return db.prepare("SELECT * FROM media WHERE id = ?").get(media.id) as MediaRow;
+}
+
+// How alike two hashed rows are: exact (same SHA-256), similar (perceptual
+// hashes within duplicate_max_distance) or null.
+function likeness(a: MediaRow, b: MediaRow, maxDistance: number) {
+  if (a.content_hash && a.content_hash === b.content_hash) return { kind: "exact" as const, distance: 0 };
+  if (maxDistance <= 0 || !a.perceptual_hash || !b.perceptual_hash || a.type !== b.type) return null;
+  const distance = hashDistance(a.perceptual_hash, b.perceptual_hash);
+  return distance !== null && distance <= maxDistance ? { kind: "similar" as const, distance } : null;
+}
+
+// The closest thing already published (or being published right now) on the
+// media's channel: an identical file, or failing that the nearest perceptual
+// match within duplicate_max_distance. A published derived copy counts for its
+// original, and the other way round.
+export function findDuplicate(media: MediaRow) {
+  if (media.channel_id === null || !media.content_hash) return null;
+  const candidates = db.prepare(`
+    SELECT * FROM media
+    WHERE channel_id = @channelId AND id != @id AND content_hash IS NOT NULL
+      AND (parent_id IS NULL OR parent_id != @id) AND id IS NOT @parentId
+      AND (status IN ('Published', 'Uploading') OR id IN (SELECT parent_id FROM media WHERE status IN ('Published', 'Uploading') AND parent_id IS NOT NULL))
+    ORDER BY id
+  `).all({ channelId: media.channel_id, id: media.id, parentId: media.parent_id }) as MediaRow[];
+
+  const maxDistance = setting("duplicate_max_distance");
+  let best: { original: MediaRow; kind: "exact" | "similar"; distance: number } | null = null;
+  for (const candidate of candidates) {
+    const match = likeness(media, candidate, maxDistance);
+    if (match?.kind === "exact") return { original: candidate, ...match };
+    if (match && (!best || match.distance < best.distance)) best = { original: candidate, ...match };
+  }
+  return best;
+}
+
+// Flags a freshly ingested post that looks like a repost, so the worker holds
+// it until someone merges, skips or allows it. Posts already decided on, and
+// renders of an original, are left alone.
+export function flagIfDuplicate(media: MediaRow) {
+  if (media.parent_id !== null || media.duplicate_status !== null) return null;
+  if (["Uploading", "Published", "Deleted"].includes(media.status)) return null;
+  const match = findDuplicate(media);
+  if (!match) return null;
+
+  db.prepare("UPDATE media SET duplicate_of = ?, duplicate_kind = ?, duplicate_distance = ?, duplicate_status = 'flagged' WHERE id = ?")
+    .run(match.original.id, match.kind, match.distance, media.id);
+  emitMediaChange(media.id);
+  const likeness = match.kind === "exact" ? "an exact copy" : `a near copy (${match.distance}/64 bits differ)`;
+  writeLog(media.file_name, `Duplicate Flagged (${match.kind})`, "Failed", `Looks like ${likeness} of ${match.original.file_name}`, {
+    ...mediaFields(media),
+    level: "warn",
+    context: { duplicate_of: match.original.id, kind: match.kind, distance: match.distance },
+  });
+  notify({
+    kind: "duplicate",
+    severity: "warning",
+    title: `${media.file_name} looks like a repost`,
+    message: `It's ${likeness} of ${match.original.file_name}, already published on this channel. It won't be posted until it's reviewed.`,
+    media_id: media.id,
+    channel_id: media.channel_id,
+  });
+  return match;
+}
+
+// Called by the worker right before it claims a post, when everything published
+// on the channel since the post was scanned is known: twins ingested in the
+// same scan only show up here. A derived render is checked through its
+// original, which is what gets flagged. True if the post must be held back.
+export function holdIfDuplicate(media: MediaRow) {
+  const subject = db.prepare("SELECT * FROM media WHERE id = ?").get(media.parent_id ?? media.id) as MediaRow | undefined;
+  if (!subject || subject.duplicate_status === "flagged") return !!subject;
+  // Allowed, merged or skipped: someone has already decided.
+  if (subject.duplicate_status !== null) return false;
+  return !!flagIfDuplicate(subject);
+}
+
+// Called once a post has gone out: anything still queued on the channel with
+// the same content is now a repost of it. Returns the ids flagged.
+export function flagQueuedTwins(published: MediaRow) {
+  const parent = published.parent_id !== null ? db.prepare("SELECT * FROM media WHERE id = ?").get(published.parent_id) as MediaRow | undefined : undefined;
+  const sources = [published, ...(parent ? [parent] : [])].filter(row => row.content_hash);
+  if (published.channel_id === null || sources.length === 0) return [];
+
+  const maxDistance = setting("duplicate_max_distance");
+  const queued = db.prepare(`
+    SELECT * FROM media
+    WHERE channel_id = ? AND parent_id IS NULL AND duplicate_status IS NULL AND content_hash IS NOT NULL AND content_hash != ''
+      AND status IN ('Pending', 'Failed', 'Needs Fix') AND id != ? AND id IS NOT ?
+  `).all(published.channel_id, published.id, published.parent_id) as MediaRow[];
+  return queued
+    .filter(row => sources.some(source => likeness(row, source, maxDistance)))
+    .filter(row => flagIfDuplicate(row))
+    .map(row => row.id);
+}
+
+export function duplicateQueue(channelId: number | null) {
+  const rows = db.prepare(`
+    SELECT media.*, channels.name as channel_name FROM media JOIN channels ON channels.id = media.channel_id
+    WHERE media.duplicate_status = 'flagged' AND media.status != 'Deleted' AND (@channelId IS NULL OR media.channel_id = @channelId)
+    ORDER BY media.id
+  `).all({ channelId }) as (MediaRow & { channel_name: string })[];
+  const findMedia = db.prepare("SELECT * FROM media WHERE id = ?");
+  return rows.map(row => ({ ...row, original: findMedia.get(row.duplicate_of) as MediaRow })) as DuplicateItem[];
+}
+
+// merge: the post is the same content as the original, so it's deleted and its
+// tags carried over. skip: deleted, nothing carried over. allow: posted anyway.
+// Deleted posts stay deleted while their file is in the folder, so a skipped
+// repost isn't picked up again by the next scan.
+export function resolveDuplicate(id: number, action: DuplicateAction) {
+  const media = db.prepare("SELECT * FROM media WHERE id = ?").get(id) as MediaRow | undefined;
+  if (!media) throw new DuplicateError("Media not found", "not_found");
+  if (media.duplicate_status !== "flagged") throw new DuplicateError(`${media.file_name} isn't flagged as a duplicate`, "not_flagged");
+  const original = db.prepare("SELECT * FROM media WHERE id = ?").get(media.duplicate_of) as MediaRow;
+
+  db.transaction(() => {
+    if (action === "allow") {
+      db.prepare("UPDATE media SET duplicate_status = 'allowed' WHERE id = ?").run(id);
+      return;
+    }
+    db.prepare("UPDATE media SET duplicate_status = ?, status = 'Deleted', scheduled_time = NULL WHERE id = ?").run(action === "merge" ? "merged" : "skipped", id);
+    // Its processed versions go with it.
+    db.prepare("UPDATE media SET status = 'Deleted', scheduled_time = NULL WHERE parent_id = ? AND status NOT IN ('Published', 'Uploading')").run(id);
+    if (action === "merge") {
+      const tagsOf = db.prepare("SELECT tag FROM media_tags WHERE media_id = ?").pluck();
+      setTags(original.id, [...tagsOf.all(original.id), ...tagsOf.all(id)] as string[]);
+    }
+  })();
+
+  emitMediaChange(id, ...(db.prepare("SELECT id FROM media WHERE parent_id = ?").pluck().all(id) as number[]));
+  if (action !== "allow") {
+    // The deleted post and its renders leave gaps in the auto-scheduled queue.
+    const channel = db.prepare("SELECT * FROM channels WHERE id = ?").get(media.channel_id) as ChannelRow | undefined;
+    if (channel) reflowQueue(channel, true);
+  }
+  const labels: Record<DuplicateAction, string> = { merge: `Duplicate Merged into ${original.file_name}`, skip: "Duplicate Skipped", allow: "Duplicate Allowed" };
+  writeLog(media.file_name, labels[action], "Info", null, { ...mediaFields(media), context: { duplicate_of: original.id, action } });
+  if (action === "merge") {
+    writeLog(original.file_name, `Duplicate Merged: ${media.file_name}`, "Info", null, { ...mediaFields(original), context: { merged_id: id } });
+  }
+  return db.prepare("SELECT * FROM media WHERE id = ?").get(id) as MediaRow;
+}
+
+const BACKFILL_INTERVAL_MS = 5 * 60 * 1000;
+const BACKFILL_BATCH = 20;
+
+// Hashes media ingested before fingerprinting existed, a batch at a time, so
+// new files can be compared against what was published earlier. Only hashes:
+// posts already in the queue aren't flagged after the fact.
+export function startFingerprintBackfill() {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const rows = db.prepare(`
+        SELECT media.* FROM media JOIN channels ON channels.id = media.channel_id
+        WHERE media.content_hash IS NULL AND media.status != 'Deleted'
+        ORDER BY media.status = 'Published' DESC, media.id DESC LIMIT ?
+      `).all(BACKFILL_BATCH) as MediaRow[];
+      for (const media of rows) {
+        // Unreadable files get an empty hash so they aren't retried every pass.
+        if (!(await fingerprintMedia(media))) db.prepare("UPDATE media SET content_hash = '' WHERE id = ?").run(media.id);
+      }
+    } catch (e) {
+      console.error("Fingerprint backfill failed", e);
+    } finally {
+      running = false;
+    }
+  };
+  run();
+  return setInterval(run, BACKFILL_INTERVAL_MS);
+}
@@ -0,0 +1,4 @@
+import dotenv from "dotenv";
+
+// Imported first by entry points so every module sees .env values at load time.
+dotenv.config({ path: [".env.local", ".env"], quiet: true });
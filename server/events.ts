@@ -0,0 +1,50 @@
+import { EventEmitter } from "events";
+import { db } from "./db";
+import type { LogRow, MediaRow, NotificationRow } from "./types";
+
+export interface ScanProgress {
+  phase: "started" | "progress" | "finished";
+  at: string;
+  channel_id?: number;
+  channel?: string;
+  // Files inspected so far out of the files this scan added or changed.
+  processed?: number;
+  total?: number;
+}
+
+export type ServerEvent =
+  | { type: "media"; data: MediaRow }
+  | { type: "log"; data: LogRow }
+  | { type: "scan"; data: ScanProgress }
+  | { type: "channel"; data: { id: number; deleted?: boolean } }
+  | { type: "notification"; data: NotificationRow }
+  | { type: "worker"; data: object };
+
+// In-process fan-out to the open /api/events streams.
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+export function publishEvent(event: ServerEvent) {
+  bus.emit("event", event);
+}
+
+export function subscribe(listener: (event: ServerEvent) => void) {
+  bus.on("event", listener);
+  return () => {
+    bus.off("event", listener);
+  };
+}
+
+// Tells clients a channel's settings or health changed, so they reload the channel list.
+export function emitChannelChange(id: number, deleted = false) {
+  publishEvent({ type: "channel", data: deleted ? { id, deleted } : { id } });
+}
+
+// Broadcasts the current state of each media row. Skips the reads when nobody is listening.
+export function emitMediaChange(...ids: number[]) {
+  if (bus.listenerCount("event") === 0) return;
+  for (const id of new Set(ids)) {
+    const media = db.prepare("SELECT * FROM media WHERE id = ?").get(id) as MediaRow | undefined;
+    if (media) publishEvent({ type: "media", data: media });
+  }
+}
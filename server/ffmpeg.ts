@@ -0,0 +1,24 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+export async function runFfmpeg(args: string[], ffmpegPath = process.env.FFMPEG_PATH || "ffmpeg") {
+  try {
+    await execFileAsync(ffmpegPath, args, { timeout: 10 * 60 * 1000, maxBuffer: 10 * 1024 * 1024 });
+  } catch (e: any) {
+    if (e?.code === "ENOENT") throw new Error(`ffmpeg not found at "${ffmpegPath}"`);
+    throw new Error(`ffmpeg failed: ${(e?.stderr || e?.message || "").trim()}`);
+  }
+}
+
+// Runs ffmpeg for its stdout, e.g. raw frames piped to "-".
+export async function ffmpegOutput(args: string[], ffmpegPath = process.env.FFMPEG_PATH || "ffmpeg") {
+  try {
+    const { stdout } = await execFileAsync(ffmpegPath, args, { encoding: "buffer", timeout: 60 * 1000, maxBuffer: 10 * 1024 * 1024 });
+    return stdout;
+  } catch (e: any) {
+    if (e?.code === "ENOENT") throw new Error(`ffmpeg not found at "${ffmpegPath}"`);
+    throw new Error(`ffmpeg failed: ${(e?.stderr?.toString() || e?.message || "").trim()}`);
+  }
+}
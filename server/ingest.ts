@@ -0,0 +1,71 @@
+import { db } from "./db";
+import { emitMediaChange } from "./events";
+import { mediaFields, writeLog } from "./logs";
+import { isImageCodec, probeFile } from "./probe";
+import { fetchMediaFile } from "./sources";
+import { aspectRatioLabel, specProfileFromEnv, validateAgainstSpec, type SpecIssue, type SpecProfile } from "./spec";
+import type { MediaRow } from "./types";
+
+export interface InspectionResult {
+  status: "Pending" | "Needs Fix" | "Rejected";
+  reasons: string[];
+  // False when the file couldn't be probed at all.
+  probed: boolean;
+}
+
+const QUEUED_STATUSES = "status IN ('Pending', 'Needs Fix', 'Rejected')";
+
+// Probes the file behind a media row, records what we found and moves the row
+// to Needs Fix or Rejected if it doesn't meet the spec. Rows that are already
+// publishing or published keep their status.
+export async function inspectMedia(media: MediaRow, profile: SpecProfile = specProfileFromEnv()): Promise<InspectionResult> {
+  let probe;
+  try {
+    probe = await probeFile(await fetchMediaFile(media));
+  } catch (e: any) {
+    // A file we can't check mustn't be published unchecked. Needs Fix rather
+    // than Rejected: the next successful inspection puts it back in the queue.
+    const message = e?.message || String(e);
+    const issue: SpecIssue = { code: "unreadable", message: `Could not probe the file: ${message}`, fixable: false };
+    db.prepare(`UPDATE media SET spec_issues = ?, status = CASE WHEN ${QUEUED_STATUSES} THEN 'Needs Fix' ELSE status END WHERE id = ?`)
+      .run(JSON.stringify([issue]), media.id);
+    emitMediaChange(media.id);
+    writeLog(media.file_name, "Probe Failed", "Failed", message, { ...mediaFields(media), context: { issues: [issue.code] } });
+    return { status: "Needs Fix", reasons: [issue.message], probed: false };
+  }
+
+  const issues = validateAgainstSpec(probe, profile);
+  const status: InspectionResult["status"] = issues.length === 0 ? "Pending" : issues.every(i => i.fixable) ? "Needs Fix" : "Rejected";
+  const reasons = issues.map(i => i.message);
+
+  db.prepare(`
+    UPDATE media SET
+      type = ?, size = ?, aspect_ratio = ?, width = ?, height = ?, duration = ?, codec = ?, bitrate = ?, spec_issues = ?,
+      status = CASE WHEN ${QUEUED_STATUSES} THEN ? ELSE status END
+    WHERE id = ?
+  `).run(
+    isImageCodec(probe.codec) ? "image" : "video",
+    probe.size,
+    aspectRatioLabel(probe.width, probe.height),
+    probe.width,
+    probe.height,
+    probe.duration,
+    probe.codec,
+    probe.bitrate,
+    issues.length ? JSON.stringify(issues) : null,
+    status,
+    media.id,
+  );
+  emitMediaChange(media.id);
+
+  if (issues.length) {
+    writeLog(media.file_name, `Spec Check: ${status}`, "Failed", reasons.join("; "), {
+      ...mediaFields(media),
+      level: status === "Needs Fix" ? "warn" : "error",
+      context: { issues: issues.map(i => i.code) },
+    });
+  } else {
+    writeLog(media.file_name, "Spec Check", "Success", null, { ...mediaFields(media), context: { width: probe.width, height: probe.height, codec: probe.codec } });
+  }
+  return { status, reasons, probed: true };
+}
@@ -0,0 +1,149 @@
+import { db } from "./db";
+import type { MediaRow, MediaStatus } from "./types";
+
+export interface LibraryFilters {
+  q?: string;
+  status?: MediaStatus[];
+  type?: string;
+  aspect_ratio?: string;
+  channel_id?: number;
+  // Ingest date range, inclusive, as YYYY-MM-DD or full ISO timestamps.
+  from?: string;
+  to?: string;
+  // Media must carry every one of these tags.
+  tags?: string[];
+  limit?: number;
+  cursor?: string;
+}
+
+export interface LibraryPage {
+  items: (MediaRow & { tags: string[] })[];
+  total: number;
+  next_cursor: string | null;
+}
+
+const DEFAULT_PAGE_SIZE = 48;
+const MAX_PAGE_SIZE = 200;
+const MAX_TAG_LENGTH = 32;
+
+export class InvalidCursorError extends Error {
+  code = "invalid_cursor" as const;
+
+  constructor() {
+    super("Invalid cursor");
+  }
+}
+
+// Tags are case-insensitive labels: lowercased, trimmed, spaces collapsed.
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH);
+
+// Turns free text into an FTS5 query that matches every word as a prefix, so
+// "beh scen" finds "behind_the-scenes.mp4". Quoting each word keeps FTS syntax
+// characters in user input from being interpreted.
+function ftsQuery(q: string) {
+  const words = q.match(/[\p{L}\p{N}]+/gu) || [];
+  return words.map(word => `"${word}"*`).join(" ");
+}
+
+// The cursor is the (created_at, id) of the last row on the previous page, opaque to clients.
+const encodeCursor = (row: MediaRow) => Buffer.from(JSON.stringify([row.created_at, row.id])).toString("base64url");
+
+function decodeCursor(cursor: string): [string, number] {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (typeof createdAt !== "string" || !Number.isInteger(id)) throw new Error();
+    return [createdAt, id];
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+export function tagsFor(ids: number[]) {
+  const tags = new Map<number, string[]>(ids.map(id => [id, []]));
+  if (ids.length === 0) return tags;
+  const rows = db.prepare(`SELECT media_id, tag FROM media_tags WHERE media_id IN (${ids.map(() => "?").join(",")}) ORDER BY tag`).all(...ids) as { media_id: number; tag: string }[];
+  for (const row of rows) tags.get(row.media_id)!.push(row.tag);
+  return tags;
+}
+
+// Newest first, paged by cursor so rows ingested mid-browse don't shift later pages.
+export function searchMedia(filters: LibraryFilters): LibraryPage {
+  const where: string[] = [];
+  const params: Record<string, unknown> = {};
+
+  const match = filters.q ? ftsQuery(filters.q) : "";
+  if (match) {
+    where.push("id IN (SELECT rowid FROM media_fts WHERE media_fts MATCH @match)");
+    params.match = match;
+  }
+  if (filters.status?.length) {
+    where.push(`status IN (${filters.status.map((_, i) => `@status${i}`).join(", ")})`);
+    filters.status.forEach((status, i) => (params[`status${i}`] = status));
+  } else {
+    where.push("status != 'Deleted'");
+  }
+  if (filters.type) {
+    where.push("type = @type");
+    params.type = filters.type;
+  }
+  if (filters.aspect_ratio) {
+    where.push("aspect_ratio = @aspectRatio");
+    params.aspectRatio = filters.aspect_ratio;
+  }
+  if (filters.channel_id) {
+    where.push("channel_id = @channelId");
+    params.channelId = filters.channel_id;
+  }
+  if (filters.from) {
+    where.push("date(created_at) >= date(@from)");
+    params.from = filters.from;
+  }
+  if (filters.to) {
+    where.push("date(created_at) <= date(@to)");
+    params.to = filters.to;
+  }
+  const tags = [...new Set((filters.tags || []).map(normalizeTag).filter(Boolean))];
+  tags.forEach((tag, i) => {
+    where.push(`EXISTS (SELECT 1 FROM media_tags WHERE media_id = media.id AND tag = @tag${i})`);
+    params[`tag${i}`] = tag;
+  });
+
+  const filtered = where.length ? where.join(" AND ") : "1 = 1";
+  const { total } = db.prepare(`SELECT COUNT(*) as total FROM media WHERE ${filtered}`).get(params) as { total: number };
+
+  let paged = filtered;
+  if (filters.cursor) {
+    const [createdAt, id] = decodeCursor(filters.cursor);
+    paged += " AND (created_at < @cursorCreatedAt OR (created_at = @cursorCreatedAt AND id < @cursorId))";
+    Object.assign(params, { cursorCreatedAt: createdAt, cursorId: id });
+  }
+
+  const limit = Math.min(Math.max(Number(filters.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  // One extra row tells us whether there's another page.
+  const rows = db.prepare(`SELECT * FROM media WHERE ${paged} ORDER BY created_at DESC, id DESC LIMIT @limit`).all({ ...params, limit: limit + 1 }) as MediaRow[];
+  const page = rows.slice(0, limit);
+  const tagMap = tagsFor(page.map(row => row.id));
+
+  return {
+    items: page.map(row => ({ ...row, tags: tagMap.get(row.id)! })),
+    total,
+    next_cursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
+
+export function setTags(mediaId: number, tags: string[]) {
+  const normalized = [...new Set(tags.map(normalizeTag).filter(Boolean))];
+  db.transaction(() => {
+    db.prepare("DELETE FROM media_tags WHERE media_id = ?").run(mediaId);
+    for (const tag of normalized) db.prepare("INSERT INTO media_tags (media_id, tag) VALUES (?, ?)").run(mediaId, tag);
+  })();
+  return normalized;
+}
+
+export function allTags() {
+  return db.prepare(`
+    SELECT tag, COUNT(*) as count FROM media_tags
+    JOIN media ON media.id = media_tags.media_id AND media.status != 'Deleted'
+    GROUP BY tag ORDER BY count DESC, tag
+  `).all() as { tag: string; count: number }[];
+}
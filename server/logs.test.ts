@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { db } from "./db";
+import { logsToCsv, pruneLogs } from "./logs";
+import { updateSettings } from "./settings";
+import { setupTestDb } from "./test-helpers";
+import type { LogRow } from "./types";
+
+const row = (fields: Partial<LogRow>) => ({ id: 1, timestamp: "2026-01-01 00:00:00", level: "info", status: "Info", action: "Edited", ...fields }) as LogRow;
+const cells = (csv: string) => csv.trim().split("\n")[1];
+
+before(setupTestDb);
+
+describe("logsToCsv", () => {
+  it("defuses values a spreadsheet would run as formulas", () => {
+    for (const name of ["=HYPERLINK(\"http://x\")", "+1", "-2+3", "@SUM(A1)"]) {
+      assert.match(cells(logsToCsv([row({ file_name: name })])), /,"?'[=+\-@]/);
+    }
+  });
+
+  it("quotes commas and quotes and leaves plain values alone", () => {
+    assert.equal(
+      cells(logsToCsv([row({ file_name: 'a "b", c', error_message: "plain", media_id: -1 })])),
+      `1,2026-01-01 00:00:00,info,Info,"a ""b"", c",Edited,plain,-1,,,,`,
+    );
+  });
+});
+
+describe("pruneLogs", () => {
+  it("keeps logs for as many days as the retention setting says", () => {
+    const insert = db.prepare("INSERT INTO logs (timestamp, file_name, action, status) VALUES (datetime('now', ?), ?, 'Edited', 'Info')");
+    insert.run("-40 days", "old.jpg");
+    insert.run("-10 days", "recent.jpg");
+
+    updateSettings({ log_retention_days: 20 });
+    pruneLogs();
+
+    const names = db.prepare("SELECT file_name FROM logs WHERE action = 'Edited'").pluck().all();
+    assert.deepEqual(names, ["recent.jpg"]);
+  });
+});
@@ -0,0 +1,192 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { db } from "./db";
+import { publishEvent } from "./events";
+import { setting } from "./settings";
+import type { LogLevel, LogRow, MediaRow } from "./types";
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export interface LogFields {
+  // Defaults to error for Failed entries and info otherwise.
+  level?: LogLevel;
+  media_id?: number | null;
+  channel_id?: number | null;
+  context?: Record<string, unknown>;
+}
+
+export interface LogFilters {
+  level?: LogLevel[];
+  status?: string;
+  media_id?: number;
+  channel_id?: number;
+  user_id?: number;
+  correlation_id?: string;
+  // Substring of the file name, action or error message.
+  q?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface LogPage {
+  items: LogRow[];
+  total: number;
+  next_cursor: string | null;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const MAX_EXPORT_ROWS = 50000;
+
+export class InvalidLogCursorError extends Error {
+  code = "invalid_cursor" as const;
+
+  constructor() {
+    super("Invalid cursor");
+  }
+}
+
+// What the current async call chain is part of: the signed-in user whose
+// request started it, and the scan or publish run it belongs to.
+interface LogContext {
+  user?: { id: number; username: string };
+  correlationId?: string;
+}
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+// Runs `fn` with a fresh correlation id, so every entry it logs (however deep) can be grouped.
+export function withCorrelation<T>(kind: "scan" | "publish", fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), correlationId: `${kind}-${randomUUID().slice(0, 8)}` }, fn);
+}
+
+// Attributes everything `fn` logs to `user`. Work with no user is the system's own.
+export function withUser<T>(user: { id: number; username: string }, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), user: { id: user.id, username: user.username } }, fn);
+}
+
+// The signed-in user the current request belongs to, if any.
+export const currentUser = () => logContext.getStore()?.user ?? null;
+
+export const mediaFields = (media: MediaRow) => ({ media_id: media.id, channel_id: media.channel_id });
+
+export function writeLog(fileName: string, action: string, status: string, errorMessage: string | null = null, fields: LogFields = {}) {
+  const { user, correlationId } = logContext.getStore() ?? {};
+  const info = db.prepare(`
+    INSERT INTO logs (file_name, action, status, error_message, level, media_id, channel_id, correlation_id, context, user_id, username)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    fileName,
+    action,
+    status,
+    errorMessage,
+    fields.level || (status === "Failed" ? "error" : "info"),
+    fields.media_id ?? null,
+    fields.channel_id ?? null,
+    correlationId ?? null,
+    fields.context ? JSON.stringify(fields.context) : null,
+    user?.id ?? null,
+    user?.username ?? null,
+  );
+  publishEvent({ type: "log", data: db.prepare("SELECT * FROM logs WHERE id = ?").get(info.lastInsertRowid) as LogRow });
+}
+
+function whereClause(filters: LogFilters) {
+  const where: string[] = [];
+  const params: Record<string, unknown> = {};
+
+  if (filters.level?.length) {
+    where.push(`level IN (${filters.level.map((_, i) => `@level${i}`).join(", ")})`);
+    filters.level.forEach((level, i) => (params[`level${i}`] = level));
+  }
+  if (filters.status) {
+    where.push("status = @status");
+    params.status = filters.status;
+  }
+  if (filters.media_id) {
+    where.push("media_id = @mediaId");
+    params.mediaId = filters.media_id;
+  }
+  if (filters.channel_id) {
+    where.push("channel_id = @channelId");
+    params.channelId = filters.channel_id;
+  }
+  if (filters.user_id) {
+    where.push("user_id = @userId");
+    params.userId = filters.user_id;
+  }
+  if (filters.correlation_id) {
+    where.push("correlation_id = @correlationId");
+    params.correlationId = filters.correlation_id;
+  }
+  if (filters.q) {
+    where.push("(file_name LIKE @q OR action LIKE @q OR error_message LIKE @q)");
+    params.q = `%${filters.q}%`;
+  }
+  if (filters.from) {
+    where.push("datetime(timestamp) >= datetime(@from)");
+    params.from = filters.from;
+  }
+  if (filters.to) {
+    where.push("datetime(timestamp) <= datetime(@to)");
+    params.to = filters.to;
+  }
+  return { sql: where.length ? where.join(" AND ") : "1 = 1", params };
+}
+
+// Newest first. The cursor is the id of the last entry on the previous page;
+// ids only grow, so new entries never shift later pages.
+export function queryLogs(filters: LogFilters): LogPage {
+  const { sql, params } = whereClause(filters);
+  const { total } = db.prepare(`SELECT COUNT(*) as total FROM logs WHERE ${sql}`).get(params) as { total: number };
+
+  let paged = sql;
+  if (filters.cursor) {
+    const before = Number(filters.cursor);
+    if (!Number.isInteger(before)) throw new InvalidLogCursorError();
+    paged += " AND id < @before";
+    params.before = before;
+  }
+
+  const limit = Math.min(Math.max(Number(filters.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const rows = db.prepare(`SELECT * FROM logs WHERE ${paged} ORDER BY id DESC LIMIT @limit`).all({ ...params, limit: limit + 1 }) as LogRow[];
+  const items = rows.slice(0, limit);
+  return { items, total, next_cursor: rows.length > limit ? String(items[items.length - 1].id) : null };
+}
+
+export function exportLogs(filters: LogFilters) {
+  const { sql, params } = whereClause(filters);
+  return db.prepare(`SELECT * FROM logs WHERE ${sql} ORDER BY id DESC LIMIT ${MAX_EXPORT_ROWS}`).all(params) as LogRow[];
+}
+
+const CSV_COLUMNS: (keyof LogRow)[] = ["id", "timestamp", "level", "status", "file_name", "action", "error_message", "media_id", "channel_id", "username", "correlation_id", "context"];
+
+// File names, captions and errors are user-controlled. A leading =, +, - or @
+// (or tab/CR) would make a spreadsheet evaluate the cell as a formula, so it gets a '.
+const csvCell = (value: unknown) => {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const logsToCsv = (rows: LogRow[]) =>
+  [CSV_COLUMNS.join(","), ...rows.map(row => CSV_COLUMNS.map(column => csvCell(row[column])).join(","))].join("\n") + "\n";
+
+// Everything logged about a post and its processed versions, oldest first.
+export function mediaTimeline(mediaId: number) {
+  return db.prepare(`
+    SELECT * FROM logs WHERE media_id = ? OR media_id IN (SELECT id FROM media WHERE parent_id = ?)
+    ORDER BY id
+  `).all(mediaId, mediaId) as LogRow[];
+}
+
+// Defaults to log_retention_days, read on every run so a change in Settings
+// applies to the next prune. 0 keeps logs forever.
+export function pruneLogs(days = setting("log_retention_days")) {
+  if (days === 0) return 0;
+  const { changes } = db.prepare("DELETE FROM logs WHERE datetime(timestamp) < datetime('now', ?)").run(`-${days} days`);
+  if (changes > 0) writeLog("Logs", `Retention: pruned ${changes} entries older than ${days} days`, "Info", null, { context: { pruned: changes, days } });
+  return changes;
+}
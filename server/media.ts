@@ -0,0 +1,84 @@
+import { ApiError } from "./api";
+import { resetApproval } from "./approvals";
+import { reflowIfLeftQueue } from "./autoscheduler";
+import { db } from "./db";
+import { emitMediaChange } from "./events";
+import { mediaFields, writeLog } from "./logs";
+import type { MediaRow, MediaStatus } from "./types";
+
+export const MEDIA_STATUSES: MediaStatus[] = ["Pending", "Uploading", "Published", "Failed", "Dead Letter", "Removed", "Needs Fix", "Rejected", "Deleted"];
+
+// Every move a post can make, whoever makes it. Published and Deleted are final.
+export const STATUS_TRANSITIONS: Record<MediaStatus, MediaStatus[]> = {
+  "Pending": ["Uploading", "Needs Fix", "Rejected", "Removed", "Deleted"],
+  "Needs Fix": ["Pending", "Rejected", "Removed", "Deleted"],
+  "Rejected": ["Pending", "Needs Fix", "Removed", "Deleted"],
+  "Uploading": ["Published", "Failed", "Dead Letter"],
+  "Failed": ["Uploading", "Pending", "Dead Letter", "Removed", "Deleted"],
+  "Dead Letter": ["Pending", "Deleted"],
+  "Removed": ["Pending", "Needs Fix", "Rejected", "Deleted"],
+  "Published": [],
+  "Deleted": [],
+};
+
+// Only the publish worker moves posts into these.
+const WORKER_STATUSES: MediaStatus[] = ["Uploading", "Published", "Failed", "Dead Letter"];
+
+// Why a user can't move a post from one status to another, or null if they can.
+export function transitionError(from: MediaStatus, to: MediaStatus) {
+  if (from === to) return null;
+  if (!STATUS_TRANSITIONS[from].includes(to)) return `A ${from} post can't become ${to}`;
+  if (WORKER_STATUSES.includes(to)) return `Only the publish worker sets ${to}`;
+  // Retrying also resets the attempt count and reschedules; a bare status change wouldn't.
+  if (from === "Failed" || from === "Dead Letter") return `Use retry to put a ${from} post back in the queue`;
+  return null;
+}
+
+export interface MediaChanges {
+  caption?: string | null;
+  scheduled_time?: string | null;
+  status?: MediaStatus;
+  post_type?: MediaRow["post_type"];
+  channel_id?: number | null;
+  priority?: number;
+}
+
+const findMedia = (id: number) => db.prepare("SELECT * FROM media WHERE id = ?").get(id) as MediaRow | undefined;
+
+// Applies an edit in one UPDATE. With `version` the edit only lands if nobody
+// has changed the post since the client read it; otherwise it's refused with
+// the current row so the client can show what changed.
+export function updateMedia(id: number, changes: MediaChanges, version?: number) {
+  const media = findMedia(id);
+  if (!media) throw new ApiError(404, "not_found", "Media not found");
+  if (version !== undefined && version !== media.version) {
+    throw new ApiError(409, "version_conflict", `${media.file_name} was changed by someone else`, { media });
+  }
+  if (changes.status !== undefined) {
+    const error = transitionError(media.status, changes.status);
+    if (error) throw new ApiError(409, "invalid_transition", error, { from: media.status, to: changes.status });
+  }
+  if (changes.channel_id != null && !db.prepare("SELECT 1 FROM channels WHERE id = ?").get(changes.channel_id)) {
+    throw new ApiError(400, "invalid_input", "Channel not found", { field: "channel_id" });
+  }
+
+  const fields = (Object.keys(changes) as (keyof MediaChanges)[]).filter(key => changes[key] !== undefined);
+  if (fields.length === 0) return media;
+  const assignments = fields.map(key => `${key} = @${key}`);
+  // A hand-picked time is pinned: reflowing the queue won't move it.
+  if (fields.includes("scheduled_time")) assignments.push("auto_scheduled = 0");
+
+  const info = db.prepare(`UPDATE media SET ${assignments.join(", ")}, version = version + 1 WHERE id = @id AND version = @version`)
+    .run({ ...Object.fromEntries(fields.map(key => [key, changes[key]])), id, version: media.version });
+  // Another write slipped in between the read and the UPDATE.
+  if (info.changes === 0) throw new ApiError(409, "version_conflict", `${media.file_name} was changed by someone else`, { media: findMedia(id) });
+
+  emitMediaChange(id);
+  reflowIfLeftQueue(media, findMedia(id)!);
+  if (changes.caption !== undefined && changes.caption !== media.caption) resetApproval(id, "caption changed");
+  writeLog(media.file_name, `Edited (${fields.join(", ")})`, "Info", null, {
+    ...mediaFields(media),
+    context: Object.fromEntries(fields.map(key => [key, changes[key]])),
+  });
+  return findMedia(id)!;
+}
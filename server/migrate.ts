@@ -0,0 +1,25 @@
+import "./env";
+import { db } from "./db";
+import { migrationStatus, runMigrations } from "./migrations";
+
+// Usage: npm run migrate -- [status|up|dry-run]
+const command = process.argv[2] || "status";
+
+try {
+  if (command === "status") {
+    const status = migrationStatus(db);
+    console.log(`Schema version ${status.current} (latest ${status.latest})`);
+    for (const m of status.applied) console.log(`  applied  ${m.version}  ${m.name}  (${m.applied_at})`);
+    for (const m of status.pending) console.log(`  pending  ${m.version}  ${m.name}`);
+    if (status.current > status.latest) console.log("Database is newer than this build; the server will refuse to start.");
+  } else if (command === "up" || command === "dry-run") {
+    const applied = runMigrations(db, { dryRun: command === "dry-run" });
+    if (applied.length === 0) console.log("Nothing to migrate");
+  } else {
+    console.error(`Unknown command "${command}". Use status, up or dry-run.`);
+    process.exitCode = 1;
+  }
+} catch (e: any) {
+  console.error(e?.message || e);
+  process.exitCode = 1;
+}
@@ -0,0 +1,110 @@
+import Database from "better-sqlite3";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DowngradeError, migrations, migrationStatus, runMigrations } from "./migrations";
+
+const quiet = { log: () => {} };
+const latest = migrations[migrations.length - 1].version;
+
+// Column names of every table, to compare an upgraded database with a fresh one.
+function columnsByTable(db: Database.Database) {
+  const tables = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'media_fts%' AND name NOT LIKE 'sqlite_%'").all() as { name: string }[];
+  return Object.fromEntries(tables.map(({ name }) => [
+    name,
+    (db.prepare(`PRAGMA table_info(${name})`).all() as { name: string }[]).map(c => c.name).sort(),
+  ]));
+}
+
+// Before migrations existed each build created its tables with CREATE TABLE IF
+// NOT EXISTS, so a database keeps the shape of the build that first opened it.
+// Each entry is one of those shapes: the baseline media table plus the columns
+// that build had added.
+const LEGACY_SCHEMAS: { name: string; mediaColumns: string[]; channelTokens?: boolean }[] = [
+  { name: "baseline", mediaColumns: [] },
+  { name: "publish worker", mediaColumns: ["published_at DATETIME"] },
+  { name: "media source adapters", mediaColumns: ["published_at DATETIME", "source TEXT", "source_modified_at TEXT", "source_checksum TEXT"] },
+  { name: "Snapchat publisher", mediaColumns: ["post_type TEXT DEFAULT 'story'", "published_at DATETIME", "source TEXT", "source_modified_at TEXT", "source_checksum TEXT"], channelTokens: true },
+  {
+    name: "channel assignment",
+    mediaColumns: ["channel_id INTEGER REFERENCES channels(id)", "post_type TEXT DEFAULT 'story'", "published_at DATETIME", "source TEXT", "source_modified_at TEXT", "source_checksum TEXT"],
+    channelTokens: true,
+  },
+  {
+    name: "retry backoff",
+    mediaColumns: [
+      "channel_id INTEGER REFERENCES channels(id)", "post_type TEXT DEFAULT 'story'", "published_at DATETIME", "attempts INTEGER DEFAULT 0",
+      "next_attempt_at DATETIME", "last_error TEXT", "source TEXT", "source_modified_at TEXT", "source_checksum TEXT",
+    ],
+    channelTokens: true,
+  },
+];
+
+function legacyDatabase({ mediaColumns, channelTokens }: (typeof LEGACY_SCHEMAS)[number]) {
+  const db = new Database(":memory:");
+  db.exec(`
+    CREATE TABLE channels (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, profile_id TEXT, avatar TEXT, status TEXT DEFAULT 'Connected',
+      drive_folder_id TEXT, daily_limit INTEGER DEFAULT 10, created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE media (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, file_name TEXT, file_id TEXT UNIQUE, type TEXT, size INTEGER, aspect_ratio TEXT,
+      status TEXT DEFAULT 'Pending', caption TEXT, scheduled_time DATETIME, snapchat_link TEXT,
+      ${mediaColumns.map(column => `${column},`).join(" ")}
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE logs (id INTEGER PRIMARY KEY AUTOINCREMENT, timestamp DATETIME DEFAULT CURRENT_TIMESTAMP, file_name TEXT, action TEXT, status TEXT, error_message TEXT);
+    CREATE TABLE settings (key TEXT PRIMARY KEY, value TEXT);
+    ${channelTokens ? "CREATE TABLE channel_tokens (channel_id INTEGER PRIMARY KEY, provider TEXT, access_token TEXT, refresh_token TEXT, expires_at INTEGER, scope TEXT, updated_at DATETIME DEFAULT CURRENT_TIMESTAMP);" : ""}
+    INSERT INTO channels (name, profile_id, drive_folder_id) VALUES ('Old channel', 'p1', 'folder');
+    INSERT INTO media (file_name, file_id, type, size, status, caption) VALUES ('old.jpg', 'old-file', 'image', 10, 'Pending', 'Kept');
+  `);
+  return db;
+}
+
+describe("migrations", () => {
+  it("builds the latest schema on an empty database and is a no-op the second time", () => {
+    const db = new Database(":memory:");
+    assert.equal(runMigrations(db, quiet).length, migrations.length);
+    assert.equal(runMigrations(db, quiet).length, 0);
+    const status = migrationStatus(db);
+    assert.equal(status.current, latest);
+    assert.deepEqual(status.pending, []);
+  });
+
+  it("keeps versions unique and in order", () => {
+    migrations.forEach((migration, i) => assert.equal(migration.version, i + 1));
+  });
+
+  it("rolls everything back on a dry run", () => {
+    const db = new Database(":memory:");
+    const pending = runMigrations(db, { ...quiet, dryRun: true });
+    assert.equal(pending.length, migrations.length);
+    assert.equal(migrationStatus(db).current, 0);
+    assert.equal(db.prepare("SELECT name FROM sqlite_master WHERE name = 'media'").get(), undefined);
+  });
+
+  it("refuses a database written by a newer build", () => {
+    const db = new Database(":memory:");
+    runMigrations(db, quiet);
+    db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, 'from the future')").run(latest + 1);
+    assert.throws(() => runMigrations(db, quiet), DowngradeError);
+  });
+
+  for (const schema of LEGACY_SCHEMAS) {
+    it(`upgrades a database created by the ${schema.name} build`, () => {
+      const fresh = new Database(":memory:");
+      runMigrations(fresh, quiet);
+      const db = legacyDatabase(schema);
+
+      runMigrations(db, quiet);
+
+      assert.deepEqual(columnsByTable(db), columnsByTable(fresh));
+      const row = db.prepare("SELECT * FROM media WHERE file_id = 'old-file'").get() as Record<string, unknown>;
+      assert.equal(row.caption, "Kept");
+      assert.equal(row.post_type, "story");
+      assert.equal(row.attempts, 0);
+      // What the worker asks of every channel on each tick.
+      assert.doesNotThrow(() => db.prepare("SELECT COUNT(*) FROM media WHERE channel_id = 1 AND date(published_at) = date('now')").get());
+    });
+  }
+});
@@ -0,0 +1,472 @@
+import type Database from "better-sqlite3";
+
+type DB = Database.Database;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: DB) => void;
+}
+
+export interface MigrationStatus {
+  current: number;
+  latest: number;
+  applied: { version: number; name: string; applied_at: string }[];
+  pending: { version: number; name: string }[];
+}
+
+export class DowngradeError extends Error {}
+
+// ADD COLUMN has no IF NOT EXISTS. Databases created before migrations existed
+// may already have some of these columns, so check first.
+function addColumn(db: DB, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+// Append only. Never edit or reorder a migration once it has shipped.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS channels (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT,
+        profile_id TEXT,
+        avatar TEXT,
+        status TEXT DEFAULT 'Connected',
+        drive_folder_id TEXT,
+        daily_limit INTEGER DEFAULT 10,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS media (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_name TEXT,
+        file_id TEXT UNIQUE,
+        type TEXT,
+        size INTEGER,
+        aspect_ratio TEXT,
+        status TEXT DEFAULT 'Pending',
+        caption TEXT,
+        scheduled_time DATETIME,
+        snapchat_link TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        file_name TEXT,
+        action TEXT,
+        status TEXT,
+        error_message TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT
+      );
+    `),
+  },
+  {
+    version: 2,
+    name: "publishing, sources and channel tokens",
+    up: (db) => {
+      addColumn(db, "media", "channel_id", "INTEGER REFERENCES channels(id)");
+      addColumn(db, "media", "post_type", "TEXT DEFAULT 'story'");
+      addColumn(db, "media", "published_at", "DATETIME");
+      addColumn(db, "media", "attempts", "INTEGER DEFAULT 0");
+      addColumn(db, "media", "next_attempt_at", "DATETIME");
+      addColumn(db, "media", "last_error", "TEXT");
+      addColumn(db, "media", "source", "TEXT");
+      addColumn(db, "media", "source_modified_at", "TEXT");
+      addColumn(db, "media", "source_checksum", "TEXT");
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS channel_tokens (
+          channel_id INTEGER PRIMARY KEY,
+          provider TEXT,
+          access_token TEXT,
+          refresh_token TEXT,
+          expires_at INTEGER,
+          scope TEXT,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_media_channel_status ON media (channel_id, status);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "media probe results",
+    up: (db) => {
+      addColumn(db, "media", "width", "INTEGER");
+      addColumn(db, "media", "height", "INTEGER");
+      addColumn(db, "media", "duration", "REAL");
+      addColumn(db, "media", "codec", "TEXT");
+      addColumn(db, "media", "bitrate", "INTEGER");
+      addColumn(db, "media", "spec_issues", "TEXT");
+    },
+  },
+  {
+    version: 4,
+    name: "derived media",
+    up: (db) => {
+      addColumn(db, "media", "parent_id", "INTEGER REFERENCES media(id)");
+      addColumn(db, "media", "transform", "TEXT");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_media_parent ON media (parent_id)");
+    },
+  },
+  {
+    version: 5,
+    name: "media thumbnails",
+    up: (db) => addColumn(db, "media", "thumbnail_updated_at", "DATETIME"),
+  },
+  {
+    version: 6,
+    name: "channel caption prompt",
+    up: (db) => addColumn(db, "channels", "caption_prompt", "TEXT"),
+  },
+  {
+    version: 7,
+    name: "caption templates and hashtag sets",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS caption_templates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          body TEXT NOT NULL,
+          channel_id INTEGER REFERENCES channels(id),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS hashtag_sets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          channel_id INTEGER NOT NULL REFERENCES channels(id),
+          tags TEXT NOT NULL,
+          cta TEXT,
+          position INTEGER DEFAULT 0
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_hashtag_sets_channel ON hashtag_sets (channel_id, position);
+      `);
+      addColumn(db, "channels", "default_template_id", "INTEGER REFERENCES caption_templates(id)");
+      addColumn(db, "channels", "template_fields", "TEXT");
+      addColumn(db, "channels", "hashtag_cursor", "INTEGER DEFAULT 0");
+    },
+  },
+  {
+    version: 8,
+    name: "posting windows and auto-scheduling",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS posting_windows (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          channel_id INTEGER NOT NULL REFERENCES channels(id),
+          days TEXT NOT NULL DEFAULT '1,2,3,4,5',
+          start_time TEXT NOT NULL,
+          end_time TEXT NOT NULL,
+          slots INTEGER NOT NULL DEFAULT 1,
+          min_spacing_minutes INTEGER NOT NULL DEFAULT 60
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_posting_windows_channel ON posting_windows (channel_id);
+      `);
+      addColumn(db, "channels", "timezone", "TEXT DEFAULT 'UTC'");
+      addColumn(db, "channels", "schedule_order", "TEXT DEFAULT 'fifo'");
+      addColumn(db, "media", "priority", "INTEGER DEFAULT 0");
+      addColumn(db, "media", "auto_scheduled", "INTEGER DEFAULT 0");
+    },
+  },
+  {
+    version: 9,
+    name: "media search and tags",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS media_tags (
+        media_id INTEGER NOT NULL REFERENCES media(id),
+        tag TEXT NOT NULL,
+        PRIMARY KEY (media_id, tag)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_media_tags_tag ON media_tags (tag);
+      CREATE INDEX IF NOT EXISTS idx_media_created ON media (created_at, id);
+
+      -- Full-text index over file names and captions, kept in step with media by triggers.
+      CREATE VIRTUAL TABLE IF NOT EXISTS media_fts USING fts5(file_name, caption, content='media', content_rowid='id');
+      INSERT INTO media_fts(media_fts) VALUES ('rebuild');
+
+      CREATE TRIGGER IF NOT EXISTS media_fts_insert AFTER INSERT ON media BEGIN
+        INSERT INTO media_fts (rowid, file_name, caption) VALUES (new.id, new.file_name, new.caption);
+      END;
+      CREATE TRIGGER IF NOT EXISTS media_fts_delete AFTER DELETE ON media BEGIN
+        INSERT INTO media_fts (media_fts, rowid, file_name, caption) VALUES ('delete', old.id, old.file_name, old.caption);
+      END;
+      CREATE TRIGGER IF NOT EXISTS media_fts_update AFTER UPDATE OF file_name, caption ON media BEGIN
+        INSERT INTO media_fts (media_fts, rowid, file_name, caption) VALUES ('delete', old.id, old.file_name, old.caption);
+        INSERT INTO media_fts (rowid, file_name, caption) VALUES (new.id, new.file_name, new.caption);
+      END;
+    `),
+  },
+  {
+    version: 10,
+    name: "structured logs",
+    up: (db) => {
+      addColumn(db, "logs", "level", "TEXT DEFAULT 'info'");
+      addColumn(db, "logs", "media_id", "INTEGER REFERENCES media(id)");
+      addColumn(db, "logs", "channel_id", "INTEGER REFERENCES channels(id)");
+      addColumn(db, "logs", "correlation_id", "TEXT");
+      addColumn(db, "logs", "context", "TEXT");
+      db.exec(`
+        UPDATE logs SET level = 'error' WHERE status = 'Failed';
+
+        CREATE INDEX IF NOT EXISTS idx_logs_timestamp ON logs (timestamp);
+        CREATE INDEX IF NOT EXISTS idx_logs_media ON logs (media_id);
+        CREATE INDEX IF NOT EXISTS idx_logs_correlation ON logs (correlation_id);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: "users and sessions",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          display_name TEXT NOT NULL,
+          password_hash TEXT NOT NULL,
+          role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor', 'admin')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_login_at DATETIME
+        );
+
+        CREATE TABLE IF NOT EXISTS sessions (
+          token_hash TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          expires_at DATETIME NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions (user_id);
+      `);
+      addColumn(db, "logs", "user_id", "INTEGER REFERENCES users(id)");
+      addColumn(db, "logs", "username", "TEXT");
+    },
+  },
+  {
+    version: 12,
+    name: "approval workflow",
+    up: (db) => {
+      addColumn(db, "channels", "requires_approval", "INTEGER DEFAULT 0");
+      addColumn(db, "media", "approval_status", "TEXT");
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS approval_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          media_id INTEGER NOT NULL REFERENCES media(id),
+          action TEXT NOT NULL,
+          from_status TEXT,
+          to_status TEXT,
+          comment TEXT,
+          user_id INTEGER REFERENCES users(id),
+          username TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_approval_events_media ON approval_events (media_id, id);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: "media row versions",
+    up: (db) => {
+      addColumn(db, "media", "version", "INTEGER NOT NULL DEFAULT 1");
+      // Any write that doesn't bump the version itself (worker, scanner, bulk
+      // actions, ...) gets bumped here, so a stale editor always notices.
+      // Recursive triggers are off, so the inner UPDATE doesn't fire this again.
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS media_version_bump AFTER UPDATE ON media WHEN NEW.version = OLD.version BEGIN
+          UPDATE media SET version = OLD.version + 1 WHERE id = NEW.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: "channel pause and health",
+    up: (db) => {
+      addColumn(db, "channels", "paused", "INTEGER NOT NULL DEFAULT 0");
+      addColumn(db, "channels", "health_checked_at", "DATETIME");
+      addColumn(db, "channels", "health_error", "TEXT");
+      db.exec("UPDATE channels SET status = 'Token Expired' WHERE status = 'Expired'");
+    },
+  },
+  {
+    version: 15,
+    name: "publish attempts",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS publish_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        media_id INTEGER NOT NULL REFERENCES media(id),
+        channel_id INTEGER,
+        outcome TEXT NOT NULL,
+        error TEXT,
+        attempted_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_publish_attempts_day ON publish_attempts (attempted_at, channel_id);
+
+      -- Published posts from before published_at was always set get the time their publish was logged.
+      UPDATE media SET published_at = (
+        SELECT MAX(timestamp) FROM logs WHERE logs.media_id = media.id AND logs.action = 'Published'
+      ) WHERE status = 'Published' AND published_at IS NULL;
+
+      -- Past outcomes, as far back as the logs still go.
+      INSERT INTO publish_attempts (media_id, channel_id, outcome, error, attempted_at)
+      SELECT logs.media_id, media.channel_id,
+        CASE WHEN logs.action = 'Published' THEN 'published' WHEN logs.action LIKE 'Moved to Dead Letter%' THEN 'dead_letter' ELSE 'failed' END,
+        logs.error_message, logs.timestamp
+      FROM logs JOIN media ON media.id = logs.media_id
+      WHERE logs.action = 'Published' OR logs.action LIKE 'Publish Failed%' OR logs.action LIKE 'Moved to Dead Letter%' OR logs.action = 'Publish Interrupted'
+      ORDER BY logs.id;
+    `),
+  },
+  {
+    version: 16,
+    name: "notifications and webhooks",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        kind TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        title TEXT NOT NULL,
+        message TEXT,
+        media_id INTEGER REFERENCES media(id),
+        channel_id INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_notifications_kind ON notifications (kind, channel_id, created_at);
+
+      -- Read state is per user; a notification nobody has opened has no rows here.
+      CREATE TABLE IF NOT EXISTS notification_reads (
+        notification_id INTEGER NOT NULL REFERENCES notifications(id),
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        read_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (notification_id, user_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        url TEXT NOT NULL,
+        format TEXT NOT NULL DEFAULT 'json' CHECK (format IN ('json', 'slack')),
+        secret TEXT,
+        kinds TEXT,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        webhook_id INTEGER NOT NULL REFERENCES webhooks(id),
+        notification_id INTEGER REFERENCES notifications(id),
+        event TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at DATETIME,
+        response_status INTEGER,
+        error TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        delivered_at DATETIME
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries (webhook_id, id);
+    `),
+  },
+  {
+    version: 17,
+    name: "content hashes and duplicates",
+    up: (db) => {
+      addColumn(db, "media", "content_hash", "TEXT");
+      addColumn(db, "media", "perceptual_hash", "TEXT");
+      addColumn(db, "media", "duplicate_of", "INTEGER REFERENCES media(id)");
+      addColumn(db, "media", "duplicate_kind", "TEXT");
+      addColumn(db, "media", "duplicate_distance", "INTEGER");
+      addColumn(db, "media", "duplicate_status", "TEXT");
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_media_content_hash ON media (channel_id, content_hash);
+        CREATE INDEX IF NOT EXISTS idx_media_duplicate_status ON media (duplicate_status);
+      `);
+    },
+  },
+];
+
+const latestVersion = () => migrations[migrations.length - 1].version;
+
+function ensureMigrationsTable(db: DB) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+}
+
+export function migrationStatus(db: DB): MigrationStatus {
+  ensureMigrationsTable(db);
+  const applied = db.prepare("SELECT version, name, applied_at FROM schema_migrations ORDER BY version").all() as MigrationStatus["applied"];
+  const appliedVersions = new Set(applied.map(m => m.version));
+  return {
+    current: applied.length ? applied[applied.length - 1].version : 0,
+    latest: latestVersion(),
+    applied,
+    pending: migrations.filter(m => !appliedVersions.has(m.version)).map(({ version, name }) => ({ version, name })),
+  };
+}
+
+// Applies every pending migration, each in its own transaction. Refuses to run
+// against a database written by a newer build, since we can't know what its
+// extra migrations changed. With dryRun everything runs inside one transaction
+// that is rolled back at the end.
+export function runMigrations(db: DB, { dryRun = false, log = console.log } = {}) {
+  const status = migrationStatus(db);
+  if (status.current > status.latest) {
+    throw new DowngradeError(`Database is at schema version ${status.current} but this build only knows up to ${status.latest}. Refusing to start.`);
+  }
+
+  const pending = migrations.filter(m => status.pending.some(p => p.version === m.version));
+  const apply = (migration: Migration) => {
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, ?)").run(migration.version, migration.name);
+      })();
+    } catch (e) {
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${(e as Error).message}`);
+    }
+    log(`${dryRun ? "Would apply" : "Applied"} migration ${migration.version}: ${migration.name}`);
+  };
+
+  if (!dryRun) {
+    pending.forEach(apply);
+    return pending;
+  }
+
+  const rollback = new Error("dry run rollback");
+  try {
+    db.transaction(() => {
+      pending.forEach(apply);
+      throw rollback;
+    })();
+  } catch (e) {
+    if (e !== rollback) throw e;
+  }
+  return pending;
+}
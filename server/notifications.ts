@@ -0,0 +1,102 @@
+import { runwayFor } from "./analytics";
+import { db } from "./db";
+import { publishEvent } from "./events";
+import { setting } from "./settings";
+import type { ChannelRow, NotificationKind, NotificationRow } from "./types";
+import { enqueueDeliveries } from "./webhooks";
+
+export const NOTIFICATION_KINDS: NotificationKind[] = ["publish_failed", "dead_letter", "token_expired", "low_runway", "empty_scan", "duplicate"];
+
+export interface NewNotification {
+  kind: NotificationKind;
+  severity: NotificationRow["severity"];
+  title: string;
+  message?: string | null;
+  media_id?: number | null;
+  channel_id?: number | null;
+}
+
+export interface NotificationView extends NotificationRow {
+  read: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 30;
+
+// Records a notification, pushes it to open dashboards and queues it for
+// webhooks. With `quietHours`, nothing is recorded if the same kind already
+// fired for the same channel within that many hours, for conditions that
+// are re-checked on a timer and would otherwise repeat every pass.
+export function notify(notification: NewNotification, { quietHours }: { quietHours?: number } = {}) {
+  const channelId = notification.channel_id ?? null;
+  if (quietHours && db.prepare(`
+    SELECT 1 FROM notifications WHERE kind = ? AND channel_id IS ? AND datetime(created_at) > datetime('now', ?)
+  `).get(notification.kind, channelId, `-${quietHours} hours`)) return null;
+
+  const info = db.prepare("INSERT INTO notifications (kind, severity, title, message, media_id, channel_id) VALUES (?, ?, ?, ?, ?, ?)")
+    .run(notification.kind, notification.severity, notification.title, notification.message ?? null, notification.media_id ?? null, channelId);
+  const row = db.prepare("SELECT * FROM notifications WHERE id = ?").get(info.lastInsertRowid) as NotificationRow;
+  publishEvent({ type: "notification", data: row });
+  try {
+    enqueueDeliveries(row);
+  } catch (e) {
+    // A webhook problem mustn't break the publish or scan that raised the notification.
+    console.error("Failed to queue webhook deliveries", e);
+  }
+  return row;
+}
+
+export function listNotifications(userId: number, { unread = false, limit = DEFAULT_PAGE_SIZE }: { unread?: boolean; limit?: number } = {}) {
+  const items = db.prepare(`
+    SELECT notifications.*, notification_reads.user_id IS NOT NULL as read FROM notifications
+    LEFT JOIN notification_reads ON notification_reads.notification_id = notifications.id AND notification_reads.user_id = @userId
+    ${unread ? "WHERE notification_reads.user_id IS NULL" : ""}
+    ORDER BY notifications.id DESC LIMIT @limit
+  `).all({ userId, limit }) as (NotificationRow & { read: number })[];
+  return { items: items.map(item => ({ ...item, read: !!item.read })) as NotificationView[], unread: unreadCount(userId) };
+}
+
+export const unreadCount = (userId: number) => (db.prepare(`
+  SELECT COUNT(*) as count FROM notifications
+  WHERE NOT EXISTS (SELECT 1 FROM notification_reads WHERE notification_id = notifications.id AND user_id = ?)
+`).get(userId) as { count: number }).count;
+
+// Marks the given notifications read for one user, or all of them without ids.
+export function markRead(userId: number, ids?: number[]) {
+  const scope = ids ? `id IN (${ids.map(() => "?").join(", ")})` : "1 = 1";
+  db.prepare(`INSERT OR IGNORE INTO notification_reads (notification_id, user_id) SELECT id, ? FROM notifications WHERE ${scope}`)
+    .run(userId, ...(ids ?? []));
+  return unreadCount(userId);
+}
+
+// Warns once a day per channel when its queue will run dry within low_runway_days
+// at the current pace. Paused and disconnected channels aren't draining, so
+// their runway says nothing.
+export function checkRunways() {
+  const days = setting("low_runway_days");
+  if (days <= 0) return;
+  for (const channel of db.prepare("SELECT * FROM channels WHERE status = 'Connected' AND paused = 0").all() as ChannelRow[]) {
+    const runway = runwayFor(channel);
+    if (runway.days_left === null || runway.days_left >= days) continue;
+    notify({
+      kind: "low_runway",
+      severity: "warning",
+      title: runway.queued === 0 ? `${channel.name} has nothing left to post` : `${channel.name} runs out of posts in ${runway.days_left} day(s)`,
+      message: `${runway.queued} post(s) queued at about ${runway.per_day} a day. Add media to the channel folder to keep it going.`,
+      channel_id: channel.id,
+    }, { quietHours: 24 });
+  }
+}
+
+const RUNWAY_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+export function startRunwayChecks() {
+  const check = () => {
+    try {
+      checkRunways();
+    } catch (e) {
+      console.error("Runway check failed", e);
+    }
+  };
+  check();
+  return setInterval(check, RUNWAY_CHECK_INTERVAL_MS);
+}
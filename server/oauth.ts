@@ -0,0 +1,53 @@
+import crypto from "crypto";
+import { db } from "./db";
+import { emitChannelChange } from "./events";
+import { writeLog } from "./logs";
+import type { Publisher } from "./publishers/types";
+import { setting } from "./settings";
+import { saveTokens } from "./tokens";
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+// Pending authorizations keyed by OAuth state. channelId is null when the
+// connect flow should create a new channel.
+const pendingStates = new Map<string, { channelId: number | null; expiresAt: number }>();
+
+export function redirectUri() {
+  const base = (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+  return `${base}/api/snapchat/callback`;
+}
+
+export function beginConnect(publisher: Publisher, channelId: number | null) {
+  const state = crypto.randomBytes(16).toString("hex");
+  const now = Date.now();
+  for (const [key, value] of pendingStates) {
+    if (value.expiresAt < now) pendingStates.delete(key);
+  }
+  pendingStates.set(state, { channelId, expiresAt: now + STATE_TTL_MS });
+  return publisher.getAuthorizeUrl(state, redirectUri());
+}
+
+export async function completeConnect(publisher: Publisher, state: string, code: string) {
+  const pending = pendingStates.get(state);
+  pendingStates.delete(state);
+  if (!pending || pending.expiresAt < Date.now()) throw new Error("Authorization request expired, please try again");
+
+  const tokens = await publisher.exchangeCode(code, redirectUri());
+  const profile = await publisher.getProfile(tokens.accessToken);
+
+  let channelId = pending.channelId;
+  if (channelId === null) {
+    const existing = db.prepare("SELECT id FROM channels WHERE profile_id = ?").get(profile.id) as { id: number } | undefined;
+    channelId = existing
+      ? existing.id
+      : Number(db.prepare("INSERT INTO channels (name, profile_id, avatar, timezone) VALUES (?, ?, ?, ?)")
+          .run(profile.displayName, profile.id, profile.avatarUrl, setting("default_timezone")).lastInsertRowid);
+  }
+
+  db.prepare("UPDATE channels SET profile_id = ?, avatar = COALESCE(?, avatar), name = COALESCE(NULLIF(name, ''), ?), status = 'Connected', health_error = NULL WHERE id = ?")
+    .run(profile.id, profile.avatarUrl, profile.displayName, channelId);
+  saveTokens(channelId, publisher.kind, tokens);
+  emitChannelChange(channelId);
+  writeLog(profile.displayName, "Channel Connected", "Success", null, { channel_id: channelId });
+  return channelId;
+}
@@ -0,0 +1,60 @@
+import { execFile } from "child_process";
+import fs from "fs/promises";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+export interface ProbeResult {
+  width: number | null;
+  height: number | null;
+  // Seconds. Null for still images.
+  duration: number | null;
+  codec: string | null;
+  bitrate: number | null;
+  size: number;
+  hasAudio: boolean;
+}
+
+// Codecs ffprobe reports for still images. Everything else with a video stream is treated as video.
+const IMAGE_CODECS = ["mjpeg", "png", "webp", "gif", "bmp", "tiff", "heic", "hevc_image"];
+
+export function isImageCodec(codec: string | null) {
+  return !!codec && IMAGE_CODECS.includes(codec);
+}
+
+export async function probeFile(filePath: string, ffprobePath = process.env.FFPROBE_PATH || "ffprobe"): Promise<ProbeResult> {
+  const { size } = await fs.stat(filePath);
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(ffprobePath, [
+      "-v", "error",
+      "-print_format", "json",
+      "-show_format",
+      "-show_streams",
+      filePath,
+    ], { timeout: 30000, maxBuffer: 10 * 1024 * 1024 }));
+  } catch (e: any) {
+    if (e?.code === "ENOENT") throw new Error(`ffprobe not found at "${ffprobePath}"`);
+    throw new Error(`ffprobe could not read the file: ${(e?.stderr || e?.message || "").trim()}`);
+  }
+
+  const data = JSON.parse(stdout);
+  const streams: any[] = data.streams || [];
+  const video = streams.find(s => s.codec_type === "video");
+  const duration = Number(video?.duration ?? data.format?.duration);
+  const bitrate = Number(data.format?.bit_rate ?? video?.bit_rate);
+
+  // Phone footage is often stored landscape with a rotation flag; report what the viewer sees.
+  const rotation = Math.abs(Number(video?.tags?.rotate ?? video?.side_data_list?.find((d: any) => d.rotation !== undefined)?.rotation ?? 0));
+  const rotated = rotation === 90 || rotation === 270;
+
+  return {
+    width: video ? (rotated ? video.height : video.width) : null,
+    height: video ? (rotated ? video.width : video.height) : null,
+    duration: video && !isImageCodec(video.codec_name) && Number.isFinite(duration) ? duration : null,
+    codec: video?.codec_name || null,
+    bitrate: Number.isFinite(bitrate) ? bitrate : null,
+    size,
+    hasAudio: streams.some(s => s.codec_type === "audio"),
+  };
+}
@@ -0,0 +1,25 @@
+import { db } from "./db";
+import type { Publisher } from "./publishers";
+import { fetchMediaFile } from "./sources";
+import { getAccessToken } from "./tokens";
+import type { ChannelRow } from "./types";
+import type { PublishFn } from "./worker";
+
+// Uploads a media row to Snapchat and creates the story or spotlight post.
+export function createSnapchatPublish(publisher: Publisher): PublishFn {
+  return async (media) => {
+    const channel = db.prepare("SELECT * FROM channels WHERE id = ?").get(media.channel_id) as ChannelRow | undefined;
+    if (!channel) throw new Error("Media is not assigned to a channel");
+
+    const accessToken = await getAccessToken(channel.id, publisher);
+    const filePath = await fetchMediaFile(media);
+    const { mediaId } = await publisher.uploadMedia(accessToken, channel.profile_id, filePath, media.type);
+    const post = await publisher.createPost(accessToken, {
+      profileId: channel.profile_id,
+      mediaId,
+      caption: media.caption,
+      postType: media.post_type || "story",
+    });
+    return { snapchat_link: post.link };
+  };
+}
@@ -0,0 +1,21 @@
+import { createMockPublisher } from "./mock";
+import { createSnapchatPublisher } from "./snapchat";
+import type { Publisher } from "./types";
+import { createUnconfiguredPublisher } from "./unconfigured";
+
+export type { Publisher, PostType, TokenSet } from "./types";
+export { AuthRevokedError, PublisherHttpError, PublisherNotConfiguredError } from "./types";
+
+// SNAPCHAT_PUBLISHER=mock opts into the local mock. Without Snapchat
+// credentials nothing gets published: the mock would mark posts Published
+// without them going anywhere.
+export function createPublisherFromEnv(env: NodeJS.ProcessEnv = process.env): Publisher {
+  if (env.SNAPCHAT_PUBLISHER === "mock") return createMockPublisher();
+  if (!env.SNAPCHAT_CLIENT_ID || !env.SNAPCHAT_CLIENT_SECRET) return createUnconfiguredPublisher();
+  return createSnapchatPublisher({
+    clientId: env.SNAPCHAT_CLIENT_ID,
+    clientSecret: env.SNAPCHAT_CLIENT_SECRET,
+    authUrl: env.SNAPCHAT_AUTH_URL,
+    apiUrl: env.SNAPCHAT_API_URL,
+  });
+}
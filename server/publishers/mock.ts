@@ -0,0 +1,46 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import { AuthRevokedError, type Publisher } from "./types";
+
+// Stands in for Snapchat during development and tests. Authorization redirects
+// straight back to our callback, tokens are random and expire quickly so the
+// refresh path gets exercised, and uploads only check the file exists.
+export function createMockPublisher({ tokenTtlMs = 5 * 60 * 1000 } = {}): Publisher {
+  const issueTokens = () => ({
+    accessToken: `mock_access_${crypto.randomUUID()}`,
+    refreshToken: `mock_refresh_${crypto.randomUUID()}`,
+    expiresAt: Date.now() + tokenTtlMs,
+  });
+
+  return {
+    kind: "mock",
+
+    getAuthorizeUrl(state, redirectUri) {
+      return `${redirectUri}?${new URLSearchParams({ code: `mock_code_${crypto.randomUUID()}`, state })}`;
+    },
+
+    async exchangeCode(code) {
+      if (!code.startsWith("mock_code_")) throw new AuthRevokedError("Invalid mock authorization code");
+      return issueTokens();
+    },
+
+    async refresh(refreshToken) {
+      if (!refreshToken.startsWith("mock_refresh_")) throw new AuthRevokedError("Invalid mock refresh token");
+      return issueTokens();
+    },
+
+    async getProfile() {
+      return { id: "mock-profile", displayName: "Mock Snapchat Profile", avatarUrl: null };
+    },
+
+    async uploadMedia(accessToken, profileId, filePath) {
+      await fs.access(filePath);
+      return { mediaId: `mock_media_${crypto.randomUUID()}` };
+    },
+
+    async createPost(accessToken, { profileId, mediaId, postType }) {
+      const postId = mediaId.replace("mock_media_", "");
+      return { postId, link: `https://www.snapchat.com/${postType === "spotlight" ? "spotlight" : "add"}/${profileId}?mock=${postId}` };
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import fs from "fs/promises";
+import path from "path";
+import { AuthRevokedError, PublisherHttpError, type Publisher, type TokenSet } from "./types";
+
+export interface SnapchatPublisherOptions {
+  clientId: string;
+  clientSecret: string;
+  authUrl?: string;
+  apiUrl?: string;
+}
+
+const SCOPES = ["snapchat-marketing-api", "snapchat-profile-api"];
+
+export function createSnapchatPublisher(options: SnapchatPublisherOptions): Publisher {
+  const authUrl = (options.authUrl || "https://accounts.snapchat.com/login/oauth2").replace(/\/$/, "");
+  const apiUrl = (options.apiUrl || "https://businessapi.snapchat.com").replace(/\/$/, "");
+
+  const tokenRequest = async (params: Record<string, string>): Promise<TokenSet> => {
+    const res = await fetch(`${authUrl}/access_token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ client_id: options.clientId, client_secret: options.clientSecret, ...params }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (res.status === 400 || res.status === 401) throw new AuthRevokedError(data.error_description || "Snapchat rejected the grant");
+    if (!res.ok) throw new PublisherHttpError(`Snapchat token request failed (${res.status})`, res.status);
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || params.refresh_token || null,
+      expiresAt: Date.now() + (data.expires_in || 1800) * 1000,
+      scope: data.scope,
+    };
+  };
+
+  const api = async (accessToken: string, pathname: string, init: RequestInit = {}) => {
+    const res = await fetch(`${apiUrl}${pathname}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${accessToken}`, ...(init.headers || {}) },
+    });
+    if (res.status === 401) throw new AuthRevokedError("Snapchat access token was rejected");
+    if (!res.ok) throw new PublisherHttpError(`Snapchat request ${pathname} failed (${res.status}): ${await res.text()}`, res.status);
+    return res.json();
+  };
+
+  return {
+    kind: "snapchat",
+
+    getAuthorizeUrl(state, redirectUri) {
+      const params = new URLSearchParams({
+        client_id: options.clientId,
+        redirect_uri: redirectUri,
+        response_type: "code",
+        scope: SCOPES.join(" "),
+        state,
+      });
+      return `${authUrl}/authorize?${params}`;
+    },
+
+    exchangeCode(code, redirectUri) {
+      return tokenRequest({ grant_type: "authorization_code", code, redirect_uri: redirectUri });
+    },
+
+    refresh(refreshToken) {
+      return tokenRequest({ grant_type: "refresh_token", refresh_token: refreshToken });
+    },
+
+    async getProfile(accessToken) {
+      const data = await api(accessToken, "/v1/me/public_profiles");
+      const profile = data.public_profiles?.[0]?.public_profile;
+      if (!profile) throw new Error("Snapchat account has no public profile");
+      return { id: profile.id, displayName: profile.display_name, avatarUrl: profile.logo_url || null };
+    },
+
+    async uploadMedia(accessToken, profileId, filePath, type) {
+      const form = new FormData();
+      form.append("type", type === "video" ? "VIDEO" : "IMAGE");
+      form.append("file", new Blob([await fs.readFile(filePath)]), path.basename(filePath));
+      const data = await api(accessToken, `/v1/public_profiles/${profileId}/media`, { method: "POST", body: form });
+      return { mediaId: data.media.id };
+    },
+
+    async createPost(accessToken, { profileId, mediaId, caption, postType }) {
+      const endpoint = postType === "spotlight" ? "spotlights" : "stories";
+      const data = await api(accessToken, `/v1/public_profiles/${profileId}/${endpoint}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ media_id: mediaId, description: caption || "" }),
+      });
+      const post = data[postType === "spotlight" ? "spotlight" : "story"];
+      return { postId: post.id, link: post.share_url || `https://www.snapchat.com/add/${profileId}` };
+    },
+  };
+}
@@ -0,0 +1,49 @@
+export type PostType = "story" | "spotlight";
+
+export interface TokenSet {
+  accessToken: string;
+  refreshToken: string | null;
+  // Epoch milliseconds.
+  expiresAt: number;
+  scope?: string;
+}
+
+export interface PublisherProfile {
+  id: string;
+  displayName: string;
+  avatarUrl: string | null;
+}
+
+export interface CreatePostInput {
+  profileId: string;
+  mediaId: string;
+  caption: string | null;
+  postType: PostType;
+}
+
+export interface Publisher {
+  kind: string;
+  getAuthorizeUrl(state: string, redirectUri: string): string;
+  exchangeCode(code: string, redirectUri: string): Promise<TokenSet>;
+  refresh(refreshToken: string): Promise<TokenSet>;
+  getProfile(accessToken: string): Promise<PublisherProfile>;
+  uploadMedia(accessToken: string, profileId: string, filePath: string, type: string): Promise<{ mediaId: string }>;
+  createPost(accessToken: string, input: CreatePostInput): Promise<{ postId: string; link: string }>;
+}
+
+// Thrown when the account's grant is no longer usable and the user has to reconnect.
+export class AuthRevokedError extends Error {}
+
+export class PublisherNotConfiguredError extends Error {
+  code = "not_configured";
+  constructor() {
+    super("Snapchat credentials are not set, add them in Settings");
+  }
+}
+
+// A non-2xx response from the platform API. The status decides whether a retry can help.
+export class PublisherHttpError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
@@ -0,0 +1,20 @@
+import { PublisherNotConfiguredError, type Publisher } from "./types";
+
+// Used when no Snapchat credentials are set. Nothing can be posted, so every
+// call fails and the worker leaves the queue alone until credentials arrive.
+export function createUnconfiguredPublisher(): Publisher {
+  const fail = async (): Promise<never> => {
+    throw new PublisherNotConfiguredError();
+  };
+  return {
+    kind: "none",
+    getAuthorizeUrl() {
+      throw new PublisherNotConfiguredError();
+    },
+    exchangeCode: fail,
+    refresh: fail,
+    getProfile: fail,
+    uploadMedia: fail,
+    createPost: fail,
+  };
+}
@@ -0,0 +1,39 @@
+import { AuthRevokedError, PublisherHttpError } from "./publishers/types";
+import { setting } from "./settings";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  factor: number;
+}
+
+// Read on every failure, so changes in Settings apply to the next retry.
+export function retryPolicyFromSettings(): RetryPolicy {
+  return {
+    maxAttempts: setting("retry_max_attempts"),
+    baseDelayMs: setting("retry_base_delay_seconds") * 1000,
+    maxDelayMs: setting("retry_max_delay_seconds") * 1000,
+    factor: setting("retry_backoff_factor"),
+  };
+}
+
+// Delay before the next try after `attempts` failures: base * factor^(attempts - 1),
+// capped, with up to 10% jitter so a burst of failures doesn't retry in lockstep.
+export function retryDelayMs(policy: RetryPolicy, attempts: number) {
+  const delay = Math.min(policy.baseDelayMs * Math.pow(policy.factor, Math.max(0, attempts - 1)), policy.maxDelayMs);
+  return Math.round(delay * (1 + Math.random() * 0.1));
+}
+
+const RETRYABLE_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE", "UND_ERR_SOCKET"];
+
+// Permanent errors won't succeed no matter how often we retry: the request was
+// rejected as invalid, the file is gone, or the account needs reconnecting.
+export function isRetryable(e: any) {
+  if (e instanceof AuthRevokedError) return false;
+  if (e instanceof PublisherHttpError) return e.status === 408 || e.status === 429 || e.status >= 500;
+  if (e?.code === "ENOENT") return false;
+  if (RETRYABLE_CODES.includes(e?.code) || RETRYABLE_CODES.includes(e?.cause?.code)) return true;
+  // Anything we can't classify (including fetch's network TypeErrors) is assumed transient.
+  return true;
+}
@@ -0,0 +1,60 @@
+import fs from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import os from "os";
+import path from "path";
+import { db } from "./db";
+import { scanChannels } from "./scanner";
+import { addChannel, findMedia, setupTestDb } from "./test-helpers";
+
+// A Drive stub with one image in each of two folders. The changes feed, like
+// Drive's, covers the whole account: it reports an edit to folder-b's file.
+const FILES = [
+  { id: "a-file", name: "a.jpg", mimeType: "image/jpeg", size: "4", modifiedTime: "2026-01-01T00:00:00.000Z", parents: ["folder-a"] },
+  { id: "b-file", name: "b.jpg", mimeType: "image/jpeg", size: "4", modifiedTime: "2026-01-01T00:00:00.000Z", parents: ["folder-b"] },
+];
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url!, "http://stub");
+  const json = (body: unknown) => res.setHeader("Content-Type", "application/json").end(JSON.stringify(body));
+  if (url.pathname === "/token") return json({ access_token: "token", expires_in: 3600 });
+  if (url.pathname === "/drive/changes/startPageToken") return json({ startPageToken: "1" });
+  if (url.pathname === "/drive/changes") {
+    return json({ newStartPageToken: "2", changes: [{ fileId: "b-file", removed: false, file: { ...FILES[1], modifiedTime: "2026-01-02T00:00:00.000Z" } }] });
+  }
+  if (url.pathname === "/drive/files") return json({ files: FILES.filter(file => url.searchParams.get("q")!.includes(`'${file.parents[0]}'`)) });
+  res.end("jpeg");
+});
+const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "scanner-test-"));
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  Object.assign(process.env, {
+    GOOGLE_CLIENT_ID: "id", GOOGLE_CLIENT_SECRET: "secret", GOOGLE_REFRESH_TOKEN: "refresh",
+    GOOGLE_DRIVE_API_URL: `${base}/drive`, GOOGLE_OAUTH_TOKEN_URL: `${base}/token`, MEDIA_CACHE_DIR: cacheDir,
+  });
+  setupTestDb();
+});
+after(() => {
+  server.close();
+  fs.rmSync(cacheDir, { recursive: true });
+});
+
+describe("source scan", () => {
+  it("only removes posts from the folder being scanned", async () => {
+    const a = addChannel({ drive_folder_id: "folder-a" });
+    const b = addChannel({ drive_folder_id: "folder-b" });
+    await scanChannels();
+    const bMedia = db.prepare("SELECT id FROM media WHERE file_id = 'drive:b-file'").pluck().get() as number;
+    db.prepare("UPDATE media SET status = 'Pending' WHERE id = ?").run(bMedia);
+
+    const { results, errors } = await scanChannels(a.id);
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(results[0].removed, []);
+    assert.equal(findMedia(bMedia).status, "Pending");
+    assert.equal(findMedia(bMedia).channel_id, b.id);
+  });
+});
@@ -0,0 +1,241 @@
+import { resetApproval } from "./approvals";
+import { reflowQueue } from "./autoscheduler";
+import { db } from "./db";
+import { fingerprintMedia, flagIfDuplicate } from "./duplicates";
+import { emitMediaChange, publishEvent } from "./events";
+import { withCorrelation, writeLog } from "./logs";
+import { inspectMedia, type InspectionResult } from "./ingest";
+import { updateMedia } from "./media";
+import { notify } from "./notifications";
+import { getSetting, setSetting, setting } from "./settings";
+import { generateThumbnail } from "./thumbnails";
+import { autoTransformEnabled, findDerived, transformMedia } from "./transform";
+import { createSourceForChannel, type SourceFile } from "./sources";
+import { aspectRatioLabel } from "./spec";
+import { applyDefaultTemplate } from "./templates";
+import type { ChannelRow, MediaRow } from "./types";
+
+export interface ScanItem {
+  id: number;
+  file_name: string;
+}
+
+export interface ScanResult {
+  channel_id: number;
+  source: string;
+  full: boolean;
+  added: ScanItem[];
+  modified: ScanItem[];
+  removed: ScanItem[];
+  unchanged: number;
+  // Added or modified files that failed the spec check.
+  flagged: (ScanItem & InspectionResult)[];
+  // Added or modified files that look like something already published on the channel.
+  duplicates: (ScanItem & { duplicate_of: number; kind: "exact" | "similar" })[];
+}
+
+export class ScanInProgressError extends Error {
+  code = "scan_in_progress" as const;
+
+  constructor() {
+    super("A scan is already running");
+  }
+}
+
+const isModified = (row: MediaRow, file: SourceFile) =>
+  row.source_modified_at !== file.modifiedTime || row.size !== file.size || (!!file.checksum && row.source_checksum !== file.checksum);
+
+export interface ChannelScanError {
+  channel_id: number;
+  error: string;
+}
+
+let scanning = false;
+
+// Keeps the processed version in step with its original: re-render it when the
+// original changed, or render one for a new non-conforming file if auto-transform is on.
+// Published and deleted versions are left alone, and a deleted one isn't replaced.
+async function refreshDerived(media: MediaRow, inspection: InspectionResult) {
+  const derived = findDerived(media.id);
+  if (derived?.status === "Published" || derived?.status === "Deleted") return;
+  if (derived && inspection.status === "Pending") {
+    // The source now meets the spec and will be posted itself; a queued copy would post it twice.
+    if (["Pending", "Needs Fix", "Rejected"].includes(derived.status)) updateMedia(derived.id, { status: "Removed" });
+    return;
+  }
+  // A file ffprobe can't read won't render either.
+  const wanted = derived ? inspection.status === "Needs Fix" : autoTransformEnabled() && inspection.probed && inspection.status === "Needs Fix";
+  if (!wanted) return;
+  try {
+    await transformMedia(db.prepare("SELECT * FROM media WHERE id = ?").get(media.id) as MediaRow, derived?.transform ? JSON.parse(derived.transform) : {});
+  } catch {
+    // Failures are logged by transformMedia; the original keeps its Needs Fix status.
+  }
+}
+
+async function scanChannel(channel: ChannelRow): Promise<ScanResult> {
+  try {
+    const source = createSourceForChannel(channel);
+    const sourceKey = `${source.kind}:${source.location}`;
+    const cursorKey = `scan_cursor:${sourceKey}`;
+    const changes = await source.listChanges(getSetting(cursorKey));
+    const result: ScanResult = { channel_id: channel.id, source: sourceKey, full: changes.full, added: [], modified: [], removed: [], unchanged: 0, flagged: [], duplicates: [] };
+
+    const findByFileId = db.prepare("SELECT * FROM media WHERE file_id = ?");
+    const markRemoved = (row: MediaRow) => {
+      if (row.status === "Pending" || row.status === "Failed") {
+        db.prepare("UPDATE media SET status = 'Removed' WHERE id = ?").run(row.id);
+      }
+      result.removed.push({ id: row.id, file_name: row.file_name });
+    };
+
+    db.transaction(() => {
+      for (const file of changes.files) {
+        const fileId = `${source.kind}:${file.id}`;
+        const aspectRatio = aspectRatioLabel(file.width, file.height);
+        const existing = findByFileId.get(fileId) as MediaRow | undefined;
+
+        if (!existing) {
+          const info = db.prepare(`
+            INSERT INTO media (channel_id, file_name, file_id, type, size, aspect_ratio, source, source_modified_at, source_checksum)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `).run(channel.id, file.name, fileId, file.type, file.size, aspectRatio, sourceKey, file.modifiedTime, file.checksum);
+          result.added.push({ id: Number(info.lastInsertRowid), file_name: file.name });
+        } else if (existing.status === "Deleted") {
+          // Deleted by hand; stays deleted while the file is still in the folder.
+          result.unchanged++;
+        } else if (isModified(existing, file) || existing.status === "Removed") {
+          db.prepare(`
+            UPDATE media SET file_name = ?, type = ?, size = ?, aspect_ratio = COALESCE(?, aspect_ratio),
+              source = ?, source_modified_at = ?, source_checksum = ?,
+              status = CASE WHEN status = 'Removed' THEN 'Pending' ELSE status END
+            WHERE id = ?
+          `).run(file.name, file.type, file.size, aspectRatio, sourceKey, file.modifiedTime, file.checksum, existing.id);
+          result.modified.push({ id: existing.id, file_name: file.name });
+        } else {
+          result.unchanged++;
+        }
+      }
+
+      if (changes.full) {
+        // A full listing is authoritative: anything we hold for this source that wasn't listed is gone.
+        const listed = new Set(changes.files.map(file => `${source.kind}:${file.id}`));
+        const rows = db.prepare("SELECT * FROM media WHERE source = ? AND status NOT IN ('Removed', 'Deleted')").all(sourceKey) as MediaRow[];
+        for (const row of rows) {
+          if (!listed.has(row.file_id)) markRemoved(row);
+        }
+      } else {
+        // The Drive changes feed covers the whole account, so a file another
+        // channel's folder holds shows up as removed from this one.
+        const findInSource = db.prepare("SELECT * FROM media WHERE file_id = ? AND source = ?");
+        for (const id of changes.removed) {
+          const row = findInSource.get(`${source.kind}:${id}`, sourceKey) as MediaRow | undefined;
+          if (row && row.status !== "Removed" && row.status !== "Deleted") markRemoved(row);
+        }
+      }
+
+      setSetting(cursorKey, changes.cursor);
+    })();
+    emitMediaChange(...[...result.added, ...result.modified, ...result.removed].map(item => item.id));
+
+    // Caption new files from the channel's default template before any derived
+    // copies are rendered, so those inherit the caption.
+    for (const item of result.added) {
+      applyDefaultTemplate(db.prepare("SELECT * FROM media WHERE id = ?").get(item.id) as MediaRow, channel);
+    }
+
+    const pending = [...result.added, ...result.modified];
+    const progress = (processed: number) =>
+      publishEvent({ type: "scan", data: { phase: "progress", at: new Date().toISOString(), channel_id: channel.id, channel: channel.name, processed, total: pending.length } });
+    progress(0);
+    for (const [index, item] of pending.entries()) {
+      const media = db.prepare("SELECT * FROM media WHERE id = ?").get(item.id) as MediaRow;
+      const inspection = await inspectMedia(media);
+      if (inspection.status !== "Pending") result.flagged.push({ ...item, ...inspection });
+      // Hashed after the probe, which supplies the duration video frames are sampled by.
+      const fingerprinted = await fingerprintMedia(db.prepare("SELECT * FROM media WHERE id = ?").get(item.id) as MediaRow);
+      const duplicate = fingerprinted && flagIfDuplicate(fingerprinted);
+      if (duplicate) result.duplicates.push({ ...item, duplicate_of: duplicate.original.id, kind: duplicate.kind });
+      await generateThumbnail(db.prepare("SELECT * FROM media WHERE id = ?").get(item.id) as MediaRow);
+      await refreshDerived(media, inspection);
+      emitMediaChange(item.id);
+      progress(index + 1);
+    }
+
+    // Removed posts leave holes in the auto-scheduled queue; pull the rest forward.
+    if (result.removed.length > 0) reflowQueue(channel);
+
+    for (const item of result.modified) {
+      writeLog(item.file_name, "Source Modified", "Info", null, { media_id: item.id, channel_id: channel.id });
+      resetApproval(item.id, "source file changed");
+    }
+    for (const item of result.removed) writeLog(item.file_name, "Source Removed", "Info", null, { media_id: item.id, channel_id: channel.id });
+    writeLog(channel.name, `Source Scan: ${result.added.length} added, ${result.modified.length} modified, ${result.removed.length} removed`, "Success", null, {
+      channel_id: channel.id,
+      context: { source: sourceKey, full: result.full, added: result.added.length, modified: result.modified.length, removed: result.removed.length, unchanged: result.unchanged, flagged: result.flagged.length, duplicates: result.duplicates.length },
+    });
+    if (result.added.length === 0 && result.modified.length === 0) {
+      notify({
+        kind: "empty_scan",
+        severity: "info",
+        title: `No new media for ${channel.name}`,
+        message: result.full && result.unchanged === 0
+          ? "The channel folder is empty."
+          : "Nothing was added to or changed in the channel folder since the last scan.",
+        channel_id: channel.id,
+      }, { quietHours: 24 });
+    }
+    return result;
+  } catch (e: any) {
+    writeLog(channel.name, "Source Scan", "Failed", e?.message || String(e), { channel_id: channel.id });
+    throw e;
+  }
+}
+
+// Scans each channel's media folder in turn. One channel failing doesn't stop
+// the others; its error is reported alongside the successful results.
+export function scanChannels(channelId?: number) {
+  // One correlation id for the whole run, across channels.
+  return withCorrelation("scan", async () => {
+    if (scanning) throw new ScanInProgressError();
+    scanning = true;
+    publishEvent({ type: "scan", data: { phase: "started", at: new Date().toISOString() } });
+
+    try {
+      const channels = (channelId === undefined
+        ? db.prepare("SELECT * FROM channels WHERE drive_folder_id IS NOT NULL AND drive_folder_id != ''").all()
+        : db.prepare("SELECT * FROM channels WHERE id = ?").all(channelId)) as ChannelRow[];
+
+      const results: ScanResult[] = [];
+      const errors: ChannelScanError[] = [];
+      for (const channel of channels) {
+        try {
+          results.push(await scanChannel(channel));
+        } catch (e: any) {
+          errors.push({ channel_id: channel.id, error: e?.message || String(e) });
+        }
+      }
+      return { results, errors };
+    } finally {
+      scanning = false;
+      const at = new Date().toISOString();
+      setSetting("last_scan_at", at);
+      publishEvent({ type: "scan", data: { phase: "finished", at } });
+    }
+  });
+}
+
+const SCAN_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Runs scanChannels every scan_interval_minutes, counted from the last scan of
+// any kind. The interval is re-read each minute, so changing it in Settings
+// takes effect without a restart.
+export function startScheduledScans() {
+  return setInterval(() => {
+    const minutes = setting("scan_interval_minutes");
+    if (minutes <= 0 || scanning) return;
+    const last = getSetting("last_scan_at");
+    if (last && Date.now() - new Date(last).getTime() < minutes * 60 * 1000) return;
+    scanChannels().catch(e => console.error("Scheduled scan failed", e));
+  }, SCAN_CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,101 @@
+import { db } from "./db";
+import { emitMediaChange } from "./events";
+import { mediaFields, writeLog } from "./logs";
+import { setting } from "./settings";
+import type { ChannelRow, MediaRow, MediaStatus } from "./types";
+
+// Only posts that haven't gone out yet can be moved.
+export const RESCHEDULABLE: MediaStatus[] = ["Pending", "Needs Fix"];
+
+// Posts that take up a slot on the day they're scheduled for, and the same as a WHERE clause.
+export const BOOKED_STATUSES: MediaStatus[] = ["Pending", "Needs Fix", "Uploading", "Failed"];
+export const BOOKED = `status IN (${BOOKED_STATUSES.map(status => `'${status}'`).join(", ")})`;
+
+export const conflictWindowMinutes = () => setting("schedule_conflict_minutes");
+
+export interface ScheduleItem extends MediaRow {
+  // When the post is (or was) due, as ISO UTC: published_at for published posts, scheduled_time otherwise.
+  slot_time: string;
+}
+
+export interface SlotCheck {
+  conflicts: { id: number; file_name: string; slot_time: string }[];
+  // Posts already booked for that UTC day, not counting the one being moved.
+  booked: number;
+  daily_limit: number;
+  over_limit: boolean;
+}
+
+export class ScheduleError extends Error {
+  public details?: { check: SlotCheck };
+
+  constructor(message: string, public code: "not_found" | "not_reschedulable" | "invalid_time" | "no_channel" | "conflict", check?: SlotCheck) {
+    super(message);
+    // Sent alongside the error so the UI can offer to schedule anyway.
+    if (check) this.details = { check };
+  }
+}
+
+// SQLite's CURRENT_TIMESTAMP and ISO strings from the client both normalize to this.
+const isoUtc = (column: string) => `strftime('%Y-%m-%dT%H:%M:%SZ', ${column})`;
+const SLOT_TIME = `CASE WHEN status = 'Published' THEN COALESCE(published_at, scheduled_time) ELSE scheduled_time END`;
+
+export function scheduleRange(from: Date, to: Date, channelId: number | null): ScheduleItem[] {
+  return db.prepare(`
+    SELECT *, ${isoUtc(SLOT_TIME)} as slot_time FROM media
+    WHERE (@channelId IS NULL OR channel_id = @channelId)
+      AND status NOT IN ('Removed', 'Rejected', 'Deleted')
+      AND ${SLOT_TIME} IS NOT NULL
+      AND datetime(${SLOT_TIME}) >= datetime(@from) AND datetime(${SLOT_TIME}) < datetime(@to)
+    ORDER BY datetime(${SLOT_TIME})
+  `).all({ channelId, from: from.toISOString(), to: to.toISOString() }) as ScheduleItem[];
+}
+
+// What moving `media` to `time` would run into: other posts on the same channel
+// too close to it, and the channel's daily limit for that (UTC) day.
+export function checkSlot(media: MediaRow, channel: ChannelRow, time: Date): SlotCheck {
+  const windowSeconds = conflictWindowMinutes() * 60;
+  const conflicts = db.prepare(`
+    SELECT id, file_name, ${isoUtc("scheduled_time")} as slot_time FROM media
+    WHERE channel_id = @channelId AND id != @id AND ${BOOKED} AND scheduled_time IS NOT NULL
+      AND abs(strftime('%s', scheduled_time) - strftime('%s', @time)) < @windowSeconds
+  `).all({ channelId: channel.id, id: media.id, time: time.toISOString(), windowSeconds }) as SlotCheck["conflicts"];
+
+  const { booked } = db.prepare(`
+    SELECT
+      (SELECT COUNT(*) FROM media WHERE channel_id = @channelId AND id != @id AND ${BOOKED} AND date(scheduled_time) = date(@time))
+      + (SELECT COUNT(*) FROM media WHERE channel_id = @channelId AND id != @id AND status = 'Published' AND date(published_at) = date(@time))
+      as booked
+  `).get({ channelId: channel.id, id: media.id, time: time.toISOString() }) as { booked: number };
+
+  return { conflicts, booked, daily_limit: channel.daily_limit, over_limit: booked + 1 > channel.daily_limit };
+}
+
+// Moves a post to a new time. Unless forced, refuses when the slot clashes with
+// another post or would take the channel over its daily limit.
+export function reschedule(id: number, time: Date, force = false) {
+  const media = db.prepare("SELECT * FROM media WHERE id = ?").get(id) as MediaRow | undefined;
+  if (!media) throw new ScheduleError("Media not found", "not_found");
+  if (!RESCHEDULABLE.includes(media.status)) throw new ScheduleError(`Media is ${media.status} and can't be rescheduled`, "not_reschedulable");
+  if (isNaN(time.getTime())) throw new ScheduleError("scheduled_time is not a valid date", "invalid_time");
+  const channel = db.prepare("SELECT * FROM channels WHERE id = ?").get(media.channel_id) as ChannelRow | undefined;
+  if (!channel) throw new ScheduleError("Media is not assigned to a channel", "no_channel");
+
+  const check = checkSlot(media, channel, time);
+  if (!force && (check.conflicts.length > 0 || check.over_limit)) {
+    const reason = check.over_limit
+      ? `${channel.name} already has ${check.booked} of ${check.daily_limit} posts that day`
+      : `${check.conflicts.length} other post(s) within ${conflictWindowMinutes()} minutes`;
+    throw new ScheduleError(`Slot is taken: ${reason}`, "conflict", check);
+  }
+
+  // A hand-picked time is pinned: reflowing the queue won't move it.
+  db.prepare("UPDATE media SET scheduled_time = ?, auto_scheduled = 0 WHERE id = ?").run(time.toISOString(), media.id);
+  emitMediaChange(media.id);
+  writeLog(media.file_name, `Rescheduled to ${time.toISOString()}${force ? " (override)" : ""}`, "Info", null, {
+    ...mediaFields(media),
+    level: force && (check.conflicts.length > 0 || check.over_limit) ? "warn" : "info",
+    context: { from: media.scheduled_time, to: time.toISOString(), force },
+  });
+  return { media: db.prepare("SELECT * FROM media WHERE id = ?").get(media.id) as MediaRow, check };
+}
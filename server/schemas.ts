@@ -0,0 +1,245 @@
+import { v } from "./api";
+import { REVIEW_ACTIONS } from "./approvals";
+import { ROLES } from "./auth";
+import { BULK_ACTIONS } from "./bulk";
+import { DUPLICATE_ACTIONS } from "./duplicates";
+import { MEDIA_STATUSES } from "./media";
+import { NOTIFICATION_KINDS } from "./notifications";
+import { WEBHOOK_FORMATS } from "./webhooks";
+
+// Request bodies and query strings, one schema per route that takes input.
+// Domain rules (password length, timezones, slot conflicts, ...) stay with the
+// modules that own them; these only settle shape and types.
+
+const id = v.integer({ min: 1 });
+const text = (max = 200) => v.string({ min: 1, max });
+const time = v.string({ pattern: /^([01]\d|2[0-3]):[0-5]\d$/ });
+const queryId = v.optional(id);
+
+export const credentials = v.object({
+  username: v.string({ max: 64 }),
+  password: v.string({ max: 200, trim: false }),
+});
+
+export const setup = v.object({
+  username: v.string({ max: 64 }),
+  password: v.string({ max: 200, trim: false }),
+  display_name: v.optional(v.string({ max: 100 })),
+});
+
+export const passwordChange = v.object({
+  current_password: v.string({ max: 200, trim: false }),
+  new_password: v.string({ max: 200, trim: false }),
+});
+
+export const userCreate = v.object({
+  username: v.string({ max: 64 }),
+  password: v.string({ max: 200, trim: false }),
+  display_name: v.optional(v.string({ max: 100 })),
+  role: v.withDefault(v.oneOf(ROLES), "viewer"),
+});
+
+export const userUpdate = v.object({
+  display_name: v.optional(v.string({ max: 100 })),
+  password: v.optional(v.string({ max: 200, trim: false })),
+  role: v.optional(v.oneOf(ROLES)),
+});
+
+export const channelFilter = v.object({ channel_id: queryId });
+
+export const channelCreate = v.object({
+  name: text(100),
+  profile_id: v.withDefault(v.string({ max: 200 }), ""),
+  drive_folder_id: v.withDefault(v.string({ max: 500 }), ""),
+  daily_limit: v.withDefault(v.integer({ min: 1, max: 100 }), 10),
+});
+
+export const channelUpdate = v.object({
+  name: v.optional(text(100)),
+  drive_folder_id: v.optional(v.string({ max: 500 })),
+  daily_limit: v.optional(v.integer({ min: 1, max: 100 })),
+  avatar: v.optional(v.nullable(v.string({ max: 1000, pattern: /^https?:\/\// }))),
+  paused: v.optional(v.boolean()),
+});
+
+export const channelDelete = v.object({
+  queued: v.optional(v.oneOf(["move", "remove"] as const)),
+  move_to: v.optional(id),
+});
+
+export const captionPrompt = v.object({ caption_prompt: v.optional(v.nullable(v.string({ max: 2000 }))) });
+
+export const approvalSetting = v.object({ requires_approval: v.boolean() });
+
+export const mediaSearch = v.object({
+  q: v.optional(v.string({ max: 200 })),
+  // Comma-separated lists.
+  status: v.optional(v.string({ max: 500 })),
+  tags: v.optional(v.string({ max: 1000 })),
+  type: v.optional(v.string({ max: 20 })),
+  aspect_ratio: v.optional(v.string({ max: 20 })),
+  channel_id: queryId,
+  from: v.optional(v.date()),
+  to: v.optional(v.date()),
+  limit: v.optional(v.integer({ min: 1, max: 200 })),
+  cursor: v.optional(v.string({ max: 200 })),
+});
+
+export const scan = v.object({ channel_id: v.optional(v.nullable(id)) });
+
+export const bulk = v.object({
+  action: v.oneOf(BULK_ACTIONS),
+  ids: v.array(id, { min: 1, max: 500 }),
+  params: v.optional(v.object({
+    scheduled_time: v.optional(v.date()),
+    interval_minutes: v.optional(v.integer({ min: 0, max: 7 * 24 * 60 })),
+    auto: v.optional(v.boolean()),
+    caption: v.optional(v.string({ max: 2000 })),
+    template_id: v.optional(id),
+    channel_id: v.optional(id),
+  })),
+});
+
+export const mediaPatch = v.object({
+  caption: v.optional(v.nullable(v.string({ max: 2000 }))),
+  scheduled_time: v.optional(v.nullable(v.date())),
+  status: v.optional(v.oneOf(MEDIA_STATUSES)),
+  post_type: v.optional(v.oneOf(["story", "spotlight"] as const)),
+  channel_id: v.optional(v.nullable(id)),
+  priority: v.optional(v.integer({ min: 0, max: 10 })),
+  // The version the client last saw; the edit is refused if the post has changed since.
+  version: v.optional(v.integer({ min: 1 })),
+});
+
+export const tags = v.object({ tags: v.array(v.string({ max: 50 }), { max: 50 }) });
+
+export const transform = v.object({ fit: v.optional(v.oneOf(["crop", "letterbox", "blur"] as const)) });
+
+export const scheduleRange = v.object({ from: v.date(), to: v.date(), channel_id: queryId });
+
+export const autoSchedule = v.object({
+  channel_id: v.optional(v.nullable(id)),
+  ids: v.optional(v.array(id, { max: 500 })),
+  reflow: v.withDefault(v.boolean(), false),
+});
+
+export const postingWindows = v.object({
+  timezone: v.optional(v.string({ max: 100 })),
+  schedule_order: v.optional(v.oneOf(["fifo", "shuffle"] as const)),
+  windows: v.optional(v.array(v.object({
+    days: v.array(v.integer({ min: 0, max: 6 }), { min: 1, max: 7 }),
+    start_time: time,
+    end_time: time,
+    slots: v.integer({ min: 1, max: 48 }),
+    min_spacing_minutes: v.withDefault(v.integer({ min: 0, max: 24 * 60 }), 60),
+  }), { max: 50 })),
+});
+
+export const reschedule = v.object({
+  scheduled_time: v.date(),
+  force: v.withDefault(v.boolean(), false),
+});
+
+export const reviewQueue = v.object({
+  status: v.withDefault(v.string({ max: 100 }), "In Review"),
+  channel_id: queryId,
+});
+
+export const reviewAction = v.object({
+  action: v.oneOf(REVIEW_ACTIONS),
+  comment: v.optional(v.nullable(v.string({ max: 2000 }))),
+});
+
+export const duplicateAction = v.object({ action: v.oneOf(DUPLICATE_ACTIONS) });
+
+export const captionSuggest = v.object({ count: v.optional(v.integer({ min: 1, max: 10 })) });
+
+export const captionSuggestMany = v.object({
+  ids: v.array(id, { min: 1, max: 50 }),
+  count: v.optional(v.integer({ min: 1, max: 10 })),
+});
+
+export const templateFilter = v.object({ channel_id: queryId });
+
+export const templateCreate = v.object({
+  name: text(100),
+  body: v.string({ min: 1, max: 2000, trim: false }),
+  channel_id: v.optional(v.nullable(id)),
+});
+
+export const templateUpdate = v.object({
+  name: v.optional(text(100)),
+  body: v.optional(v.string({ min: 1, max: 2000, trim: false })),
+  channel_id: v.optional(v.nullable(id)),
+});
+
+export const templatePreview = v.object({
+  template_id: v.optional(v.nullable(id)),
+  body: v.optional(v.string({ max: 2000, trim: false })),
+  media_id: id,
+});
+
+export const applyTemplate = v.object({ template_id: id });
+
+export const templateSettings = v.object({
+  default_template_id: v.optional(v.nullable(id)),
+  template_fields: v.optional(v.record(v.string({ max: 500 }))),
+  hashtag_sets: v.optional(v.array(v.object({
+    tags: text(500),
+    cta: v.optional(v.nullable(v.string({ max: 200 }))),
+  }), { max: 100 })),
+});
+
+const day = v.string({ pattern: /^\d{4}-\d{2}-\d{2}$/ });
+
+export const analytics = v.object({ from: v.optional(day), to: v.optional(day), channel_id: queryId });
+
+export const logQuery = v.object({
+  // Comma-separated levels.
+  level: v.optional(v.string({ max: 100 })),
+  status: v.optional(v.string({ max: 50 })),
+  media_id: queryId,
+  channel_id: queryId,
+  correlation_id: v.optional(v.string({ max: 100 })),
+  q: v.optional(v.string({ max: 200 })),
+  from: v.optional(v.date()),
+  to: v.optional(v.date()),
+  limit: v.optional(v.integer({ min: 1, max: 500 })),
+  cursor: v.optional(v.string({ max: 50 })),
+  format: v.optional(v.oneOf(["csv", "json"] as const)),
+});
+
+export const logPrune = v.object({ days: v.optional(v.integer({ min: 1 })) });
+
+export const settings = v.record((value: unknown) => value);
+
+export const notificationQuery = v.object({
+  unread: v.optional(v.oneOf(["true", "false"] as const)),
+  limit: v.optional(v.integer({ min: 1, max: 200 })),
+});
+
+// Without ids, everything is marked read.
+export const notificationRead = v.object({ ids: v.optional(v.array(id, { min: 1, max: 500 })) });
+
+const webhookUrl = v.string({ max: 2000, pattern: /^https?:\/\/\S+$/ });
+const webhookKinds = v.nullable(v.array(v.oneOf(NOTIFICATION_KINDS), { max: NOTIFICATION_KINDS.length }));
+
+export const webhookCreate = v.object({
+  name: text(100),
+  url: webhookUrl,
+  format: v.withDefault(v.oneOf(WEBHOOK_FORMATS), "json"),
+  secret: v.optional(v.nullable(v.string({ max: 200, trim: false }))),
+  // null or missing: every kind.
+  kinds: v.optional(webhookKinds),
+  enabled: v.optional(v.boolean()),
+});
+
+export const webhookUpdate = v.object({
+  name: v.optional(text(100)),
+  url: v.optional(webhookUrl),
+  format: v.optional(v.oneOf(WEBHOOK_FORMATS)),
+  // null removes the secret; leaving it out keeps the current one.
+  secret: v.optional(v.nullable(v.string({ max: 200, trim: false }))),
+  kinds: v.optional(webhookKinds),
+  enabled: v.optional(v.boolean()),
+});
@@ -0,0 +1,191 @@
+import { decrypt, encrypt } from "./crypto";
+import { db } from "./db";
+import { writeLog } from "./logs";
+
+export function getSetting(key: string): string | null {
+  const row = db.prepare("SELECT value FROM settings WHERE key = ?").get(key) as { value: string } | undefined;
+  return row ? row.value : null;
+}
+
+export function setSetting(key: string, value: string | null) {
+  if (value === null) {
+    db.prepare("DELETE FROM settings WHERE key = ?").run(key);
+  } else {
+    db.prepare("INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value").run(key, value);
+  }
+}
+
+export const SETTING_GROUPS = ["scanning", "scheduling", "publishing", "notifications", "logs", "credentials"] as const;
+export type SettingGroup = typeof SETTING_GROUPS[number];
+
+// Every setting the Settings page can change, with the type it reads as.
+export interface Settings {
+  scan_interval_minutes: number;
+  duplicate_max_distance: number;
+  default_timezone: string;
+  schedule_conflict_minutes: number;
+  publish_spacing_minutes: number;
+  health_check_interval_minutes: number;
+  retry_max_attempts: number;
+  retry_base_delay_seconds: number;
+  retry_max_delay_seconds: number;
+  retry_backoff_factor: number;
+  low_runway_days: number;
+  log_retention_days: number;
+  snapchat_client_id: string | null;
+  snapchat_client_secret: string | null;
+  google_client_id: string | null;
+  google_client_secret: string | null;
+  google_refresh_token: string | null;
+  gemini_api_key: string | null;
+}
+
+export type SettingKey = keyof Settings;
+
+interface SettingDefinition {
+  key: SettingKey;
+  group: SettingGroup;
+  label: string;
+  description: string;
+  // Secrets are encrypted at rest and never sent back to the client.
+  type: "integer" | "number" | "timezone" | "text" | "secret";
+  default: number | string | null;
+  min?: number;
+  max?: number;
+  // Environment variable read when nothing is stored, so existing .env setups keep working.
+  env?: string;
+}
+
+export const SETTING_DEFINITIONS: SettingDefinition[] = [
+  { key: "scan_interval_minutes", group: "scanning", label: "Scan interval", description: "Minutes between automatic scans of every channel's folder. 0 only scans when asked.", type: "integer", default: 0, min: 0, max: 24 * 60, env: "SCAN_INTERVAL_MINUTES" },
+  { key: "duplicate_max_distance", group: "scanning", label: "Near-duplicate sensitivity", description: "How many of the 64 perceptual hash bits may differ for a new file to be flagged as a likely repost of something already published. 0 only flags exact copies.", type: "integer", default: 10, min: 0, max: 32, env: "DUPLICATE_MAX_DISTANCE" },
+  { key: "default_timezone", group: "scheduling", label: "Default timezone", description: "Timezone new channels start with. Each channel can override it.", type: "timezone", default: "UTC", env: "DEFAULT_TIMEZONE" },
+  { key: "schedule_conflict_minutes", group: "scheduling", label: "Conflict window", description: "Posts on the same channel closer together than this many minutes are flagged as conflicts.", type: "integer", default: 15, min: 1, max: 24 * 60, env: "SCHEDULE_CONFLICT_MINUTES" },
+  { key: "publish_spacing_minutes", group: "publishing", label: "Publish spacing", description: "Minimum minutes between two automatic publishes on the same channel. 0 publishes everything that's due.", type: "integer", default: 0, min: 0, max: 24 * 60, env: "PUBLISH_SPACING_MINUTES" },
+  { key: "health_check_interval_minutes", group: "publishing", label: "Health check interval", description: "Minutes between checks that each channel's Snapchat authorization still works. 0 turns the checks off.", type: "integer", default: 30, min: 0, max: 24 * 60, env: "HEALTH_CHECK_INTERVAL_MINUTES" },
+  { key: "retry_max_attempts", group: "publishing", label: "Max attempts", description: "Publish attempts before a post moves to the dead letter queue.", type: "integer", default: 5, min: 1, max: 50, env: "RETRY_MAX_ATTEMPTS" },
+  { key: "retry_base_delay_seconds", group: "publishing", label: "First retry delay", description: "Seconds to wait before the first retry.", type: "integer", default: 60, min: 1, max: 24 * 60 * 60, env: "RETRY_BASE_DELAY_SECONDS" },
+  { key: "retry_max_delay_seconds", group: "publishing", label: "Longest retry delay", description: "Backoff never waits longer than this many seconds.", type: "integer", default: 6 * 60 * 60, min: 1, max: 7 * 24 * 60 * 60, env: "RETRY_MAX_DELAY_SECONDS" },
+  { key: "retry_backoff_factor", group: "publishing", label: "Backoff factor", description: "Each retry waits this many times longer than the one before.", type: "number", default: 2, min: 1, max: 10, env: "RETRY_BACKOFF_FACTOR" },
+  { key: "low_runway_days", group: "notifications", label: "Low queue warning", description: "Notify when a channel's queue will run out within this many days at its current pace. 0 turns the warning off.", type: "integer", default: 2, min: 0, max: 90, env: "LOW_RUNWAY_DAYS" },
+  { key: "log_retention_days", group: "logs", label: "Log retention", description: "Days to keep log entries; older ones are pruned every 6 hours. 0 keeps them forever.", type: "integer", default: 30, min: 0, max: 3650, env: "LOG_RETENTION_DAYS" },
+  { key: "snapchat_client_id", group: "credentials", label: "Snapchat client ID", description: "Nothing is published without Snapchat credentials (set SNAPCHAT_PUBLISHER=mock to try the app with a local mock).", type: "text", default: null, env: "SNAPCHAT_CLIENT_ID" },
+  { key: "snapchat_client_secret", group: "credentials", label: "Snapchat client secret", description: "", type: "secret", default: null, env: "SNAPCHAT_CLIENT_SECRET" },
+  { key: "google_client_id", group: "credentials", label: "Google client ID", description: "Used to read channel folders from Google Drive.", type: "text", default: null, env: "GOOGLE_CLIENT_ID" },
+  { key: "google_client_secret", group: "credentials", label: "Google client secret", description: "", type: "secret", default: null, env: "GOOGLE_CLIENT_SECRET" },
+  { key: "google_refresh_token", group: "credentials", label: "Google refresh token", description: "OAuth refresh token for the Drive account that owns the channel folders.", type: "secret", default: null, env: "GOOGLE_REFRESH_TOKEN" },
+  { key: "gemini_api_key", group: "credentials", label: "Gemini API key", description: "Enables AI caption suggestions. Without it captions come from the offline stub.", type: "secret", default: null, env: "GEMINI_API_KEY" },
+];
+
+export interface SettingView extends Omit<SettingDefinition, "env"> {
+  // Always null for secrets.
+  value: number | string | null;
+  source: "database" | "environment" | "default";
+  // Whether a secret has a value, from either source.
+  configured: boolean;
+}
+
+export class SettingsError extends Error {
+  constructor(message: string, public code: "unknown_setting" | "invalid_value") {
+    super(message);
+  }
+}
+
+// Stored settings live next to internal state (scan cursors, last_scan_at) in
+// the settings table, under their own prefix.
+const storageKey = (key: SettingKey) => `setting:${key}`;
+
+const definitionOf = (key: string) => SETTING_DEFINITIONS.find(def => def.key === key);
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Parses and checks a value for a setting, throwing a SettingsError that names the setting.
+function parseValue(def: SettingDefinition, raw: unknown): number | string {
+  if (def.type === "integer" || def.type === "number") {
+    const value = typeof raw === "string" && raw.trim() !== "" ? Number(raw) : raw;
+    if (typeof value !== "number" || !Number.isFinite(value)) throw new SettingsError(`${def.label} must be a number`, "invalid_value");
+    if (def.type === "integer" && !Number.isInteger(value)) throw new SettingsError(`${def.label} must be a whole number`, "invalid_value");
+    if ((def.min !== undefined && value < def.min) || (def.max !== undefined && value > def.max)) {
+      throw new SettingsError(`${def.label} must be between ${def.min} and ${def.max}`, "invalid_value");
+    }
+    return value;
+  }
+  if (typeof raw !== "string" || !raw.trim()) throw new SettingsError(`${def.label} can't be empty`, "invalid_value");
+  if (def.type === "timezone" && !isValidTimeZone(raw.trim())) throw new SettingsError(`Unknown timezone "${raw}"`, "invalid_value");
+  return raw.trim();
+}
+
+function resolve(def: SettingDefinition) {
+  const stored = getSetting(storageKey(def.key));
+  if (stored !== null) {
+    try {
+      return { value: def.type === "secret" ? decrypt(stored) : parseValue(def, stored), source: "database" as const };
+    } catch (e) {
+      // A secret stored under another TOKEN_ENCRYPTION_KEY can't be read; treat it as unset.
+      console.error(`Ignoring unreadable setting ${def.key}`, e);
+    }
+  }
+  const fromEnv = def.env ? process.env[def.env] : undefined;
+  if (fromEnv) {
+    try {
+      return { value: parseValue(def, fromEnv), source: "environment" as const };
+    } catch {
+      // An invalid environment value falls back to the default, as it always has.
+    }
+  }
+  return { value: def.default, source: "default" as const };
+}
+
+export function setting<K extends SettingKey>(key: K): Settings[K] {
+  return resolve(definitionOf(key)!).value as Settings[K];
+}
+
+export function listSettings(): SettingView[] {
+  return SETTING_DEFINITIONS.map(def => {
+    const { env, ...view } = def;
+    const { value, source } = resolve(def);
+    return { ...view, value: def.type === "secret" ? null : value, source, configured: value !== null };
+  });
+}
+
+// Applies a partial update. null clears a stored value so the setting falls back
+// to the environment or its default. Nothing is written unless every value is valid.
+export function updateSettings(values: Record<string, unknown>) {
+  const updates = Object.entries(values).map(([key, raw]) => {
+    const def = definitionOf(key);
+    if (!def) throw new SettingsError(`Unknown setting "${key}"`, "unknown_setting");
+    if (raw === null) return { def, stored: null };
+    const value = parseValue(def, raw);
+    return { def, stored: def.type === "secret" ? encrypt(String(value)) : String(value) };
+  });
+
+  db.transaction(() => {
+    for (const { def, stored } of updates) setSetting(storageKey(def.key), stored);
+  })();
+  if (updates.length > 0) {
+    writeLog("Settings", `Settings Updated: ${updates.map(({ def }) => def.label).join(", ")}`, "Info", null, {
+      // Secret values stay out of the log; only that they changed is recorded.
+      context: Object.fromEntries(updates.map(({ def, stored }) => [def.key, stored === null ? "cleared" : def.type === "secret" ? "changed" : stored])),
+    });
+  }
+  return updates.map(({ def }) => def.key);
+}
+
+// process.env with stored credentials laid over it, for the provider factories
+// that read their configuration from the environment.
+export function settingsEnv(): NodeJS.ProcessEnv {
+  const env = { ...process.env };
+  for (const def of SETTING_DEFINITIONS) {
+    if (def.group !== "credentials" || !def.env) continue;
+    const value = setting(def.key);
+    if (value !== null) env[def.env] = String(value);
+  }
+  return env;
+}
@@ -0,0 +1,131 @@
+import fs from "fs/promises";
+import path from "path";
+import { mediaTypeFor, type MediaSource, type SourceFile } from "./types";
+
+export interface DriveSourceOptions {
+  folderId: string;
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  // Overridable so the source can be pointed at a local stub server.
+  apiUrl?: string;
+  tokenUrl?: string;
+  cacheDir?: string;
+}
+
+const FILE_FIELDS = "id,name,mimeType,size,modifiedTime,md5Checksum,parents,trashed,imageMediaMetadata(width,height),videoMediaMetadata(width,height)";
+
+function toSourceFile(file: any): SourceFile | null {
+  const type = mediaTypeFor(file.name, file.mimeType);
+  if (type === "other") return null;
+  const meta = file.videoMediaMetadata || file.imageMediaMetadata;
+  return {
+    id: file.id,
+    name: file.name,
+    type,
+    size: Number(file.size) || 0,
+    modifiedTime: file.modifiedTime,
+    checksum: file.md5Checksum || null,
+    width: meta?.width,
+    height: meta?.height,
+  };
+}
+
+// Reads media from a Google Drive folder. The first scan lists the folder and
+// records a changes start token; later scans only walk the Drive changes feed.
+export function createDriveSource(options: DriveSourceOptions): MediaSource {
+  const apiUrl = (options.apiUrl || "https://www.googleapis.com/drive/v3").replace(/\/$/, "");
+  const tokenUrl = options.tokenUrl || "https://oauth2.googleapis.com/token";
+  const cacheDir = path.resolve(options.cacheDir || "media-cache", "drive");
+  let accessToken: { value: string; expiresAt: number } | null = null;
+
+  const getAccessToken = async () => {
+    if (accessToken && accessToken.expiresAt > Date.now() + 60000) return accessToken.value;
+    const res = await fetch(tokenUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "refresh_token",
+        client_id: options.clientId,
+        client_secret: options.clientSecret,
+        refresh_token: options.refreshToken,
+      }),
+    });
+    if (!res.ok) throw new Error(`Google token refresh failed (${res.status})`);
+    const data = await res.json();
+    accessToken = { value: data.access_token, expiresAt: Date.now() + (data.expires_in || 3600) * 1000 };
+    return accessToken.value;
+  };
+
+  const request = async (pathname: string, params: Record<string, string> = {}) => {
+    const url = `${apiUrl}${pathname}?${new URLSearchParams(params)}`;
+    const res = await fetch(url, { headers: { Authorization: `Bearer ${await getAccessToken()}` } });
+    if (!res.ok) throw new Error(`Drive request ${pathname} failed (${res.status})`);
+    return res;
+  };
+
+  const listFolder = async () => {
+    const files: SourceFile[] = [];
+    let pageToken: string | undefined;
+    do {
+      const res = await request("/files", {
+        q: `'${options.folderId}' in parents and trashed = false`,
+        fields: `nextPageToken,files(${FILE_FIELDS})`,
+        pageSize: "1000",
+        ...(pageToken ? { pageToken } : {}),
+      });
+      const data = await res.json();
+      for (const file of data.files || []) {
+        const sourceFile = toSourceFile(file);
+        if (sourceFile) files.push(sourceFile);
+      }
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+    return files;
+  };
+
+  return {
+    kind: "drive",
+    location: options.folderId,
+
+    async listChanges(cursor) {
+      if (!cursor) {
+        const startRes = await request("/changes/startPageToken");
+        const { startPageToken } = await startRes.json();
+        return { files: await listFolder(), removed: [], cursor: startPageToken, full: true };
+      }
+
+      const files: SourceFile[] = [];
+      const removed: string[] = [];
+      let pageToken = cursor;
+      while (true) {
+        const res = await request("/changes", {
+          pageToken,
+          fields: `nextPageToken,newStartPageToken,changes(fileId,removed,file(${FILE_FIELDS}))`,
+          pageSize: "1000",
+        });
+        const data = await res.json();
+        for (const change of data.changes || []) {
+          const file = change.file;
+          // A file moved out of the folder looks the same to us as a deleted one.
+          if (change.removed || !file || file.trashed || !(file.parents || []).includes(options.folderId)) {
+            removed.push(change.fileId);
+            continue;
+          }
+          const sourceFile = toSourceFile(file);
+          if (sourceFile) files.push(sourceFile);
+        }
+        if (data.newStartPageToken) return { files, removed, cursor: data.newStartPageToken, full: false };
+        pageToken = data.nextPageToken;
+      }
+    },
+
+    async fetchFile(id) {
+      const res = await request(`/files/${encodeURIComponent(id)}`, { alt: "media" });
+      await fs.mkdir(cacheDir, { recursive: true });
+      const filePath = path.join(cacheDir, id);
+      await fs.writeFile(filePath, Buffer.from(await res.arrayBuffer()));
+      return filePath;
+    },
+  };
+}
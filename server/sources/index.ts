@@ -0,0 +1,61 @@
+import path from "path";
+import { settingsEnv } from "../settings";
+import type { ChannelRow } from "../types";
+import { createDriveSource } from "./drive";
+import { createLocalSource } from "./local";
+import type { MediaSource } from "./types";
+
+export type { MediaSource, SourceChanges, SourceFile } from "./types";
+
+// Builds the source for a channel's media folder. With MEDIA_SOURCE=local the
+// channel's drive_folder_id is a subfolder of LOCAL_MEDIA_DIR; otherwise it is
+// a Google Drive folder id. Drive credentials saved in Settings win over the environment.
+export function createSourceForChannel(channel: ChannelRow, env: NodeJS.ProcessEnv = settingsEnv()): MediaSource {
+  if (!channel.drive_folder_id) throw new Error(`Channel "${channel.name}" has no media folder`);
+  return createSource(channel.drive_folder_id, env);
+}
+
+function createSource(folder: string, env: NodeJS.ProcessEnv): MediaSource {
+  if (env.MEDIA_SOURCE === "local") {
+    return createLocalSource(env.LOCAL_MEDIA_DIR || "media", folder);
+  }
+
+  if (!env.GOOGLE_CLIENT_ID || !env.GOOGLE_CLIENT_SECRET || !env.GOOGLE_REFRESH_TOKEN) {
+    throw new Error("Google Drive is not configured: add the Google credentials in Settings");
+  }
+  return createDriveSource({
+    folderId: folder,
+    clientId: env.GOOGLE_CLIENT_ID,
+    clientSecret: env.GOOGLE_CLIENT_SECRET,
+    refreshToken: env.GOOGLE_REFRESH_TOKEN,
+    apiUrl: env.GOOGLE_DRIVE_API_URL,
+    tokenUrl: env.GOOGLE_OAUTH_TOKEN_URL,
+    cacheDir: env.MEDIA_CACHE_DIR,
+  });
+}
+
+// The `media.source` recorded on files scanned from the channel's folder, or
+// null when it has none. Needs no credentials.
+export function channelSourceKey(channel: ChannelRow, env: NodeJS.ProcessEnv = settingsEnv()) {
+  if (!channel.drive_folder_id) return null;
+  if (env.MEDIA_SOURCE === "local") return `local:${path.resolve(env.LOCAL_MEDIA_DIR || "media", channel.drive_folder_id)}`;
+  return `drive:${channel.drive_folder_id}`;
+}
+
+// Downloads (or locates) the current contents of a media row's source file.
+// The file is fetched from the folder recorded in `media.source` when it was
+// scanned, not from its channel's folder: a post keeps its file when it moves
+// to another channel. Derived media rendered by the transform pipeline lives in DERIVED_MEDIA_DIR.
+export async function fetchMediaFile(media: { file_id: string; source: string | null }, env: NodeJS.ProcessEnv = settingsEnv()) {
+  if (media.source === "derived") {
+    return path.join(path.resolve(process.env.DERIVED_MEDIA_DIR || "media-derived"), media.file_id.slice("derived:".length));
+  }
+
+  const kind = media.source?.slice(0, media.source.indexOf(":"));
+  if (!media.source || kind !== (env.MEDIA_SOURCE === "local" ? "local" : "drive")) {
+    throw new Error(`Media comes from ${media.source || "an unknown source"}, which isn't the configured media source`);
+  }
+  const location = media.source.slice(kind.length + 1);
+  const folder = kind === "local" ? path.relative(path.resolve(env.LOCAL_MEDIA_DIR || "media"), location) : location;
+  return createSource(folder, env).fetchFile(media.file_id.slice(kind.length + 1));
+}
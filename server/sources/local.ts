@@ -0,0 +1,65 @@
+import fs from "fs/promises";
+import path from "path";
+import { mediaTypeFor, type MediaSource, type SourceFile } from "./types";
+
+async function walk(root: string, dir = ""): Promise<SourceFile[]> {
+  const entries = await fs.readdir(path.join(root, dir), { withFileTypes: true });
+  const files: SourceFile[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    const rel = path.posix.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await walk(root, rel)));
+      continue;
+    }
+    const type = mediaTypeFor(entry.name);
+    if (!entry.isFile() || type === "other") continue;
+    const stat = await fs.stat(path.join(root, rel));
+    files.push({
+      id: rel,
+      name: entry.name,
+      type,
+      size: stat.size,
+      modifiedTime: stat.mtime.toISOString(),
+      checksum: null,
+    });
+  }
+  return files;
+}
+
+// Reads media from `folder` under a root directory on disk. File ids are paths
+// relative to the root, so several folders can share one root without clashing.
+// The cursor is a snapshot of every file's mtime and size, so the next scan can
+// report only what changed.
+export function createLocalSource(root: string, folder = ""): MediaSource {
+  const absRoot = path.resolve(root);
+  const location = path.resolve(absRoot, folder);
+  if (location !== absRoot && !location.startsWith(absRoot + path.sep)) throw new Error(`Folder ${folder} is outside ${absRoot}`);
+
+  return {
+    kind: "local",
+    location,
+
+    async listChanges(cursor) {
+      const files = await walk(absRoot, path.relative(absRoot, location).split(path.sep).join("/"));
+      const snapshot: Record<string, string> = {};
+      for (const file of files) snapshot[file.id] = `${file.modifiedTime}:${file.size}`;
+
+      const previous: Record<string, string> | null = cursor ? JSON.parse(cursor) : null;
+      if (!previous) return { files, removed: [], cursor: JSON.stringify(snapshot), full: true };
+
+      return {
+        files: files.filter(file => previous[file.id] !== snapshot[file.id]),
+        removed: Object.keys(previous).filter(id => !(id in snapshot)),
+        cursor: JSON.stringify(snapshot),
+        full: false,
+      };
+    },
+
+    async fetchFile(id) {
+      const filePath = path.resolve(absRoot, id);
+      if (!filePath.startsWith(absRoot + path.sep)) throw new Error(`Invalid file id: ${id}`);
+      return filePath;
+    },
+  };
+}
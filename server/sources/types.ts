@@ -0,0 +1,41 @@
+export interface SourceFile {
+  id: string;
+  name: string;
+  type: "video" | "image" | "other";
+  size: number;
+  modifiedTime: string;
+  checksum: string | null;
+  width?: number;
+  height?: number;
+}
+
+export interface SourceChanges {
+  // Files that are new or changed since the cursor. On a full listing this is everything.
+  files: SourceFile[];
+  // Ids that no longer exist at the source.
+  removed: string[];
+  cursor: string;
+  // True when `files` is a complete listing rather than a delta.
+  full: boolean;
+}
+
+export interface MediaSource {
+  kind: string;
+  // Identifies the folder being watched, so cursors for different folders don't collide.
+  location: string;
+  listChanges(cursor: string | null): Promise<SourceChanges>;
+  // Returns a path on local disk holding the file's current contents.
+  fetchFile(id: string): Promise<string>;
+}
+
+const VIDEO_EXTENSIONS = [".mp4", ".mov", ".m4v", ".webm", ".mkv", ".avi"];
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".gif", ".webp", ".heic"];
+
+export function mediaTypeFor(name: string, mimeType?: string): SourceFile["type"] {
+  if (mimeType?.startsWith("video/")) return "video";
+  if (mimeType?.startsWith("image/")) return "image";
+  const ext = name.slice(name.lastIndexOf(".")).toLowerCase();
+  if (VIDEO_EXTENSIONS.includes(ext)) return "video";
+  if (IMAGE_EXTENSIONS.includes(ext)) return "image";
+  return "other";
+}
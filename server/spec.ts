@@ -0,0 +1,94 @@
+import { isImageCodec, type ProbeResult } from "./probe";
+
+export interface SpecProfile {
+  aspectRatio: string;
+  // Allowed relative difference from the target ratio.
+  aspectTolerance: number;
+  minWidth: number;
+  minDurationSeconds: number;
+  maxDurationSeconds: number;
+  maxVideoBytes: number;
+  maxImageBytes: number;
+  videoCodecs: string[];
+}
+
+export interface SpecIssue {
+  code: "unreadable" | "aspect_ratio" | "resolution" | "too_short" | "too_long" | "too_large" | "codec";
+  message: string;
+  // Fixable issues can be corrected by re-encoding; the rest need a different source file.
+  fixable: boolean;
+}
+
+const numberFromEnv = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export function specProfileFromEnv(env: NodeJS.ProcessEnv = process.env): SpecProfile {
+  return {
+    aspectRatio: env.SPEC_ASPECT_RATIO || "9:16",
+    aspectTolerance: 0.02,
+    minWidth: numberFromEnv(env.SPEC_MIN_WIDTH, 540),
+    minDurationSeconds: numberFromEnv(env.SPEC_MIN_DURATION_SECONDS, 3),
+    maxDurationSeconds: numberFromEnv(env.SPEC_MAX_DURATION_SECONDS, 60),
+    maxVideoBytes: numberFromEnv(env.SPEC_MAX_VIDEO_MB, 300) * 1024 * 1024,
+    maxImageBytes: numberFromEnv(env.SPEC_MAX_IMAGE_MB, 20) * 1024 * 1024,
+    videoCodecs: (env.SPEC_VIDEO_CODECS || "h264,hevc").split(",").map(c => c.trim()),
+  };
+}
+
+const COMMON_RATIOS: [string, number][] = [["9:16", 9 / 16], ["16:9", 16 / 9], ["1:1", 1], ["4:5", 4 / 5], ["3:4", 3 / 4], ["4:3", 4 / 3]];
+
+export function aspectRatioLabel(width?: number | null, height?: number | null) {
+  if (!width || !height) return null;
+  const ratio = width / height;
+  const match = COMMON_RATIOS.find(([, value]) => Math.abs(value - ratio) < 0.02);
+  if (match) return match[0];
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const d = gcd(width, height);
+  return `${width / d}:${height / d}`;
+}
+
+const parseRatio = (ratio: string) => {
+  const [w, h] = ratio.split(":").map(Number);
+  return w / h;
+};
+
+const formatMB = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+
+export function validateAgainstSpec(probe: ProbeResult, profile: SpecProfile): SpecIssue[] {
+  if (!probe.width || !probe.height) {
+    return [{ code: "unreadable", message: "No video or image stream found", fixable: false }];
+  }
+
+  const issues: SpecIssue[] = [];
+  const isVideo = !isImageCodec(probe.codec);
+  const target = parseRatio(profile.aspectRatio);
+  const actual = probe.width / probe.height;
+
+  if (Math.abs(actual - target) / target > profile.aspectTolerance) {
+    issues.push({ code: "aspect_ratio", message: `Aspect ratio is ${probe.width}x${probe.height}, expected ${profile.aspectRatio}`, fixable: true });
+  }
+  if (Math.min(probe.width, probe.height) < profile.minWidth) {
+    issues.push({ code: "resolution", message: `Resolution ${probe.width}x${probe.height} is below the ${profile.minWidth}px minimum`, fixable: false });
+  }
+
+  if (isVideo) {
+    if (probe.duration !== null && probe.duration < profile.minDurationSeconds) {
+      issues.push({ code: "too_short", message: `Duration ${probe.duration.toFixed(1)}s is under the ${profile.minDurationSeconds}s minimum`, fixable: false });
+    }
+    if (probe.duration !== null && probe.duration > profile.maxDurationSeconds) {
+      issues.push({ code: "too_long", message: `Duration ${probe.duration.toFixed(1)}s exceeds the ${profile.maxDurationSeconds}s maximum`, fixable: true });
+    }
+    if (probe.codec && !profile.videoCodecs.includes(probe.codec)) {
+      issues.push({ code: "codec", message: `Codec ${probe.codec} is not one of ${profile.videoCodecs.join(", ")}`, fixable: true });
+    }
+  }
+
+  const maxBytes = isVideo ? profile.maxVideoBytes : profile.maxImageBytes;
+  if (probe.size > maxBytes) {
+    issues.push({ code: "too_large", message: `File is ${formatMB(probe.size)}, over the ${formatMB(maxBytes)} limit`, fixable: true });
+  }
+
+  return issues;
+}
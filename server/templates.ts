@@ -0,0 +1,111 @@
+import { db } from "./db";
+import type { ChannelRow, MediaRow } from "./types";
+
+export interface CaptionTemplate {
+  id: number;
+  name: string;
+  body: string;
+  // Null for templates shared by every channel.
+  channel_id: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface HashtagSet {
+  id: number;
+  channel_id: number;
+  tags: string;
+  cta: string | null;
+  position: number;
+}
+
+export interface RenderResult {
+  text: string;
+  // Variables the template used that had no value.
+  missing: string[];
+}
+
+export const BUILT_IN_VARIABLES = ["file_name", "title", "channel", "date", "time", "type", "duration", "hashtags", "cta"];
+
+const VARIABLE_PATTERN = /\{([a-zA-Z0-9_]+)\}/g;
+
+// "behind_the_scenes-02.mp4" -> "Behind the scenes 02"
+const titleFromFileName = (fileName: string) => {
+  const words = fileName.replace(/\.[^.]+$/, "").replace(/[_\-.]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export function parseTemplateFields(channel: ChannelRow | undefined): Record<string, string> {
+  if (!channel?.template_fields) return {};
+  try {
+    const fields = JSON.parse(channel.template_fields);
+    return fields && typeof fields === "object" ? fields : {};
+  } catch {
+    return {};
+  }
+}
+
+export function hashtagSetsFor(channelId: number) {
+  return db.prepare("SELECT * FROM hashtag_sets WHERE channel_id = ? ORDER BY position, id").all(channelId) as HashtagSet[];
+}
+
+// The channel's hashtag sets are used round-robin. Previews peek at the next
+// set; applying a template to a post consumes it.
+export function nextHashtagSet(channel: ChannelRow, advance: boolean) {
+  const sets = hashtagSetsFor(channel.id);
+  if (sets.length === 0) return null;
+  const set = sets[channel.hashtag_cursor % sets.length];
+  if (advance) db.prepare("UPDATE channels SET hashtag_cursor = hashtag_cursor + 1 WHERE id = ?").run(channel.id);
+  return set;
+}
+
+export function buildTemplateContext(media: MediaRow, channel: ChannelRow | undefined, hashtags: HashtagSet | null): Record<string, string> {
+  const when = media.scheduled_time ? new Date(media.scheduled_time) : new Date();
+  return {
+    ...parseTemplateFields(channel),
+    file_name: media.file_name,
+    title: titleFromFileName(media.file_name),
+    channel: channel?.name || "",
+    date: when.toISOString().slice(0, 10),
+    time: when.toISOString().slice(11, 16),
+    type: media.type,
+    duration: media.duration !== null ? `${Math.round(media.duration)}s` : "",
+    hashtags: hashtags?.tags || "",
+    cta: hashtags?.cta || "",
+  };
+}
+
+export function renderTemplate(body: string, context: Record<string, string>): RenderResult {
+  const missing = new Set<string>();
+  const text = body.replace(VARIABLE_PATTERN, (match, name: string) => {
+    const value = context[name];
+    if (value === undefined || value === "") {
+      missing.add(name);
+      return "";
+    }
+    return value;
+  });
+  // Collapse the gaps left by empty variables.
+  return { text: text.replace(/[ \t]{2,}/g, " ").replace(/ +\n/g, "\n").trim(), missing: [...missing] };
+}
+
+export function findTemplate(id: number) {
+  return db.prepare("SELECT * FROM caption_templates WHERE id = ?").get(id) as CaptionTemplate | undefined;
+}
+
+// Renders `template` for a media row. With consume set, the channel's hashtag rotation moves on.
+export function renderForMedia(template: Pick<CaptionTemplate, "body">, media: MediaRow, consume = false): RenderResult {
+  const channel = db.prepare("SELECT * FROM channels WHERE id = ?").get(media.channel_id) as ChannelRow | undefined;
+  const hashtags = channel ? nextHashtagSet(channel, consume) : null;
+  return renderTemplate(template.body, buildTemplateContext(media, channel, hashtags));
+}
+
+// Fills in the caption of a newly ingested post from its channel's default template.
+export function applyDefaultTemplate(media: MediaRow, channel: ChannelRow) {
+  if (media.caption || !channel.default_template_id) return null;
+  const template = findTemplate(channel.default_template_id);
+  if (!template) return null;
+  const { text } = renderForMedia(template, media, true);
+  db.prepare("UPDATE media SET caption = ? WHERE id = ?").run(text, media.id);
+  return text;
+}
@@ -0,0 +1,36 @@
+import { db } from "./db";
+import { runMigrations } from "./migrations";
+import type { ChannelRow, MediaRow } from "./types";
+
+// Tests run with DATABASE_PATH=:memory:, one database per test file.
+export function setupTestDb() {
+  runMigrations(db, { log: () => {} });
+}
+
+let fileCounter = 0;
+
+export function addChannel(fields: Partial<ChannelRow> = {}) {
+  const row = { name: "Channel", profile_id: "profile", drive_folder_id: "folder", daily_limit: 10, status: "Connected", ...fields };
+  const columns = Object.keys(row);
+  const info = db.prepare(`INSERT INTO channels (${columns.join(", ")}) VALUES (${columns.map(c => `@${c}`).join(", ")})`).run(row);
+  return db.prepare("SELECT * FROM channels WHERE id = ?").get(info.lastInsertRowid) as ChannelRow;
+}
+
+// A Pending row that is already due unless fields say otherwise.
+export function addMedia(fields: Partial<MediaRow> = {}) {
+  fileCounter++;
+  const row = {
+    file_name: `file-${fileCounter}.jpg`,
+    file_id: `test:file-${fileCounter}`,
+    type: "image",
+    size: 1,
+    status: "Pending",
+    scheduled_time: new Date(Date.now() - 60 * 1000).toISOString(),
+    ...fields,
+  };
+  const columns = Object.keys(row);
+  const info = db.prepare(`INSERT INTO media (${columns.join(", ")}) VALUES (${columns.map(c => `@${c}`).join(", ")})`).run(row);
+  return findMedia(Number(info.lastInsertRowid));
+}
+
+export const findMedia = (id: number) => db.prepare("SELECT * FROM media WHERE id = ?").get(id) as MediaRow;
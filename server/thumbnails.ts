@@ -0,0 +1,33 @@
+import fs from "fs/promises";
+import path from "path";
+import { db } from "./db";
+import { runFfmpeg } from "./ffmpeg";
+import { mediaFields, writeLog } from "./logs";
+import { fetchMediaFile } from "./sources";
+import type { MediaRow } from "./types";
+
+const THUMBNAIL_WIDTH = 320;
+
+const thumbnailDir = () => path.resolve(process.env.THUMBNAIL_DIR || "media-thumbnails");
+
+export const thumbnailPath = (mediaId: number) => path.join(thumbnailDir(), `${mediaId}.jpg`);
+
+// Renders a small JPEG for the Upload Manager: a frame a second in (or from
+// the middle of very short clips) for video, a downscaled copy for images.
+// Returns false if rendering failed; the UI falls back to a placeholder icon.
+export async function generateThumbnail(media: MediaRow) {
+  try {
+    const input = await fetchMediaFile(media);
+    const output = thumbnailPath(media.id);
+    await fs.mkdir(thumbnailDir(), { recursive: true });
+
+    const seek = media.type === "video" ? ["-ss", String(Math.min(1, (media.duration ?? 2) / 2))] : [];
+    await runFfmpeg(["-y", "-v", "error", ...seek, "-i", input, "-frames:v", "1", "-vf", `scale=${THUMBNAIL_WIDTH}:-2`, "-q:v", "4", output]);
+
+    db.prepare("UPDATE media SET thumbnail_updated_at = ? WHERE id = ?").run(new Date().toISOString(), media.id);
+    return true;
+  } catch (e: any) {
+    writeLog(media.file_name, "Thumbnail Failed", "Failed", e?.message || String(e), { ...mediaFields(media), level: "warn" });
+    return false;
+  }
+}
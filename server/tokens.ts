@@ -0,0 +1,83 @@
+import { decrypt, encrypt } from "./crypto";
+import { db } from "./db";
+import { emitChannelChange } from "./events";
+import { writeLog } from "./logs";
+import { notify } from "./notifications";
+import { AuthRevokedError, type Publisher, type TokenSet } from "./publishers/types";
+
+// Refresh this long before expiry so a token can't lapse mid-upload.
+const REFRESH_MARGIN_MS = 2 * 60 * 1000;
+
+const refreshing = new Map<number, Promise<string>>();
+
+export function saveTokens(channelId: number, provider: string, tokens: TokenSet) {
+  db.prepare(`
+    INSERT INTO channel_tokens (channel_id, provider, access_token, refresh_token, expires_at, scope, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(channel_id) DO UPDATE SET
+      provider = excluded.provider, access_token = excluded.access_token, refresh_token = excluded.refresh_token,
+      expires_at = excluded.expires_at, scope = excluded.scope, updated_at = CURRENT_TIMESTAMP
+  `).run(
+    channelId,
+    provider,
+    encrypt(tokens.accessToken),
+    tokens.refreshToken ? encrypt(tokens.refreshToken) : null,
+    tokens.expiresAt,
+    tokens.scope ?? null,
+  );
+}
+
+export function hasTokens(channelId: number) {
+  return !!db.prepare("SELECT 1 FROM channel_tokens WHERE channel_id = ?").get(channelId);
+}
+
+function markExpired(channelId: number, reason: string) {
+  const channel = db.prepare("SELECT name, status FROM channels WHERE id = ?").get(channelId) as { name: string; status: string } | undefined;
+  db.prepare("UPDATE channels SET status = 'Token Expired', health_error = ? WHERE id = ?").run(reason, channelId);
+  emitChannelChange(channelId);
+  const name = channel?.name || `Channel ${channelId}`;
+  writeLog(name, "Token Refresh", "Failed", reason, { channel_id: channelId });
+  // Health checks keep refreshing an expired channel; only the first failure is news.
+  if (channel && channel.status !== "Token Expired") notifyTokenExpired(channelId, name, reason);
+}
+
+export const notifyTokenExpired = (channelId: number, name: string, reason: string) => notify({
+  kind: "token_expired",
+  severity: "error",
+  title: `${name} needs reconnecting`,
+  message: `${reason}. Publishing to this channel has stopped until it's reconnected.`,
+  channel_id: channelId,
+});
+
+// Returns a usable access token for the channel, refreshing it first if it is
+// close to expiry. Concurrent callers for the same channel share one refresh.
+export async function getAccessToken(channelId: number, publisher: Publisher): Promise<string> {
+  const row = db.prepare("SELECT * FROM channel_tokens WHERE channel_id = ?").get(channelId) as any;
+  if (!row) throw new AuthRevokedError("Channel has no Snapchat authorization");
+  if (row.expires_at - REFRESH_MARGIN_MS > Date.now()) return decrypt(row.access_token);
+
+  const pending = refreshing.get(channelId);
+  if (pending) return pending;
+
+  const refresh = (async () => {
+    if (!row.refresh_token) {
+      markExpired(channelId, "Access token expired and no refresh token is stored");
+      throw new AuthRevokedError("Snapchat authorization expired");
+    }
+    try {
+      const tokens = await publisher.refresh(decrypt(row.refresh_token));
+      saveTokens(channelId, row.provider, tokens);
+      return tokens.accessToken;
+    } catch (e: any) {
+      if (e instanceof AuthRevokedError) markExpired(channelId, e.message);
+      throw e;
+    }
+  })();
+
+  refreshing.set(channelId, refresh);
+  try {
+    return await refresh;
+  } finally {
+    refreshing.delete(channelId);
+  }
+}
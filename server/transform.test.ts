@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { addChannel, addMedia, setupTestDb } from "./test-helpers";
+import { transformMedia, TransformError } from "./transform";
+
+const rejectsWith = (promise: Promise<unknown>, code: TransformError["code"]) =>
+  assert.rejects(promise, (e: TransformError) => e instanceof TransformError && e.code === code);
+
+before(setupTestDb);
+
+describe("transformMedia", () => {
+  it("only transforms originals that need fixing", async () => {
+    const channel = addChannel();
+    for (const status of ["Pending", "Rejected", "Published", "Deleted"] as const) {
+      await rejectsWith(transformMedia(addMedia({ channel_id: channel.id, status })), "not_needs_fix");
+    }
+  });
+
+  it("refuses to transform a derived row", async () => {
+    const channel = addChannel();
+    const original = addMedia({ channel_id: channel.id, status: "Needs Fix" });
+    const derived = addMedia({ channel_id: channel.id, parent_id: original.id, status: "Needs Fix", source: "derived" });
+    await rejectsWith(transformMedia(derived), "derived_media");
+  });
+
+  it("won't re-render a version that can't go back to Pending", async () => {
+    const channel = addChannel();
+    for (const status of ["Published", "Uploading", "Failed", "Dead Letter"] as const) {
+      const original = addMedia({ channel_id: channel.id, status: "Needs Fix" });
+      addMedia({ channel_id: channel.id, parent_id: original.id, status, source: "derived" });
+      await rejectsWith(transformMedia(original), "invalid_transition");
+    }
+  });
+});
@@ -0,0 +1,153 @@
+import fs from "fs/promises";
+import path from "path";
+import { db } from "./db";
+import { emitMediaChange } from "./events";
+import { runFfmpeg } from "./ffmpeg";
+import { inspectMedia } from "./ingest";
+import { mediaFields, writeLog } from "./logs";
+import { transitionError, updateMedia } from "./media";
+import { isImageCodec, probeFile, type ProbeResult } from "./probe";
+import { fetchMediaFile } from "./sources";
+import { generateThumbnail } from "./thumbnails";
+import { specProfileFromEnv, type SpecProfile } from "./spec";
+import type { MediaRow } from "./types";
+
+export type FitMode = "crop" | "letterbox" | "blur";
+
+export interface TransformOptions {
+  // How to fit non-vertical footage into the 9:16 frame.
+  fit: FitMode;
+  width: number;
+  height: number;
+  videoCodec: string;
+  videoBitrate: string;
+  // ffmpeg -q:v for JPEG output, 2 (best) to 31 (smallest).
+  imageQuality: number;
+}
+
+export class TransformError extends Error {
+  constructor(message: string, public code: "derived_media" | "not_needs_fix" | "invalid_transition") {
+    super(message);
+  }
+}
+
+export const DEFAULT_TRANSFORM: TransformOptions = {
+  fit: "blur",
+  width: 1080,
+  height: 1920,
+  videoCodec: "libx264",
+  videoBitrate: "4M",
+  imageQuality: 3,
+};
+
+const derivedMediaDir = () => path.resolve(process.env.DERIVED_MEDIA_DIR || "media-derived");
+
+export const autoTransformEnabled = () => process.env.TRANSFORM_AUTO === "true";
+
+function fitFilter({ fit, width: w, height: h }: TransformOptions) {
+  switch (fit) {
+    case "crop":
+      return `[0:v]scale=${w}:${h}:force_original_aspect_ratio=increase,crop=${w}:${h},setsar=1[out]`;
+    case "letterbox":
+      return `[0:v]scale=${w}:${h}:force_original_aspect_ratio=decrease,pad=${w}:${h}:(ow-iw)/2:(oh-ih)/2:black,setsar=1[out]`;
+    case "blur":
+      // Blurred, zoomed copy of the frame behind the letterboxed original.
+      return [
+        `[0:v]split[bg][fg]`,
+        `[bg]scale=${w}:${h}:force_original_aspect_ratio=increase,crop=${w}:${h},boxblur=20:5[bgb]`,
+        `[fg]scale=${w}:${h}:force_original_aspect_ratio=decrease[fgs]`,
+        `[bgb][fgs]overlay=(W-w)/2:(H-h)/2,setsar=1[out]`,
+      ].join(";");
+  }
+}
+
+export function buildFfmpegArgs(input: string, output: string, probe: ProbeResult, options: TransformOptions, profile: SpecProfile, imageQuality = options.imageQuality) {
+  const args = ["-y", "-v", "error", "-i", input, "-filter_complex", fitFilter(options), "-map", "[out]"];
+
+  if (isImageCodec(probe.codec)) {
+    return [...args, "-frames:v", "1", "-q:v", String(imageQuality), output];
+  }
+
+  if (probe.duration !== null && probe.duration > profile.maxDurationSeconds) {
+    args.push("-t", String(profile.maxDurationSeconds));
+  }
+  if (probe.hasAudio) args.push("-map", "0:a:0", "-c:a", "aac", "-b:a", "128k");
+  return [
+    ...args,
+    "-c:v", options.videoCodec,
+    "-preset", "veryfast",
+    "-b:v", options.videoBitrate,
+    "-pix_fmt", "yuv420p",
+    "-movflags", "+faststart",
+    output,
+  ];
+}
+
+// The latest processed version of an original, deleted or not.
+export const findDerived = (parentId: number) =>
+  db.prepare("SELECT * FROM media WHERE parent_id = ? ORDER BY id DESC").get(parentId) as MediaRow | undefined;
+
+// Renders a postable version of `media` and stores it as a derived row linked
+// to the original. Only Needs Fix originals qualify: they stay out of the queue
+// while the derived row takes their place, so the post can't go out twice. The
+// derived row is overwritten on re-render while the status rules allow it to
+// go back to Pending; once it's deleted, a new one is made.
+export async function transformMedia(media: MediaRow, overrides: Partial<TransformOptions> = {}, profile: SpecProfile = specProfileFromEnv()) {
+  if (media.parent_id !== null) throw new TransformError("Derived media can't be transformed again, transform the original instead", "derived_media");
+  if (media.status !== "Needs Fix") throw new TransformError(`Only Needs Fix media can be transformed, this one is ${media.status}`, "not_needs_fix");
+  const options = { ...DEFAULT_TRANSFORM, ...overrides };
+
+  const latest = findDerived(media.id);
+  const existing = latest?.status === "Deleted" ? undefined : latest;
+  const blocked = existing && transitionError(existing.status, "Pending");
+  if (blocked) throw new TransformError(`The processed version can't be re-rendered: ${blocked}`, "invalid_transition");
+
+  const input = await fetchMediaFile(media);
+  const probe = await probeFile(input);
+  const isImage = isImageCodec(probe.codec);
+  // Deleted versions keep their file_id, so a new one needs a name of its own.
+  const stem = existing ? existing.file_id.slice("derived:".length).replace(/\.[^.]+$/, "") : latest ? `${media.id}-${latest.id}` : String(media.id);
+  const fileName = `${stem}.${isImage ? "jpg" : "mp4"}`;
+  const output = path.join(derivedMediaDir(), fileName);
+  await fs.mkdir(derivedMediaDir(), { recursive: true });
+
+  try {
+    if (isImage) {
+      // Step the JPEG quality down until the image fits the size limit.
+      for (let quality = options.imageQuality; quality <= 31; quality += 4) {
+        await runFfmpeg(buildFfmpegArgs(input, output, probe, options, profile, quality));
+        if ((await fs.stat(output)).size <= profile.maxImageBytes) break;
+      }
+    } else {
+      await runFfmpeg(buildFfmpegArgs(input, output, probe, options, profile));
+    }
+  } catch (e: any) {
+    writeLog(media.file_name, "Transform Failed", "Failed", e?.message || String(e), { ...mediaFields(media), context: { fit: options.fit } });
+    throw e;
+  }
+
+  const baseName = media.file_name.replace(/\.[^.]+$/, "");
+  const derivedName = `${baseName}_9x16.${isImage ? "jpg" : "mp4"}`;
+  let derivedId: number;
+  if (existing) {
+    db.prepare("UPDATE media SET file_name = ?, file_id = ?, type = ?, transform = ?, attempts = 0, next_attempt_at = NULL, last_error = NULL WHERE id = ?")
+      .run(derivedName, `derived:${fileName}`, isImage ? "image" : "video", JSON.stringify(options), existing.id);
+    if (existing.status !== "Pending") updateMedia(existing.id, { status: "Pending" });
+    derivedId = existing.id;
+  } else {
+    derivedId = Number(db.prepare(`
+      INSERT INTO media (channel_id, parent_id, file_name, file_id, type, size, source, transform, caption, scheduled_time, post_type)
+      VALUES (?, ?, ?, ?, ?, 0, 'derived', ?, ?, ?, ?)
+    `).run(
+      media.channel_id, media.id, derivedName, `derived:${fileName}`, isImage ? "image" : "video",
+      JSON.stringify(options), media.caption, media.scheduled_time, media.post_type,
+    ).lastInsertRowid);
+  }
+
+  writeLog(media.file_name, `Transformed (${options.fit}) to ${derivedName}`, "Success", null, { ...mediaFields(media), context: { fit: options.fit, derived_id: derivedId } });
+  const derived = db.prepare("SELECT * FROM media WHERE id = ?").get(derivedId) as MediaRow;
+  await inspectMedia(derived, profile);
+  await generateThumbnail(derived);
+  emitMediaChange(derivedId);
+  return db.prepare("SELECT * FROM media WHERE id = ?").get(derivedId) as MediaRow;
+}
@@ -0,0 +1,120 @@
+export type ApprovalStatus = "Draft" | "In Review" | "Approved" | "Changes Requested";
+
+export type MediaStatus = "Pending" | "Uploading" | "Published" | "Failed" | "Dead Letter" | "Removed" | "Needs Fix" | "Rejected" | "Deleted";
+
+export interface MediaRow {
+  id: number;
+  channel_id: number | null;
+  // Set on media rendered by the transform pipeline; points at the original.
+  parent_id: number | null;
+  // JSON TransformOptions used to render a derived row.
+  transform: string | null;
+  file_name: string;
+  file_id: string;
+  type: string;
+  size: number;
+  aspect_ratio: string | null;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  codec: string | null;
+  bitrate: number | null;
+  // JSON array of SpecIssue, set when the file failed the spec check.
+  spec_issues: string | null;
+  thumbnail_updated_at: string | null;
+  status: MediaStatus;
+  caption: string | null;
+  scheduled_time: string | null;
+  snapchat_link: string | null;
+  post_type: "story" | "spotlight";
+  // Higher goes first when the auto-scheduler fills slots.
+  priority: number;
+  // 1 when scheduled_time was picked by the auto-scheduler, which may move it again on reflow.
+  auto_scheduled: number;
+  // Only meaningful on channels that require approval; null reads as Draft.
+  approval_status: ApprovalStatus | null;
+  published_at: string | null;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  source: string | null;
+  source_modified_at: string | null;
+  source_checksum: string | null;
+  // Bumped on every write; PATCH /api/media/:id can require the version the client last saw.
+  version: number;
+  // SHA-256 of the file, and dHashes of the image or of frames sampled through the video.
+  content_hash: string | null;
+  perceptual_hash: string | null;
+  // Set when the file looks like something already published on the channel.
+  duplicate_of: number | null;
+  duplicate_kind: "exact" | "similar" | null;
+  // Hamming distance between the perceptual hashes; 0 for exact matches.
+  duplicate_distance: number | null;
+  // Flagged posts aren't published until someone decides: merged or skipped (both delete the post) or allowed.
+  duplicate_status: "flagged" | "merged" | "skipped" | "allowed" | null;
+  created_at: string;
+}
+
+// Set by the OAuth flow, token refreshes and the periodic health check.
+export type ChannelStatus = "Connected" | "Disconnected" | "Token Expired";
+
+export interface ChannelRow {
+  id: number;
+  name: string;
+  profile_id: string;
+  avatar: string | null;
+  status: ChannelStatus;
+  drive_folder_id: string;
+  daily_limit: number;
+  caption_prompt: string | null;
+  default_template_id: number | null;
+  // JSON object of custom template variables, e.g. {"shop_url": "..."}.
+  template_fields: string | null;
+  // Number of hashtag sets used so far; picks the next set in the rotation.
+  hashtag_cursor: number;
+  // IANA zone the posting windows are written in.
+  timezone: string;
+  schedule_order: "fifo" | "shuffle";
+  // 1 when posts must be approved by a reviewer before the worker will publish them.
+  requires_approval: number;
+  // 1 while the worker should leave the channel's queue alone.
+  paused: number;
+  health_checked_at: string | null;
+  // Why the last health check didn't find the channel Connected.
+  health_error: string | null;
+  created_at: string;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LogRow {
+  id: number;
+  timestamp: string;
+  level: LogLevel;
+  file_name: string;
+  action: string;
+  status: string;
+  error_message: string | null;
+  media_id: number | null;
+  channel_id: number | null;
+  // Shared by every entry written during one scan or publish run.
+  correlation_id: string | null;
+  // JSON object with details specific to the action.
+  context: string | null;
+  // Who took the action; null for the scanner, worker and other background work.
+  user_id: number | null;
+  username: string | null;
+}
+
+export type NotificationKind = "publish_failed" | "dead_letter" | "token_expired" | "low_runway" | "empty_scan" | "duplicate";
+
+export interface NotificationRow {
+  id: number;
+  kind: NotificationKind;
+  severity: "info" | "warning" | "error";
+  title: string;
+  message: string | null;
+  media_id: number | null;
+  channel_id: number | null;
+  created_at: string;
+}
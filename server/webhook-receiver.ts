@@ -0,0 +1,39 @@
+import "./env";
+import crypto from "crypto";
+import http from "http";
+import { signPayload } from "./crypto";
+
+// A local endpoint to point a webhook at while setting it up: prints every
+// delivery and checks its signature when WEBHOOK_SECRET matches the webhook's.
+// Usage: npm run webhook-receiver -- [port]   (RECEIVER_STATUS=500 makes it fail, to watch retries)
+const port = Number(process.argv[2] || 4000);
+const secret = process.env.WEBHOOK_SECRET;
+const failWith = Number(process.env.RECEIVER_STATUS) || 0;
+const MAX_AGE_SECONDS = 5 * 60;
+
+function verify(req: http.IncomingMessage, body: string) {
+  const signature = req.headers["x-webhook-signature"];
+  const timestamp = req.headers["x-webhook-timestamp"];
+  if (!secret) return signature ? "signed (set WEBHOOK_SECRET to verify)" : "unsigned";
+  if (typeof signature !== "string" || typeof timestamp !== "string") return "MISSING signature";
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_AGE_SECONDS) return "STALE timestamp";
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? "signature ok" : "BAD signature";
+}
+
+http.createServer((req, res) => {
+  let body = "";
+  req.on("data", chunk => (body += chunk));
+  req.on("end", () => {
+    const check = verify(req, body);
+    console.log(`${new Date().toISOString()} ${req.method} ${req.url} event=${req.headers["x-webhook-event"]} delivery=${req.headers["x-webhook-delivery"]} ${check}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    const status = failWith || (check.startsWith("BAD") || check.startsWith("STALE") ? 401 : 200);
+    res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify({ ok: status < 300 }));
+  });
+}).listen(port, () => console.log(`Webhook receiver listening on http://localhost:${port}`));
@@ -0,0 +1,235 @@
+import { decrypt, encrypt, signPayload } from "./crypto";
+import { db } from "./db";
+import { writeLog } from "./logs";
+import { retryDelayMs, type RetryPolicy } from "./retry";
+import type { NotificationKind, NotificationRow } from "./types";
+
+export const WEBHOOK_FORMATS = ["json", "slack"] as const;
+export type WebhookFormat = typeof WEBHOOK_FORMATS[number];
+
+export interface WebhookRow {
+  id: number;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  // Encrypted HMAC key; deliveries go out unsigned without one.
+  secret: string | null;
+  // Comma-separated notification kinds; null sends every kind.
+  kinds: string | null;
+  enabled: number;
+  created_at: string;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  notification_id: number | null;
+  event: string;
+  payload: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface WebhookInput {
+  name?: string;
+  url?: string;
+  format?: WebhookFormat;
+  // null removes the secret.
+  secret?: string | null;
+  kinds?: NotificationKind[] | null;
+  enabled?: boolean;
+}
+
+export class WebhookError extends Error {
+  constructor(message: string, public code: "not_found") {
+    super(message);
+  }
+}
+
+// Backoff between delivery attempts: 30s, 1m, 2m, ... capped at an hour.
+const DELIVERY_POLICY: RetryPolicy = { maxAttempts: 6, baseDelayMs: 30 * 1000, maxDelayMs: 60 * 60 * 1000, factor: 2 };
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const DELIVERY_CHECK_INTERVAL_MS = 10 * 1000;
+
+const findWebhook = (id: number) => db.prepare("SELECT * FROM webhooks WHERE id = ?").get(id) as WebhookRow | undefined;
+
+// What the API returns: the secret never leaves the server, only whether there is one.
+function toView(webhook: WebhookRow) {
+  const { secret, ...rest } = webhook;
+  const last = db.prepare("SELECT status, response_status, error, created_at FROM webhook_deliveries WHERE webhook_id = ? AND status != 'pending' ORDER BY id DESC LIMIT 1")
+    .get(webhook.id) as Pick<WebhookDelivery, "status" | "response_status" | "error" | "created_at"> | undefined;
+  return { ...rest, kinds: webhook.kinds ? webhook.kinds.split(",") as NotificationKind[] : null, has_secret: secret !== null, last_delivery: last ?? null };
+}
+
+export const listWebhooks = () => (db.prepare("SELECT * FROM webhooks ORDER BY id").all() as WebhookRow[]).map(toView);
+
+export function createWebhook(input: Required<Pick<WebhookInput, "name" | "url" | "format">> & WebhookInput) {
+  const info = db.prepare("INSERT INTO webhooks (name, url, format, secret, kinds, enabled) VALUES (?, ?, ?, ?, ?, ?)").run(
+    input.name,
+    input.url,
+    input.format,
+    input.secret ? encrypt(input.secret) : null,
+    input.kinds?.length ? input.kinds.join(",") : null,
+    input.enabled === false ? 0 : 1,
+  );
+  const webhook = findWebhook(Number(info.lastInsertRowid))!;
+  writeLog(webhook.name, "Webhook Created", "Info", null, { context: { url: webhook.url, format: webhook.format } });
+  return toView(webhook);
+}
+
+export function updateWebhook(id: number, input: WebhookInput) {
+  const webhook = findWebhook(id);
+  if (!webhook) throw new WebhookError("Webhook not found", "not_found");
+  const values: Partial<Record<keyof WebhookRow, string | number | null>> = {};
+  if (input.name !== undefined) values.name = input.name;
+  if (input.url !== undefined) values.url = input.url;
+  if (input.format !== undefined) values.format = input.format;
+  if (input.secret !== undefined) values.secret = input.secret ? encrypt(input.secret) : null;
+  if (input.kinds !== undefined) values.kinds = input.kinds?.length ? input.kinds.join(",") : null;
+  if (input.enabled !== undefined) values.enabled = input.enabled ? 1 : 0;
+
+  const fields = Object.keys(values);
+  if (fields.length === 0) return toView(webhook);
+  db.prepare(`UPDATE webhooks SET ${fields.map(key => `${key} = @${key}`).join(", ")} WHERE id = @id`).run({ ...values, id });
+  // A disabled webhook doesn't catch up on what it missed once it's turned back on.
+  if (input.enabled === false) {
+    db.prepare("UPDATE webhook_deliveries SET status = 'failed', error = 'Webhook disabled', next_attempt_at = NULL WHERE webhook_id = ? AND status = 'pending'").run(id);
+  }
+  writeLog(input.name ?? webhook.name, `Webhook Updated (${fields.join(", ")})`, "Info");
+  return toView(findWebhook(id)!);
+}
+
+export function deleteWebhook(id: number) {
+  const webhook = findWebhook(id);
+  if (!webhook) throw new WebhookError("Webhook not found", "not_found");
+  db.transaction(() => {
+    db.prepare("DELETE FROM webhook_deliveries WHERE webhook_id = ?").run(id);
+    db.prepare("DELETE FROM webhooks WHERE id = ?").run(id);
+  })();
+  writeLog(webhook.name, "Webhook Deleted", "Info");
+}
+
+export function webhookDeliveries(id: number, limit = 50) {
+  if (!findWebhook(id)) throw new WebhookError("Webhook not found", "not_found");
+  return db.prepare("SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY id DESC LIMIT ?").all(id, limit) as WebhookDelivery[];
+}
+
+const SLACK_ICONS: Record<NotificationRow["severity"], string> = { info: ":information_source:", warning: ":warning:", error: ":rotating_light:" };
+
+// Generic JSON carries the whole notification; Slack-compatible endpoints
+// (Slack, Mattermost, Discord's /slack route, ...) only read `text`.
+function payloadFor(format: WebhookFormat, event: string, notification: Omit<NotificationRow, "id" | "kind"> & { id: number | null; kind: string }) {
+  if (format === "slack") {
+    const text = `${SLACK_ICONS[notification.severity]} *${notification.title}*${notification.message ? `\n${notification.message}` : ""}`;
+    return JSON.stringify({ text });
+  }
+  return JSON.stringify({ event, sent_at: new Date().toISOString(), notification });
+}
+
+// Queues the notification for every enabled webhook subscribed to its kind.
+// Delivery happens on the next pass of the delivery loop.
+export function enqueueDeliveries(notification: NotificationRow) {
+  const webhooks = db.prepare("SELECT * FROM webhooks WHERE enabled = 1").all() as WebhookRow[];
+  const insert = db.prepare("INSERT INTO webhook_deliveries (webhook_id, notification_id, event, payload, next_attempt_at) VALUES (?, ?, ?, ?, ?)");
+  const now = new Date().toISOString();
+  for (const webhook of webhooks) {
+    if (webhook.kinds && !webhook.kinds.split(",").includes(notification.kind)) continue;
+    insert.run(webhook.id, notification.id, notification.kind, payloadFor(webhook.format, notification.kind, notification), now);
+  }
+}
+
+// One POST. Never throws: the outcome comes back for the caller to record.
+async function send(webhook: WebhookRow, delivery: Pick<WebhookDelivery, "id" | "event" | "payload">) {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "SnapAutomate-Webhooks/1",
+    "X-Webhook-Event": delivery.event,
+    "X-Webhook-Delivery": String(delivery.id),
+    "X-Webhook-Timestamp": timestamp,
+  };
+  try {
+    if (webhook.secret) headers["X-Webhook-Signature"] = signPayload(decrypt(webhook.secret), timestamp, delivery.payload);
+    const res = await fetch(webhook.url, { method: "POST", headers, body: delivery.payload, signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS) });
+    if (res.ok) return { ok: true, status: res.status, error: null };
+    const body = (await res.text().catch(() => "")).slice(0, 200);
+    return { ok: false, status: res.status, error: `HTTP ${res.status}${body ? `: ${body}` : ""}` };
+  } catch (e: any) {
+    return { ok: false, status: null, error: e?.name === "TimeoutError" ? "Timed out" : e?.cause?.message || e?.message || String(e) };
+  }
+}
+
+// Like publishing: throttling, timeouts and server errors are worth retrying,
+// any other 4xx means the receiver rejected the request and will keep doing so.
+const isRetryableStatus = (status: number | null) => status === null || status === 408 || status === 429 || status >= 500;
+
+async function attempt(webhook: WebhookRow, delivery: WebhookDelivery, retry = true) {
+  const result = await send(webhook, delivery);
+  const attempts = delivery.attempts + 1;
+  if (result.ok) {
+    db.prepare("UPDATE webhook_deliveries SET status = 'delivered', attempts = ?, response_status = ?, error = NULL, next_attempt_at = NULL, delivered_at = CURRENT_TIMESTAMP WHERE id = ?")
+      .run(attempts, result.status, delivery.id);
+  } else if (retry && isRetryableStatus(result.status) && attempts < DELIVERY_POLICY.maxAttempts) {
+    const next = new Date(Date.now() + retryDelayMs(DELIVERY_POLICY, attempts)).toISOString();
+    db.prepare("UPDATE webhook_deliveries SET attempts = ?, response_status = ?, error = ?, next_attempt_at = ? WHERE id = ?")
+      .run(attempts, result.status, result.error, next, delivery.id);
+  } else {
+    db.prepare("UPDATE webhook_deliveries SET status = 'failed', attempts = ?, response_status = ?, error = ?, next_attempt_at = NULL WHERE id = ?")
+      .run(attempts, result.status, result.error, delivery.id);
+    writeLog(webhook.name, `Webhook Delivery Failed (${delivery.event})`, "Failed", result.error, {
+      level: "warn",
+      context: { webhook_id: webhook.id, delivery_id: delivery.id, attempts, response_status: result.status },
+    });
+  }
+  return db.prepare("SELECT * FROM webhook_deliveries WHERE id = ?").get(delivery.id) as WebhookDelivery;
+}
+
+// Sends a sample notification straight away, without retries, so an admin can
+// check the URL, format and signature against their receiver.
+export async function testWebhook(id: number) {
+  const webhook = findWebhook(id);
+  if (!webhook) throw new WebhookError("Webhook not found", "not_found");
+  const sample = {
+    id: null,
+    kind: "test",
+    severity: "info" as const,
+    title: "Test notification",
+    message: `Sent from the Settings page to check the ${webhook.name} webhook`,
+    media_id: null,
+    channel_id: null,
+    created_at: new Date().toISOString(),
+  };
+  const info = db.prepare("INSERT INTO webhook_deliveries (webhook_id, event, payload) VALUES (?, 'test', ?)")
+    .run(webhook.id, payloadFor(webhook.format, "test", sample));
+  const delivery = db.prepare("SELECT * FROM webhook_deliveries WHERE id = ?").get(info.lastInsertRowid) as WebhookDelivery;
+  return attempt(webhook, delivery, false);
+}
+
+// Sends due deliveries every few seconds, one at a time, oldest first.
+export function startWebhookDeliveries() {
+  let running = false;
+  return setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const due = db.prepare(`
+        SELECT webhook_deliveries.* FROM webhook_deliveries JOIN webhooks ON webhooks.id = webhook_deliveries.webhook_id
+        WHERE webhook_deliveries.status = 'pending' AND webhooks.enabled = 1 AND datetime(webhook_deliveries.next_attempt_at) <= datetime('now')
+        ORDER BY webhook_deliveries.id LIMIT 20
+      `).all() as WebhookDelivery[];
+      for (const delivery of due) {
+        const webhook = findWebhook(delivery.webhook_id);
+        if (webhook) await attempt(webhook, delivery);
+      }
+    } catch (e) {
+      console.error("Webhook delivery failed", e);
+    } finally {
+      running = false;
+    }
+  }, DELIVERY_CHECK_INTERVAL_MS);
+}
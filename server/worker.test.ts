@@ -0,0 +1,166 @@
+import fs from "fs";
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import os from "os";
+import path from "path";
+import { runBulk } from "./bulk";
+import { db } from "./db";
+import { PublisherHttpError } from "./publishers";
+import { fetchMediaFile } from "./sources";
+import { addChannel, addMedia, findMedia, setupTestDb } from "./test-helpers";
+import type { MediaRow } from "./types";
+import { createPublishWorker, PublishError, remainingCapacity } from "./worker";
+
+const POLICY = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000, factor: 2 };
+
+// A worker whose publish records what it was asked to post.
+function recordingWorker({ fail, canPublish }: { fail?: (media: MediaRow) => Error | null; canPublish?: () => boolean } = {}) {
+  const published: number[] = [];
+  const worker = createPublishWorker({
+    retryPolicy: POLICY,
+    canPublish,
+    publish: async (media) => {
+      const error = fail?.(media);
+      if (error) throw error;
+      published.push(media.id);
+      return { snapchat_link: `https://example.test/${media.id}` };
+    },
+  });
+  return { worker, published };
+}
+
+const publishedCount = (channelId: number) =>
+  (db.prepare("SELECT COUNT(*) as count FROM media WHERE channel_id = ? AND status = 'Published'").get(channelId) as { count: number }).count;
+
+before(setupTestDb);
+
+describe("publish worker", () => {
+  it("publishes due posts and leaves future ones queued", async () => {
+    const channel = addChannel();
+    const due = addMedia({ channel_id: channel.id });
+    const later = addMedia({ channel_id: channel.id, scheduled_time: new Date(Date.now() + 60 * 60 * 1000).toISOString() });
+    const { worker, published } = recordingWorker();
+
+    await worker.tick();
+
+    assert.deepEqual(published, [due.id]);
+    const row = findMedia(due.id);
+    assert.equal(row.status, "Published");
+    assert.ok(row.published_at);
+    assert.equal(row.snapchat_link, `https://example.test/${due.id}`);
+    assert.equal(findMedia(later.id).status, "Pending");
+  });
+
+  it("applies the daily limit to each channel separately", async () => {
+    const small = addChannel({ daily_limit: 1 });
+    const large = addChannel({ daily_limit: 3 });
+    for (let i = 0; i < 3; i++) addMedia({ channel_id: small.id });
+    for (let i = 0; i < 2; i++) addMedia({ channel_id: large.id });
+    const { worker } = recordingWorker();
+
+    await worker.tick();
+
+    assert.equal(publishedCount(small.id), 1);
+    assert.equal(publishedCount(large.id), 2);
+    assert.equal(remainingCapacity(small.id), 0);
+    assert.equal(remainingCapacity(large.id), 1);
+  });
+
+  it("skips paused and disconnected channels", async () => {
+    const paused = addChannel({ paused: 1 });
+    const expired = addChannel({ status: "Token Expired" });
+    const a = addMedia({ channel_id: paused.id });
+    const b = addMedia({ channel_id: expired.id });
+    const { worker, published } = recordingWorker();
+
+    await worker.tick();
+
+    assert.deepEqual(published, []);
+    assert.equal(findMedia(a.id).status, "Pending");
+    assert.equal(findMedia(b.id).status, "Pending");
+  });
+
+  it("claims a post once when publishes overlap", async () => {
+    const channel = addChannel();
+    const media = addMedia({ channel_id: channel.id });
+    const { worker, published } = recordingWorker();
+
+    const results = await Promise.allSettled([worker.publishNow(media.id), worker.tick(), worker.publishNow(media.id)]);
+
+    assert.deepEqual(published, [media.id]);
+    assert.equal(results.filter(r => r.status === "rejected").length, 1);
+    assert.equal(findMedia(media.id).attempts, 1);
+  });
+
+  it("schedules a retry for transient failures and dead-letters permanent ones", async () => {
+    const channel = addChannel();
+    const transient = addMedia({ channel_id: channel.id });
+    const permanent = addMedia({ channel_id: channel.id });
+    const { worker } = recordingWorker({
+      fail: media => new PublisherHttpError("Snapchat said no", media.id === transient.id ? 503 : 400),
+    });
+
+    await worker.tick();
+
+    const retried = findMedia(transient.id);
+    assert.equal(retried.status, "Failed");
+    assert.equal(retried.attempts, 1);
+    assert.ok(retried.next_attempt_at && new Date(retried.next_attempt_at).getTime() > Date.now());
+    assert.equal(findMedia(permanent.id).status, "Dead Letter");
+  });
+
+  it("dead-letters a post once its attempts run out", async () => {
+    const channel = addChannel();
+    const media = addMedia({ channel_id: channel.id, status: "Failed", attempts: POLICY.maxAttempts - 1, next_attempt_at: new Date(Date.now() - 1000).toISOString() });
+    const { worker } = recordingWorker({ fail: () => new PublisherHttpError("Down", 503) });
+
+    await worker.tick();
+
+    const row = findMedia(media.id);
+    assert.equal(row.status, "Dead Letter");
+    assert.equal(row.attempts, POLICY.maxAttempts);
+  });
+
+  it("leaves the queue alone while publishing isn't possible", async () => {
+    const channel = addChannel();
+    const media = addMedia({ channel_id: channel.id });
+    const { worker, published } = recordingWorker({ canPublish: () => false });
+
+    await worker.tick();
+    await assert.rejects(worker.publishNow(media.id), (e: PublishError) => e.code === "not_configured");
+
+    assert.deepEqual(published, []);
+    const row = findMedia(media.id);
+    assert.equal(row.status, "Pending");
+    assert.equal(row.attempts, 0);
+    assert.equal(worker.status().publisherReady, false);
+  });
+
+  it("publishes a post moved to another channel from the folder it was scanned from", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "worker-test-"));
+    fs.mkdirSync(path.join(root, "a"));
+    fs.writeFileSync(path.join(root, "a", "clip.jpg"), "jpeg");
+    process.env.MEDIA_SOURCE = "local";
+    process.env.LOCAL_MEDIA_DIR = root;
+    const from = addChannel({ drive_folder_id: "a" });
+    const to = addChannel({ drive_folder_id: "b" });
+    const media = addMedia({ channel_id: from.id, file_id: "local:a/clip.jpg", source: `local:${path.join(root, "a")}` });
+    runBulk("reassign-channel", [media.id], { channel_id: to.id });
+    const files: string[] = [];
+    const worker = createPublishWorker({
+      retryPolicy: POLICY,
+      publish: async (row) => {
+        files.push(await fetchMediaFile(row));
+        return {};
+      },
+    });
+
+    await worker.tick();
+
+    assert.deepEqual(files, [path.join(root, "a", "clip.jpg")]);
+    const row = findMedia(media.id);
+    assert.equal(row.status, "Published");
+    assert.equal(row.channel_id, to.id);
+    fs.rmSync(root, { recursive: true });
+  });
+});
@@ -0,0 +1,265 @@
+import { CLEARED, isCleared } from "./approvals";
+import { db } from "./db";
+import { flagQueuedTwins, holdIfDuplicate, isFlagged, NOT_FLAGGED } from "./duplicates";
+import { emitMediaChange, publishEvent } from "./events";
+import { mediaFields, withCorrelation, writeLog } from "./logs";
+import { notify } from "./notifications";
+import { isRetryable, retryDelayMs, retryPolicyFromSettings, type RetryPolicy } from "./retry";
+import { setting } from "./settings";
+import type { ChannelRow, MediaRow } from "./types";
+
+export interface PublishResult {
+  snapchat_link?: string | null;
+}
+
+export type PublishFn = (media: MediaRow) => Promise<PublishResult>;
+
+export interface WorkerOptions {
+  publish: PublishFn;
+  // While this returns false (no publisher credentials) the worker leaves the queue alone.
+  canPublish?: () => boolean;
+  // Fixed policy; by default it's read from Settings on every failure.
+  retryPolicy?: RetryPolicy;
+  intervalMs?: number;
+  batchSize?: number;
+}
+
+export interface WorkerStatus {
+  running: boolean;
+  intervalMs: number;
+  lastTickAt: string | null;
+  lastPublishAt: string | null;
+  publisherReady: boolean;
+  remainingToday: number;
+}
+
+export class PublishError extends Error {
+  constructor(message: string, public code: "not_found" | "not_pending" | "not_failed" | "no_channel" | "daily_limit" | "not_approved" | "channel_paused" | "channel_disconnected" | "flagged_duplicate" | "not_configured") {
+    super(message);
+  }
+}
+
+// Posts the channel may still publish today. Channels that aren't connected get none.
+export function remainingCapacity(channelId: number) {
+  const row = db.prepare(`
+    SELECT daily_limit - (SELECT COUNT(*) FROM media WHERE channel_id = channels.id AND date(published_at) = date('now')) as remaining
+    FROM channels WHERE id = ? AND status = 'Connected'
+  `).get(channelId) as { remaining: number } | undefined;
+  return row ? Math.max(0, row.remaining) : 0;
+}
+
+// Paused channels keep their queue but the worker leaves it alone.
+const connectedChannelIds = () =>
+  (db.prepare("SELECT id FROM channels WHERE status = 'Connected' AND paused = 0").all() as { id: number }[]).map(row => row.id);
+
+// Whether the channel published within the last `minutes`, for publish spacing.
+function publishedWithin(channelId: number, minutes: number) {
+  return !!db.prepare("SELECT 1 FROM media WHERE channel_id = ? AND datetime(published_at) > datetime('now', ?)").get(channelId, `-${minutes} minutes`);
+}
+
+export function createPublishWorker({ publish, canPublish = () => true, retryPolicy: fixedPolicy, intervalMs = 15000, batchSize = 5 }: WorkerOptions) {
+  let timer: NodeJS.Timeout | null = null;
+  let ticking = false;
+  let lastTickAt: string | null = null;
+  let lastPublishAt: string | null = null;
+
+  // Moves a row to Uploading atomically from the status we read it in. Only the
+  // caller that wins the UPDATE gets to publish it, so overlapping ticks can't double-post.
+  const claim = (media: MediaRow) => {
+    const claimed = db.prepare("UPDATE media SET status = 'Uploading', attempts = attempts + 1, next_attempt_at = NULL WHERE id = ? AND status = ?")
+      .run(media.id, media.status).changes === 1;
+    if (claimed) emitMediaChange(media.id);
+    return claimed;
+  };
+
+  // One row per finished attempt, kept for analytics independently of log retention.
+  const recordAttempt = (media: MediaRow, outcome: "published" | "failed" | "dead_letter", error: string | null = null) =>
+    db.prepare("INSERT INTO publish_attempts (media_id, channel_id, outcome, error) VALUES (?, ?, ?, ?)").run(media.id, media.channel_id, outcome, error);
+
+  const recordFailure = (media: MediaRow, e: any) => {
+    const message = e?.message || String(e);
+    const attempts = media.attempts + 1;
+    const retryPolicy = fixedPolicy ?? retryPolicyFromSettings();
+
+    if (isRetryable(e) && attempts < retryPolicy.maxAttempts) {
+      const nextAttemptAt = new Date(Date.now() + retryDelayMs(retryPolicy, attempts));
+      db.prepare("UPDATE media SET status = 'Failed', last_error = ?, next_attempt_at = ? WHERE id = ?")
+        .run(message, nextAttemptAt.toISOString(), media.id);
+      recordAttempt(media, "failed", message);
+      writeLog(media.file_name, `Publish Failed (attempt ${attempts}/${retryPolicy.maxAttempts}, retry at ${nextAttemptAt.toISOString()})`, "Failed", message, {
+        ...mediaFields(media),
+        level: "warn",
+        context: { attempt: attempts, max_attempts: retryPolicy.maxAttempts, next_attempt_at: nextAttemptAt.toISOString() },
+      });
+      notify({
+        kind: "publish_failed",
+        severity: "warning",
+        title: `Publish failed: ${media.file_name}`,
+        message: `${message}. Attempt ${attempts} of ${retryPolicy.maxAttempts}, retrying at ${nextAttemptAt.toISOString()}.`,
+        media_id: media.id,
+        channel_id: media.channel_id,
+      });
+    } else {
+      db.prepare("UPDATE media SET status = 'Dead Letter', last_error = ? WHERE id = ?").run(message, media.id);
+      recordAttempt(media, "dead_letter", message);
+      const reason = isRetryable(e) ? `gave up after ${attempts} attempts` : "permanent error";
+      writeLog(media.file_name, `Moved to Dead Letter (${reason})`, "Failed", message, { ...mediaFields(media), context: { attempts, retryable: isRetryable(e) } });
+      notify({
+        kind: "dead_letter",
+        severity: "error",
+        title: `Moved to dead letter: ${media.file_name}`,
+        message: `${message}. The post won't be retried until someone retries it by hand (${reason}).`,
+        media_id: media.id,
+        channel_id: media.channel_id,
+      });
+    }
+  };
+
+  // Each publish attempt gets its own correlation id, shared by everything it logs.
+  // The duplicate check and the claim run with no await in between, so no other
+  // publish can start on a twin in the meantime.
+  const processOne = (media: MediaRow) => withCorrelation("publish", async () => {
+    if (holdIfDuplicate(media) || !claim(media)) return false;
+    writeLog(media.file_name, media.status === "Failed" ? `Retry Started (attempt ${media.attempts + 1})` : "Upload Started", "Uploading", null, {
+      ...mediaFields(media),
+      context: { attempt: media.attempts + 1 },
+    });
+
+    try {
+      const result = await publish({ ...media, status: "Uploading" });
+      db.prepare("UPDATE media SET status = 'Published', published_at = CURRENT_TIMESTAMP, last_error = NULL, snapchat_link = COALESCE(?, snapchat_link) WHERE id = ?")
+        .run(result.snapchat_link ?? null, media.id);
+      recordAttempt(media, "published");
+      lastPublishAt = new Date().toISOString();
+      writeLog(media.file_name, "Published", "Success", null, { ...mediaFields(media), context: { snapchat_link: result.snapchat_link ?? null } });
+      publishEvent({ type: "worker", data: status() });
+      try {
+        flagQueuedTwins(db.prepare("SELECT * FROM media WHERE id = ?").get(media.id) as MediaRow);
+      } catch (e) {
+        // The post is out either way; this mustn't turn it into a failure.
+        console.error("Duplicate check after publish failed", e);
+      }
+    } catch (e: any) {
+      recordFailure(media, e);
+    }
+    emitMediaChange(media.id);
+    return true;
+  });
+
+  // A row left in Uploading means the process died mid-publish. We can't know
+  // whether the post went out, so fail it without scheduling a retry rather than
+  // risk posting it twice. It can still be retried by hand.
+  const recoverInterrupted = () => {
+    const stuck = db.prepare("SELECT * FROM media WHERE status = 'Uploading'").all() as MediaRow[];
+    const message = "Server restarted while upload was in progress";
+    for (const media of stuck) {
+      db.prepare("UPDATE media SET status = 'Failed', last_error = ?, next_attempt_at = NULL WHERE id = ? AND status = 'Uploading'").run(message, media.id);
+      recordAttempt(media, "failed", message);
+      writeLog(media.file_name, "Publish Interrupted", "Failed", message, mediaFields(media));
+      notify({
+        kind: "publish_failed",
+        severity: "warning",
+        title: `Publish interrupted: ${media.file_name}`,
+        message: `${message}. Check Snapchat before retrying, the post may have gone out.`,
+        media_id: media.id,
+        channel_id: media.channel_id,
+      });
+      emitMediaChange(media.id);
+    }
+  };
+
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      // Nothing is claimed, so queued posts don't burn attempts while publishing is unavailable.
+      if (!canPublish()) return;
+      const spacing = setting("publish_spacing_minutes");
+      for (const channelId of connectedChannelIds()) {
+        const remaining = remainingCapacity(channelId);
+        if (remaining <= 0) continue;
+        // With spacing on, a channel publishes at most one post per gap.
+        if (spacing > 0 && publishedWithin(channelId, spacing)) continue;
+
+        const due = db.prepare(`
+          SELECT * FROM media
+          WHERE channel_id = ? AND ${CLEARED} AND ${NOT_FLAGGED} AND (
+            (status = 'Pending' AND scheduled_time IS NOT NULL AND datetime(scheduled_time) <= datetime('now'))
+            OR (status = 'Failed' AND next_attempt_at IS NOT NULL AND datetime(next_attempt_at) <= datetime('now'))
+          )
+          ORDER BY datetime(COALESCE(next_attempt_at, scheduled_time)) ASC
+          LIMIT ?
+        `).all(channelId, spacing > 0 ? 1 : Math.min(batchSize, remaining)) as MediaRow[];
+
+        for (const media of due) {
+          await processOne(media);
+        }
+      }
+    } catch (e) {
+      console.error("Publish worker tick failed", e);
+    } finally {
+      lastTickAt = new Date().toISOString();
+      ticking = false;
+      // Doubles as the heartbeat the UI uses to tell whether automation is alive.
+      publishEvent({ type: "worker", data: status() });
+    }
+  };
+
+  const publishNow = async (id: number) => {
+    const media = db.prepare("SELECT * FROM media WHERE id = ?").get(id) as MediaRow | undefined;
+    if (!media) throw new PublishError("Media not found", "not_found");
+    if (media.status !== "Pending") throw new PublishError(`Media is ${media.status}, not Pending`, "not_pending");
+    if (!canPublish()) throw new PublishError("Snapchat credentials are not set, add them in Settings", "not_configured");
+    if (media.channel_id === null) throw new PublishError("Media is not assigned to a channel", "no_channel");
+    if (!isCleared(media)) throw new PublishError("This post needs approval before it can be published", "not_approved");
+    if (isFlagged(media) || holdIfDuplicate(media)) throw new PublishError("This post looks like a repost, review it in the duplicates queue first", "flagged_duplicate");
+    const channel = db.prepare("SELECT status, paused FROM channels WHERE id = ?").get(media.channel_id) as Pick<ChannelRow, "status" | "paused"> | undefined;
+    if (channel?.paused) throw new PublishError("Publishing is paused for this channel", "channel_paused");
+    if (channel && channel.status !== "Connected") throw new PublishError(`Channel is ${channel.status}, reconnect it first`, "channel_disconnected");
+    if (remainingCapacity(media.channel_id) <= 0) throw new PublishError("Daily publish limit reached", "daily_limit");
+
+    if (!(await processOne(media))) throw new PublishError("Media is already being published", "not_pending");
+    return db.prepare("SELECT * FROM media WHERE id = ?").get(id) as MediaRow;
+  };
+
+  // Puts a failed or dead-lettered row back in the queue with a fresh attempt budget.
+  const retry = (id: number) => {
+    const media = db.prepare("SELECT * FROM media WHERE id = ?").get(id) as MediaRow | undefined;
+    if (!media) throw new PublishError("Media not found", "not_found");
+    const info = db.prepare(`
+      UPDATE media SET status = 'Pending', attempts = 0, next_attempt_at = NULL, scheduled_time = datetime('now')
+      WHERE id = ? AND status IN ('Failed', 'Dead Letter')
+    `).run(id);
+    if (info.changes === 0) throw new PublishError(`Media is ${media.status}, only failed uploads can be retried`, "not_failed");
+    writeLog(media.file_name, "Manual Retry", "Info", null, mediaFields(media));
+    emitMediaChange(id);
+    tick();
+    return db.prepare("SELECT * FROM media WHERE id = ?").get(id) as MediaRow;
+  };
+
+  const start = () => {
+    if (timer) return;
+    recoverInterrupted();
+    lastPublishAt = (db.prepare("SELECT strftime('%Y-%m-%dT%H:%M:%SZ', MAX(published_at)) as at FROM media").get() as { at: string | null }).at;
+    timer = setInterval(tick, intervalMs);
+    tick();
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const status = (): WorkerStatus => ({
+    running: timer !== null,
+    intervalMs,
+    lastTickAt,
+    lastPublishAt,
+    publisherReady: canPublish(),
+    remainingToday: connectedChannelIds().reduce((sum, id) => sum + remainingCapacity(id), 0),
+  });
+
+  return { start, stop, tick, publishNow, retry, status };
+}
+
+export type PublishWorker = ReturnType<typeof createPublishWorker>;
@@ -22,12 +22,21 @@ import {
   X,
   ExternalLink,
   Trash2,
-  Play
+  Play,
+  RotateCcw,
+  Wand2,
+  CornerDownRight,
+  Sparkles,
+  Flag,
+  History,
+  Download,
+  ClipboardCheck,
+  Copy
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 
 // --- Types ---
-type Page = 'dashboard' | 'channels' | 'drive-sync' | 'upload-manager' | 'scheduler' | 'media-library' | 'logs' | 'settings';
+type Page = 'dashboard' | 'channels' | 'drive-sync' | 'upload-manager' | 'scheduler' | 'media-library' | 'reviews' | 'logs' | 'settings';
 
 interface Stat {
   label: string;
@@ -36,17 +45,42 @@ interface Stat {
   color: string;
 }
 
+type ApprovalStatus = 'Draft' | 'In Review' | 'Approved' | 'Changes Requested';
+
 interface MediaFile {
   id: number;
+  channel_id: number | null;
+  parent_id: number | null;
   file_name: string;
   file_id: string;
   type: string;
   size: number;
-  aspect_ratio: string;
-  status: 'Pending' | 'Uploading' | 'Published' | 'Failed';
+  aspect_ratio: string | null;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  codec: string | null;
+  spec_issues: string | null;
+  thumbnail_updated_at: string | null;
+  status: 'Pending' | 'Uploading' | 'Published' | 'Failed' | 'Dead Letter' | 'Removed' | 'Needs Fix' | 'Rejected' | 'Deleted';
   caption: string;
   scheduled_time: string | null;
   snapchat_link: string | null;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  post_type: 'story' | 'spotlight';
+  priority: number;
+  auto_scheduled: number;
+  approval_status: ApprovalStatus | null;
+  version: number;
+  published_at: string | null;
+  content_hash: string | null;
+  perceptual_hash: string | null;
+  duplicate_of: number | null;
+  duplicate_kind: 'exact' | 'similar' | null;
+  duplicate_distance: number | null;
+  duplicate_status: 'flagged' | 'allowed' | null;
   created_at: string;
 }
 
@@ -55,20 +89,125 @@ interface Channel {
   name: string;
   profile_id: string;
   avatar: string | null;
-  status: string;
+  status: 'Connected' | 'Disconnected' | 'Token Expired';
   drive_folder_id: string;
   daily_limit: number;
+  caption_prompt: string | null;
+  default_template_id: number | null;
+  requires_approval: number;
+  paused: number;
+  health_checked_at: string | null;
+  health_error: string | null;
+  authorized: number;
+  queued: number;
+  published_today: number;
+}
+
+interface CaptionTemplate {
+  id: number;
+  name: string;
+  body: string;
+  channel_id: number | null;
+  updated_at: string;
+}
+
+interface TemplateSettings {
+  default_template_id: number | null;
+  template_fields: Record<string, string>;
+  hashtag_sets: { tags: string; cta: string | null }[];
+  variables: string[];
+}
+
+interface WorkerStatus {
+  running: boolean;
+  intervalMs: number;
+  lastTickAt: string | null;
+  lastPublishAt: string | null;
+  lastScanAt?: string | null;
+  publisherReady: boolean;
+  remainingToday: number;
+}
+
+// Where the running scan has got to, from the event stream.
+interface ScanState {
+  channel: string | null;
+  processed: number;
+  total: number;
+}
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+type Role = 'admin' | 'editor' | 'viewer';
+
+interface Account {
+  id: number;
+  username: string;
+  display_name: string;
+  role: Role;
+  created_at: string;
+  last_login_at: string | null;
 }
 
 interface LogEntry {
   id: number;
   timestamp: string;
+  level: LogLevel;
   file_name: string;
   action: string;
   status: string;
   error_message: string | null;
+  media_id: number | null;
+  channel_id: number | null;
+  correlation_id: string | null;
+  context: string | null;
+  username: string | null;
 }
 
+const timeAgo = (iso: string | null | undefined, now: number) => {
+  if (!iso) return 'never';
+  const minutes = Math.floor((now - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min${minutes === 1 ? '' : 's'} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+};
+
+const specIssues = (file: MediaFile): string[] => {
+  if (!file.spec_issues) return [];
+  try {
+    return JSON.parse(file.spec_issues).map((issue: { message: string }) => issue.message);
+  } catch {
+    return [];
+  }
+};
+
+// API errors come back as { error, code }. These codes get a next step added to the message.
+const ERROR_HINTS: Record<string, string> = {
+  version_conflict: 'The latest version has been loaded, check it and try again',
+  invalid_transition: 'Refresh to see its current status',
+  not_approved: 'Submit it for review first',
+  daily_limit: 'It stays queued for tomorrow',
+  read_only: 'Ask an admin for editor access',
+  scan_in_progress: 'Wait for the current scan to finish',
+  channel_paused: 'Resume the channel from its settings first',
+  channel_disconnected: 'Reconnect it on the Channels page',
+  flagged_duplicate: 'It is listed under Likely reposts on the Review Queue page',
+  unauthenticated: 'Sign in again'
+};
+
+// Codes that mean "not now" rather than "something broke".
+const WARNING_CODES = ['version_conflict', 'daily_limit', 'scan_in_progress', 'not_approved', 'channel_paused', 'flagged_duplicate'];
+
+const describeError = (data: { error?: string; code?: string } | null | undefined, fallback = 'Request failed') => {
+  const hint = data?.code ? ERROR_HINTS[data.code] : undefined;
+  const message = data?.error || fallback;
+  return hint ? `${message}. ${hint}` : message;
+};
+
+const errorToastType = (data: { code?: string } | null | undefined) => data?.code && WARNING_CODES.includes(data.code) ? 'warning' : 'error';
+
 // --- Components ---
 
 const SidebarItem = ({ 
@@ -98,8 +237,8 @@ const SidebarItem = ({
   </button>
 );
 
-const Card = ({ children, className = "" }: { children: React.ReactNode; className?: string; key?: React.Key }) => (
-  <div className={`bg-zinc-900 border border-zinc-800 rounded-xl p-4 ${className}`}>
+const Card = ({ children, className = "", onClick }: { children: React.ReactNode; className?: string; key?: React.Key; onClick?: () => void }) => (
+  <div onClick={onClick} className={`bg-zinc-900 border border-zinc-800 rounded-xl p-4 ${className}`}>
     {children}
   </div>
 );
@@ -110,8 +249,18 @@ const Badge = ({ status }: { status: string }) => {
     Uploading: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
     Published: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20',
     Failed: 'bg-red-500/10 text-red-500 border-red-500/20',
+    'Dead Letter': 'bg-red-900/20 text-red-400 border-red-800/40',
+    Removed: 'bg-zinc-500/10 text-zinc-400 border-zinc-500/20',
+    'Needs Fix': 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+    Rejected: 'bg-red-500/10 text-red-500 border-red-500/20',
     Connected: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20',
-    Expired: 'bg-red-500/10 text-red-500 border-red-500/20',
+    'Token Expired': 'bg-red-500/10 text-red-500 border-red-500/20',
+    Disconnected: 'bg-zinc-500/10 text-zinc-400 border-zinc-500/20',
+    Paused: 'bg-amber-500/10 text-amber-500 border-amber-500/20',
+    Draft: 'bg-zinc-500/10 text-zinc-400 border-zinc-500/20',
+    'In Review': 'bg-sky-500/10 text-sky-400 border-sky-500/20',
+    Approved: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20',
+    'Changes Requested': 'bg-amber-500/10 text-amber-500 border-amber-500/20',
   };
   const style = styles[status as keyof typeof styles] || 'bg-zinc-500/10 text-zinc-500 border-zinc-500/20';
   
@@ -122,37 +271,3172 @@ const Badge = ({ status }: { status: string }) => {
   );
 };
 
-const Toast = ({ message, type, onClose }: { message: string; type: 'success' | 'error' | 'warning'; onClose: () => void }) => {
-  const colors = {
-    success: 'border-emerald-500/50 bg-emerald-500/10 text-emerald-400',
-    error: 'border-red-500/50 bg-red-500/10 text-red-400',
-    warning: 'border-orange-500/50 bg-orange-500/10 text-orange-400',
-  };
+const Toast = ({ message, type, onClose }: { message: string; type: 'success' | 'error' | 'warning'; onClose: () => void }) => {
+  const colors = {
+    success: 'border-emerald-500/50 bg-emerald-500/10 text-emerald-400',
+    error: 'border-red-500/50 bg-red-500/10 text-red-400',
+    warning: 'border-orange-500/50 bg-orange-500/10 text-orange-400',
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(onClose, 5000);
+    return () => clearTimeout(timer);
+  }, [onClose]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20, x: 20 }}
+      animate={{ opacity: 1, y: 0, x: 0 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      className={`fixed top-4 right-4 z-50 p-3 rounded-lg border flex items-center gap-3 shadow-lg backdrop-blur-md ${colors[type]}`}
+    >
+      {type === 'success' && <CheckCircle2 size={18} />}
+      {type === 'error' && <AlertCircle size={18} />}
+      {type === 'warning' && <AlertCircle size={18} />}
+      <span className="text-sm font-medium">{message}</span>
+      <button onClick={onClose} className="ml-2 hover:opacity-70"><X size={14} /></button>
+    </motion.div>
+  );
+};
+
+const Thumbnail = ({ file }: { file: MediaFile }) => {
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => setFailed(false), [file.thumbnail_updated_at]);
+
+  if (failed) {
+    return file.type === 'video' ? <Play size={16} className="text-zinc-600" /> : <ImageIcon size={16} className="text-zinc-600" />;
+  }
+  return (
+    <img
+      src={`/api/media/${file.id}/thumbnail${file.thumbnail_updated_at ? `?v=${encodeURIComponent(file.thumbnail_updated_at)}` : ''}`}
+      alt={file.file_name}
+      loading="lazy"
+      onError={() => setFailed(true)}
+      className="w-full h-full object-cover"
+    />
+  );
+};
+
+const PreviewModal = ({ file, onClose }: { file: MediaFile; onClose: () => void }) => (
+  <>
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-40"
+    />
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+    >
+      <div className="pointer-events-auto bg-zinc-950 border border-zinc-800 rounded-xl overflow-hidden max-h-full flex flex-col">
+        <div className="flex items-center justify-between gap-4 px-4 py-2 border-b border-zinc-900">
+          <div className="min-w-0">
+            <p className="text-sm text-zinc-200 font-medium truncate">{file.file_name}</p>
+            <p className="text-[10px] text-zinc-500">
+              {file.width && file.height ? `${file.width}x${file.height}` : file.aspect_ratio}
+              {file.duration !== null && ` • ${file.duration.toFixed(1)}s`}
+              {file.codec && ` • ${file.codec}`} • {(file.size / (1024 * 1024)).toFixed(1)}MB
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300"><X size={18} /></button>
+        </div>
+        <div className="bg-black flex items-center justify-center">
+          {file.type === 'video' ? (
+            <video
+              src={`/api/media/${file.id}/file`}
+              poster={`/api/media/${file.id}/thumbnail`}
+              controls
+              autoPlay
+              muted
+              preload="metadata"
+              className="max-h-[75vh] max-w-full"
+            />
+          ) : (
+            <img src={`/api/media/${file.id}/file`} alt={file.file_name} className="max-h-[75vh] max-w-full object-contain" />
+          )}
+        </div>
+      </div>
+    </motion.div>
+  </>
+);
+
+const CaptionEditor = ({
+  files,
+  channels,
+  onClose,
+  onSaved,
+  notify
+}: {
+  files: MediaFile[];
+  channels: Channel[];
+  onClose: () => void;
+  onSaved: () => void;
+  notify: (message: string, type?: 'success' | 'error' | 'warning') => void;
+}) => {
+  const [drafts, setDrafts] = useState<Record<number, string>>(() => Object.fromEntries(files.map(f => [f.id, f.caption || ''])));
+  const [suggestions, setSuggestions] = useState<Record<number, string[]>>({});
+  const [generating, setGenerating] = useState<Set<number>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const channelIds = [...new Set(files.map(f => f.channel_id))];
+  const channel = channelIds.length === 1 ? channels.find(c => c.id === channelIds[0]) : undefined;
+  const [tone, setTone] = useState(channel?.caption_prompt || '');
+  const [templates, setTemplates] = useState<CaptionTemplate[]>([]);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    fetch(channel ? `/api/templates?channel_id=${channel.id}` : '/api/templates')
+      .then(res => res.json())
+      .then(setTemplates)
+      .catch(() => setTemplates([]));
+  }, []);
+
+  // Applying saves straight away so each post takes the next hashtag set in its channel's rotation.
+  const applyTemplate = async (templateId: number) => {
+    setApplying(true);
+    const applied: Record<number, string> = {};
+    let failed = 0;
+    for (const file of files) {
+      const res = await fetch(`/api/media/${file.id}/apply-template`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ template_id: templateId })
+      }).catch(() => null);
+      if (res?.ok) applied[file.id] = (await res.json()).media.caption || '';
+      else failed++;
+    }
+    setDrafts(prev => ({ ...prev, ...applied }));
+    setApplying(false);
+    if (failed > 0) notify(`Template failed for ${failed} post(s)`, 'error');
+    else notify(`Applied template to ${files.length} post(s)`, 'success');
+    onSaved();
+  };
+
+  const generate = async (ids: number[]) => {
+    setGenerating(prev => new Set([...prev, ...ids]));
+    try {
+      const res = await fetch('/api/captions/suggest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      const next: Record<number, string[]> = {};
+      for (const result of data.results) {
+        if (result.suggestions) next[result.id] = result.suggestions;
+      }
+      setSuggestions(prev => ({ ...prev, ...next }));
+      // Pre-fill empty captions with the first suggestion so bulk runs can be accepted in one click.
+      setDrafts(prev => {
+        const filled = { ...prev };
+        for (const [id, list] of Object.entries(next)) {
+          if (!filled[Number(id)] && list.length > 0) filled[Number(id)] = list[0];
+        }
+        return filled;
+      });
+      const failures = data.results.filter((r: { error?: string }) => r.error);
+      if (failures.length > 0) notify(`${failures.length} caption request(s) failed: ${failures[0].error}`, 'warning');
+    } catch (error) {
+      notify(`Failed to generate captions${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    } finally {
+      setGenerating(prev => new Set([...prev].filter(id => !ids.includes(id))));
+    }
+  };
+
+  useEffect(() => {
+    generate(files.map(f => f.id));
+  }, []);
+
+  const saveTone = async () => {
+    if (!channel) return;
+    const res = await fetch(`/api/channels/${channel.id}/caption-prompt`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ caption_prompt: tone })
+    });
+    if (res.ok) {
+      notify(`Saved tone for ${channel.name}`, 'success');
+      onSaved();
+    } else {
+      notify(describeError(await res.json(), "Failed to save tone"), 'error');
+    }
+  };
+
+  const saveAll = async () => {
+    setSaving(true);
+    const changed = files.filter(f => (drafts[f.id] || '') !== (f.caption || ''));
+    let failed = 0;
+    let conflicts = 0;
+    for (const file of changed) {
+      const res = await fetch(`/api/media/${file.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ caption: drafts[file.id], version: file.version })
+      }).catch(() => null);
+      if (res?.status === 409 && (await res.json()).code === 'version_conflict') conflicts++;
+      else if (!res?.ok) failed++;
+    }
+    setSaving(false);
+    if (conflicts > 0) {
+      notify(`${conflicts} caption(s) were changed by someone else while you edited. Reopen the editor to see their version`, 'warning');
+    } else if (failed > 0) {
+      notify(`${failed} caption(s) failed to save`, 'error');
+    } else {
+      notify(`Saved ${changed.length} caption(s)`, 'success');
+      onClose();
+    }
+    onSaved();
+  };
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/70 backdrop-blur-sm z-40"
+      />
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 20 }}
+        className="fixed inset-x-4 top-10 bottom-10 md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-[640px] z-50 bg-zinc-950 border border-zinc-800 rounded-xl flex flex-col"
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-900">
+          <h3 className="text-sm font-semibold text-zinc-100 flex items-center gap-2">
+            <Sparkles size={16} className="text-purple-400" />
+            {files.length === 1 ? 'Edit Caption' : `Edit ${files.length} Captions`}
+          </h3>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {channel && (
+            <div className="space-y-1">
+              <label className="text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Tone for {channel.name}</label>
+              <div className="flex gap-2">
+                <input
+                  value={tone}
+                  onChange={(e) => setTone(e.target.value)}
+                  placeholder="e.g. playful, emoji-light, always mention the weekend sale"
+                  className="flex-1 px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-xs text-zinc-300 outline-none focus:border-purple-500/50"
+                />
+                <button onClick={saveTone} className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg text-xs font-medium transition-colors">Save Tone</button>
+              </div>
+            </div>
+          )}
+
+          {templates.length > 0 && (
+            <div className="space-y-1">
+              <label className="text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Apply Template</label>
+              <select
+                value=""
+                disabled={applying}
+                onChange={(e) => e.target.value && applyTemplate(Number(e.target.value))}
+                className="w-full px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-xs text-zinc-300 outline-none focus:border-purple-500/50 disabled:opacity-50"
+              >
+                <option value="">{applying ? 'Applying...' : `Fill ${files.length === 1 ? 'this caption' : 'all captions'} from a template...`}</option>
+                {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+            </div>
+          )}
+
+          {files.map(file => (
+            <div key={file.id} className="space-y-2 pb-4 border-b border-zinc-900 last:border-0">
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-zinc-300 font-medium truncate">{file.file_name}</p>
+                <button
+                  onClick={() => generate([file.id])}
+                  disabled={generating.has(file.id)}
+                  className="flex items-center gap-1 text-[11px] text-purple-400 hover:text-purple-300 disabled:opacity-50"
+                >
+                  <RefreshCw size={12} className={generating.has(file.id) ? 'animate-spin' : ''} />
+                  Regenerate
+                </button>
+              </div>
+              <textarea
+                value={drafts[file.id] || ''}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [file.id]: e.target.value }))}
+                rows={2}
+                placeholder="No caption..."
+                className="w-full px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-xs text-zinc-300 outline-none focus:border-purple-500/50 resize-none"
+              />
+              <div className="flex flex-wrap gap-1.5">
+                {(suggestions[file.id] || []).map((suggestion, i) => (
+                  <button
+                    key={i}
+                    onClick={() => setDrafts(prev => ({ ...prev, [file.id]: suggestion }))}
+                    className={`text-left px-2 py-1 rounded-md border text-[11px] transition-colors ${drafts[file.id] === suggestion ? 'border-purple-500/50 bg-purple-500/10 text-purple-300' : 'border-zinc-800 text-zinc-400 hover:border-zinc-700'}`}
+                  >
+                    {suggestion}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between gap-2 px-4 py-3 border-t border-zinc-900">
+          <button
+            onClick={() => generate(files.map(f => f.id))}
+            disabled={generating.size > 0}
+            className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-zinc-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            Regenerate All
+          </button>
+          <button
+            onClick={saveAll}
+            disabled={saving}
+            className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            {saving ? 'Saving...' : files.length === 1 ? 'Save Caption' : 'Save All'}
+          </button>
+        </div>
+      </motion.div>
+    </>
+  );
+};
+
+const MAX_CAPTION_LENGTH = 160;
+
+const TemplateManager = ({
+  channels,
+  media,
+  onClose,
+  onSaved,
+  notify
+}: {
+  channels: Channel[];
+  media: MediaFile[];
+  onClose: () => void;
+  onSaved: () => void;
+  notify: (message: string, type?: 'success' | 'error' | 'warning') => void;
+}) => {
+  const [tab, setTab] = useState<'templates' | 'channel'>('templates');
+  const [templates, setTemplates] = useState<CaptionTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [body, setBody] = useState('');
+  const [scope, setScope] = useState<number | null>(null);
+  const [previewMediaId, setPreviewMediaId] = useState<number | null>(media[0]?.id ?? null);
+  const [preview, setPreview] = useState<{ text: string; missing: string[] } | null>(null);
+  const [variables, setVariables] = useState<string[]>([]);
+
+  const [settingsChannelId, setSettingsChannelId] = useState<number | null>(channels[0]?.id ?? null);
+  const [defaultTemplateId, setDefaultTemplateId] = useState<number | null>(null);
+  const [hashtagLines, setHashtagLines] = useState('');
+  const [fieldLines, setFieldLines] = useState('');
+
+  const loadTemplates = async () => {
+    const res = await fetch('/api/templates');
+    if (res.ok) setTemplates(await res.json());
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const select = (template: CaptionTemplate | null) => {
+    setSelectedId(template?.id ?? null);
+    setName(template?.name || '');
+    setBody(template?.body || '');
+    setScope(template?.channel_id ?? null);
+  };
+
+  // Hashtag sets are edited as "#tags | call to action" lines, custom fields as "key = value" lines.
+  useEffect(() => {
+    if (settingsChannelId === null) return;
+    fetch(`/api/channels/${settingsChannelId}/template-settings`)
+      .then(res => res.json())
+      .then((settings: TemplateSettings) => {
+        setDefaultTemplateId(settings.default_template_id);
+        setHashtagLines(settings.hashtag_sets.map(set => set.cta ? `${set.tags} | ${set.cta}` : set.tags).join('\n'));
+        setFieldLines(Object.entries(settings.template_fields).map(([key, value]) => `${key} = ${value}`).join('\n'));
+        setVariables(settings.variables);
+      })
+      .catch(() => notify("Failed to load channel settings", 'error'));
+  }, [settingsChannelId]);
+
+  useEffect(() => {
+    if (!body.trim() || previewMediaId === null) {
+      setPreview(null);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      const res = await fetch('/api/templates/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body, media_id: previewMediaId })
+      }).catch(() => null);
+      if (res?.ok) setPreview(await res.json());
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [body, previewMediaId]);
+
+  const saveTemplate = async () => {
+    const res = await fetch(selectedId ? `/api/templates/${selectedId}` : '/api/templates', {
+      method: selectedId ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, body, channel_id: scope })
+    });
+    const data = await res.json();
+    if (!res.ok) return notify(describeError(data, "Failed to save template"), 'error');
+    notify(`Saved template "${data.name}"`, 'success');
+    setSelectedId(data.id);
+    loadTemplates();
+  };
+
+  const deleteTemplate = async () => {
+    if (!selectedId) return;
+    const res = await fetch(`/api/templates/${selectedId}`, { method: 'DELETE' });
+    if (!res.ok) return notify("Failed to delete template", 'error');
+    notify("Template deleted", 'success');
+    select(null);
+    loadTemplates();
+    onSaved();
+  };
+
+  const saveChannelSettings = async () => {
+    const hashtagSets = hashtagLines.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+      const [tags, ...cta] = line.split('|');
+      return { tags: tags.trim(), cta: cta.join('|').trim() || null };
+    });
+    const fields = Object.fromEntries(fieldLines.split('\n').filter(line => line.includes('=')).map(line => {
+      const [key, ...value] = line.split('=');
+      return [key.trim(), value.join('=').trim()];
+    }));
+    const res = await fetch(`/api/channels/${settingsChannelId}/template-settings`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ default_template_id: defaultTemplateId, hashtag_sets: hashtagSets, template_fields: fields })
+    });
+    const data = await res.json();
+    if (!res.ok) return notify(describeError(data, "Failed to save channel settings"), 'error');
+    notify("Saved channel caption settings", 'success');
+    onSaved();
+  };
+
+  const inputClass = "w-full px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-xs text-zinc-300 outline-none focus:border-purple-500/50";
+  const labelClass = "text-[11px] font-semibold text-zinc-500 uppercase tracking-wider";
+  const customFields = fieldLines.split('\n').filter(line => line.includes('=')).map(line => line.split('=')[0].trim()).filter(Boolean);
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/70 backdrop-blur-sm z-40"
+      />
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 20 }}
+        className="fixed inset-x-4 top-10 bottom-10 md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-[760px] z-50 bg-zinc-950 border border-zinc-800 rounded-xl flex flex-col"
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-900">
+          <div className="flex items-center gap-4">
+            <h3 className="text-sm font-semibold text-zinc-100 flex items-center gap-2">
+              <FileText size={16} className="text-purple-400" />
+              Caption Templates
+            </h3>
+            <div className="flex gap-1">
+              {(['templates', 'channel'] as const).map(t => (
+                <button
+                  key={t}
+                  onClick={() => setTab(t)}
+                  className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${tab === t ? 'bg-purple-600/10 text-purple-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+                >
+                  {t === 'templates' ? 'Templates' : 'Channel Defaults'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300"><X size={18} /></button>
+        </div>
+
+        {tab === 'templates' ? (
+          <div className="flex-1 flex min-h-0">
+            <div className="w-48 border-r border-zinc-900 overflow-y-auto p-2 space-y-1">
+              <button
+                onClick={() => select(null)}
+                className={`w-full flex items-center gap-1.5 px-2 py-1.5 rounded-md text-xs font-medium ${selectedId === null ? 'bg-purple-600/10 text-purple-400' : 'text-zinc-400 hover:bg-zinc-900'}`}
+              >
+                <Plus size={12} />
+                New Template
+              </button>
+              {templates.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => select(t)}
+                  className={`w-full text-left px-2 py-1.5 rounded-md text-xs truncate ${selectedId === t.id ? 'bg-purple-600/10 text-purple-400' : 'text-zinc-400 hover:bg-zinc-900'}`}
+                >
+                  {t.name}
+                  <span className="block text-[10px] text-zinc-600">{t.channel_id ? channels.find(c => c.id === t.channel_id)?.name || 'Channel' : 'All channels'}</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label className={labelClass}>Name</label>
+                  <input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Weekend promo" className={inputClass} />
+                </div>
+                <div className="space-y-1">
+                  <label className={labelClass}>Channel</label>
+                  <select value={scope ?? ''} onChange={(e) => setScope(e.target.value ? Number(e.target.value) : null)} className={inputClass}>
+                    <option value="">All channels</option>
+                    {channels.map(c => <option key={c.id} value={c.id}>{c.name || `Channel ${c.id}`}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <label className={labelClass}>Template</label>
+                <textarea
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  rows={4}
+                  placeholder="{title} is live on {channel}! {cta} {hashtags}"
+                  className={`${inputClass} resize-none font-mono`}
+                />
+                <div className="flex flex-wrap gap-1">
+                  {[...variables, ...customFields].map(variable => (
+                    <button
+                      key={variable}
+                      onClick={() => setBody(prev => `${prev}{${variable}}`)}
+                      className="px-1.5 py-0.5 rounded border border-zinc-800 text-[10px] font-mono text-zinc-400 hover:border-purple-500/50 hover:text-purple-300"
+                    >
+                      {`{${variable}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <label className={labelClass}>Preview</label>
+                  <select value={previewMediaId ?? ''} onChange={(e) => setPreviewMediaId(e.target.value ? Number(e.target.value) : null)} className="max-w-[60%] px-2 py-1 bg-zinc-900 border border-zinc-800 rounded-md text-[11px] text-zinc-400 outline-none">
+                    {media.length === 0 && <option value="">No media to preview with</option>}
+                    {media.map(f => <option key={f.id} value={f.id}>{f.file_name}</option>)}
+                  </select>
+                </div>
+                <div className="px-3 py-2 bg-zinc-900/50 border border-zinc-800 rounded-lg text-xs text-zinc-200 min-h-[3rem] whitespace-pre-wrap">
+                  {preview?.text || <span className="text-zinc-600 italic">Nothing to preview</span>}
+                </div>
+                {preview && (
+                  <div className="flex justify-between text-[10px]">
+                    <span className="text-yellow-500">{preview.missing.length > 0 && `No value for ${preview.missing.map(v => `{${v}}`).join(', ')}`}</span>
+                    <span className={preview.text.length > MAX_CAPTION_LENGTH ? 'text-red-400' : 'text-zinc-600'}>{preview.text.length}/{MAX_CAPTION_LENGTH}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label className={labelClass}>Channel</label>
+                <select value={settingsChannelId ?? ''} onChange={(e) => setSettingsChannelId(Number(e.target.value))} className={inputClass}>
+                  {channels.map(c => <option key={c.id} value={c.id}>{c.name || `Channel ${c.id}`}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>Default Template</label>
+                <select value={defaultTemplateId ?? ''} onChange={(e) => setDefaultTemplateId(e.target.value ? Number(e.target.value) : null)} className={inputClass}>
+                  <option value="">None</option>
+                  {templates.filter(t => t.channel_id === null || t.channel_id === settingsChannelId).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+              </div>
+            </div>
+            <p className="text-[11px] text-zinc-500">New files found by a scan get their caption from the default template.</p>
+
+            <div className="space-y-1">
+              <label className={labelClass}>Hashtag Sets</label>
+              <textarea
+                value={hashtagLines}
+                onChange={(e) => setHashtagLines(e.target.value)}
+                rows={5}
+                placeholder={"#sale #weekend | Shop now, link in bio\n#newdrop #style | Swipe up to see more"}
+                className={`${inputClass} resize-none font-mono`}
+              />
+              <p className="text-[11px] text-zinc-500">One set per line, with an optional call to action after a <span className="font-mono">|</span>. Each post uses the next set as {'{hashtags}'} and {'{cta}'}.</p>
+            </div>
+
+            <div className="space-y-1">
+              <label className={labelClass}>Custom Fields</label>
+              <textarea
+                value={fieldLines}
+                onChange={(e) => setFieldLines(e.target.value)}
+                rows={3}
+                placeholder="shop_url = example.com/shop"
+                className={`${inputClass} resize-none font-mono`}
+              />
+              <p className="text-[11px] text-zinc-500">One <span className="font-mono">name = value</span> per line, used in templates as <span className="font-mono">{'{name}'}</span>.</p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between gap-2 px-4 py-3 border-t border-zinc-900">
+          {tab === 'templates' ? (
+            <>
+              <button
+                onClick={deleteTemplate}
+                disabled={!selectedId}
+                className="px-3 py-1.5 text-red-400 hover:bg-red-500/10 disabled:opacity-30 rounded-lg text-sm font-medium transition-colors"
+              >
+                Delete
+              </button>
+              <button onClick={saveTemplate} className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 text-white rounded-lg text-sm font-medium transition-colors">
+                {selectedId ? 'Save Template' : 'Create Template'}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={saveChannelSettings}
+              disabled={settingsChannelId === null}
+              className="ml-auto px-3 py-1.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              Save Channel Settings
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </>
+  );
+};
+
+interface ScheduleItem extends MediaFile {
+  slot_time: string;
+}
+
+interface SlotCheck {
+  conflicts: ScheduleItem[];
+  overLimit: boolean;
+  booked: number;
+  limit: number;
+}
+
+const BOOKED_STATUSES = ['Pending', 'Needs Fix', 'Uploading', 'Failed', 'Published'];
+const CHANNEL_COLORS = ['bg-purple-500', 'bg-sky-500', 'bg-emerald-500', 'bg-amber-500', 'bg-pink-500', 'bg-teal-500'];
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+const sameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+const timeLabel = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const Scheduler = ({
+  channels,
+  channelFilter,
+  filter,
+  onChanged,
+  onAutoSchedule,
+  onOpenWindows,
+  refreshKey,
+  notify
+}: {
+  channels: Channel[];
+  channelFilter: number | null;
+  filter: React.ReactNode;
+  onChanged: () => void;
+  onAutoSchedule: () => void;
+  onOpenWindows: () => void;
+  // Changes whenever the app refetches, so the calendar follows edits made elsewhere.
+  refreshKey: unknown;
+  notify: (message: string, type?: 'success' | 'error' | 'warning') => void;
+}) => {
+  const [view, setView] = useState<'month' | 'week' | 'day'>('week');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [items, setItems] = useState<ScheduleItem[]>([]);
+  const [conflictWindow, setConflictWindow] = useState(15);
+  const [dragging, setDragging] = useState<ScheduleItem | null>(null);
+  const [hover, setHover] = useState<{ key: string; check: SlotCheck } | null>(null);
+
+  // The month view always shows six full weeks so the grid doesn't jump around.
+  const rangeStart = view === 'day'
+    ? anchor
+    : view === 'week'
+      ? addDays(anchor, -anchor.getDay())
+      : addDays(new Date(anchor.getFullYear(), anchor.getMonth(), 1), -new Date(anchor.getFullYear(), anchor.getMonth(), 1).getDay());
+  const dayCount = view === 'day' ? 1 : view === 'week' ? 7 : 42;
+  const days = Array.from({ length: dayCount }, (_, i) => addDays(rangeStart, i));
+  const rangeEnd = addDays(rangeStart, dayCount);
+
+  const load = async () => {
+    const params = new URLSearchParams({ from: rangeStart.toISOString(), to: rangeEnd.toISOString() });
+    if (channelFilter !== null) params.set('channel_id', String(channelFilter));
+    try {
+      const res = await fetch(`/api/schedule?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      setItems(data.items);
+      setConflictWindow(data.conflict_window_minutes);
+    } catch (error) {
+      notify(`Failed to load schedule${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [view, anchor.getTime(), channelFilter, refreshKey]);
+
+  const step = (direction: number) => {
+    if (view === 'day') setAnchor(addDays(anchor, direction));
+    else if (view === 'week') setAnchor(addDays(anchor, 7 * direction));
+    else setAnchor(new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1));
+  };
+
+  // Mirrors the server's check: same-channel posts inside the conflict window,
+  // and the daily limit, which the worker counts per UTC day.
+  const checkSlot = (item: ScheduleItem, time: Date): SlotCheck => {
+    const others = items.filter(other => other.id !== item.id && other.channel_id === item.channel_id && BOOKED_STATUSES.includes(other.status));
+    const conflicts = others.filter(other => other.status !== 'Published' && Math.abs(new Date(other.slot_time).getTime() - time.getTime()) < conflictWindow * 60 * 1000);
+    const utcDay = time.toISOString().slice(0, 10);
+    const booked = others.filter(other => other.slot_time.slice(0, 10) === utcDay).length;
+    const limit = channels.find(c => c.id === item.channel_id)?.daily_limit ?? Infinity;
+    return { conflicts, overLimit: booked + 1 > limit, booked, limit };
+  };
+
+  // Dropping keeps the post's minutes (and, in the month view, its time of day).
+  const targetTime = (item: ScheduleItem, day: Date, hour: number | null) => {
+    const current = new Date(item.slot_time);
+    const target = new Date(day);
+    target.setHours(hour ?? current.getHours(), current.getMinutes(), 0, 0);
+    return target;
+  };
+
+  const describe = (check: SlotCheck) => [
+    check.overLimit && `over the daily limit (${check.booked + 1}/${check.limit})`,
+    check.conflicts.length > 0 && `within ${conflictWindow} min of ${check.conflicts.map(c => c.file_name).join(', ')}`,
+  ].filter(Boolean).join('; ');
+
+  const submit = async (item: ScheduleItem, time: Date, force: boolean): Promise<void> => {
+    const res = await fetch(`/api/media/${item.id}/reschedule`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scheduled_time: time.toISOString(), force })
+    });
+    const data = await res.json();
+    if (res.status === 409 && data.code === 'conflict' && !force) {
+      if (window.confirm(`${data.error}. Schedule anyway?`)) return submit(item, time, true);
+      return;
+    }
+    if (!res.ok) return notify(describeError(data, "Failed to reschedule"), errorToastType(data));
+    notify(`${item.file_name} moved to ${time.toLocaleString()}`, 'success');
+    load();
+    onChanged();
+  };
+
+  const handleDrop = (day: Date, hour: number | null) => {
+    const item = dragging;
+    setDragging(null);
+    setHover(null);
+    if (!item) return;
+    const time = targetTime(item, day, hour);
+    if (time.getTime() === new Date(item.slot_time).getTime()) return;
+    const check = checkSlot(item, time);
+    const problems = describe(check);
+    if (problems && !window.confirm(`This slot is ${problems}. Schedule anyway?`)) return;
+    submit(item, time, !!problems);
+  };
+
+  const dropProps = (key: string, day: Date, hour: number | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragging) return;
+      e.preventDefault();
+      if (hover?.key !== key) setHover({ key, check: checkSlot(dragging, targetTime(dragging, day, hour)) });
+    },
+    onDragLeave: () => setHover(prev => prev?.key === key ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(day, hour);
+    },
+  });
+
+  const dropClass = (key: string) => {
+    if (hover?.key !== key) return '';
+    if (hover.check.overLimit) return 'bg-red-500/10 ring-1 ring-inset ring-red-500/50';
+    if (hover.check.conflicts.length > 0) return 'bg-yellow-500/10 ring-1 ring-inset ring-yellow-500/50';
+    return 'bg-purple-500/10 ring-1 ring-inset ring-purple-500/50';
+  };
+
+  // Flags for what's already on the calendar, not just what's being dragged.
+  const flagsFor = (item: ScheduleItem) => {
+    if (item.status === 'Published') return '';
+    const check = checkSlot(item, new Date(item.slot_time));
+    if (check.booked + 1 > check.limit) return 'ring-1 ring-red-500/70';
+    if (check.conflicts.length > 0) return 'ring-1 ring-yellow-500/70';
+    return '';
+  };
+
+  const renderChip = (item: ScheduleItem, compact: boolean) => {
+    const movable = item.status === 'Pending' || item.status === 'Needs Fix';
+    const color = CHANNEL_COLORS[channels.findIndex(c => c.id === item.channel_id) % CHANNEL_COLORS.length] || 'bg-zinc-500';
+    return (
+      <div
+        key={item.id}
+        draggable={movable}
+        onDragStart={(e) => {
+          e.dataTransfer.setData('text/plain', String(item.id));
+          setDragging(item);
+        }}
+        onDragEnd={() => {
+          setDragging(null);
+          setHover(null);
+        }}
+        title={`${item.file_name} · ${item.status} · ${new Date(item.slot_time).toLocaleString()}`}
+        className={`flex items-center gap-1.5 px-1.5 py-0.5 rounded bg-zinc-900 border border-zinc-800 text-[10px] text-zinc-300 ${movable ? 'cursor-grab active:cursor-grabbing' : 'opacity-60'} ${flagsFor(item)}`}
+      >
+        <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${color}`} />
+        <span className="text-zinc-500 shrink-0">{timeLabel(new Date(item.slot_time))}</span>
+        <span className="truncate">{item.file_name}</span>
+        {!compact && <span className="ml-auto shrink-0"><Badge status={item.status} /></span>}
+      </div>
+    );
+  };
+
+  const itemsOn = (day: Date, hour: number | null = null) => items.filter(item => {
+    const time = new Date(item.slot_time);
+    return sameDay(time, day) && (hour === null || time.getHours() === hour);
+  });
+
+  const title = view === 'month'
+    ? anchor.toLocaleDateString([], { month: 'long', year: 'numeric' })
+    : view === 'week'
+      ? `${days[0].toLocaleDateString([], { month: 'short', day: 'numeric' })} – ${days[6].toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}`
+      : anchor.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-bold text-zinc-100">Scheduler</h2>
+          <button onClick={() => step(-1)} className="p-1 text-zinc-500 hover:text-zinc-300"><ChevronLeft size={18} /></button>
+          <button onClick={() => setAnchor(startOfDay(new Date()))} className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-md text-xs font-medium">Today</button>
+          <button onClick={() => step(1)} className="p-1 text-zinc-500 hover:text-zinc-300"><ChevronRight size={18} /></button>
+          <span className="text-sm text-zinc-400">{title}</span>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onOpenWindows} className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg text-sm font-medium transition-colors">Posting Windows</button>
+          <button
+            onClick={onAutoSchedule}
+            className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Fill Queue
+          </button>
+          {filter}
+          <div className="flex bg-zinc-900 border border-zinc-800 rounded-lg p-0.5">
+            {(['month', 'week', 'day'] as const).map(v => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-3 py-1 rounded-md text-xs font-medium capitalize transition-colors ${view === v ? 'bg-purple-600 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <Card className="p-0 overflow-hidden">
+        {view === 'month' ? (
+          <div className="grid grid-cols-7">
+            {days.slice(0, 7).map(day => (
+              <div key={day.getDay()} className="px-2 py-2 text-[10px] font-bold text-zinc-500 uppercase border-b border-zinc-800">{day.toLocaleDateString([], { weekday: 'short' })}</div>
+            ))}
+            {days.map(day => {
+              const key = day.toDateString();
+              return (
+                <div
+                  key={key}
+                  {...dropProps(key, day, null)}
+                  className={`min-h-[96px] p-1.5 space-y-1 border-b border-r border-zinc-900 ${day.getMonth() !== anchor.getMonth() ? 'bg-zinc-950/60' : ''} ${dropClass(key)}`}
+                >
+                  <button
+                    onClick={() => { setAnchor(day); setView('day'); }}
+                    className={`text-[11px] font-medium ${sameDay(day, new Date()) ? 'text-purple-400' : day.getMonth() !== anchor.getMonth() ? 'text-zinc-700' : 'text-zinc-500'} hover:text-zinc-200`}
+                  >
+                    {day.getDate()}
+                  </button>
+                  {itemsOn(day).slice(0, 4).map(item => renderChip(item, true))}
+                  {itemsOn(day).length > 4 && <p className="text-[10px] text-zinc-500">+{itemsOn(day).length - 4} more</p>}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="max-h-[70vh] overflow-y-auto">
+            <div className="grid sticky top-0 bg-zinc-950 z-10 border-b border-zinc-800" style={{ gridTemplateColumns: `56px repeat(${days.length}, minmax(0, 1fr))` }}>
+              <div />
+              {days.map(day => (
+                <div key={day.toDateString()} className={`px-2 py-2 text-[10px] font-bold uppercase ${sameDay(day, new Date()) ? 'text-purple-400' : 'text-zinc-500'}`}>
+                  {day.toLocaleDateString([], { weekday: 'short', day: 'numeric' })}
+                </div>
+              ))}
+            </div>
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div key={hour} className="grid" style={{ gridTemplateColumns: `56px repeat(${days.length}, minmax(0, 1fr))` }}>
+                <div className="px-2 py-1 text-[10px] text-zinc-600 border-b border-zinc-900">{String(hour).padStart(2, '0')}:00</div>
+                {days.map(day => {
+                  const key = `${day.toDateString()} ${hour}`;
+                  return (
+                    <div key={key} {...dropProps(key, day, hour)} className={`min-h-[36px] p-1 space-y-1 border-b border-l border-zinc-900 ${dropClass(key)}`}>
+                      {itemsOn(day, hour).map(item => renderChip(item, view === 'week'))}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <div className="flex flex-wrap items-center gap-4 text-[11px] text-zinc-500">
+        {hover && dragging && (
+          <span className={hover.check.overLimit ? 'text-red-400' : hover.check.conflicts.length > 0 ? 'text-yellow-500' : 'text-purple-400'}>
+            {describe(hover.check) ? `Drop here: ${describe(hover.check)}` : 'Drop here: slot is free'}
+          </span>
+        )}
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded ring-1 ring-yellow-500/70" /> Within {conflictWindow} min of another post</span>
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded ring-1 ring-red-500/70" /> Over the channel's daily limit</span>
+        {channels.map((channel, i) => (
+          <span key={channel.id} className="flex items-center gap-1">
+            <span className={`w-1.5 h-1.5 rounded-full ${CHANNEL_COLORS[i % CHANNEL_COLORS.length]}`} />
+            {channel.name || `Channel ${channel.id}`}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface PostingWindow {
+  days: number[];
+  start_time: string;
+  end_time: string;
+  slots: number;
+  min_spacing_minutes: number;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const PostingWindowsEditor = ({
+  channels,
+  initialChannelId,
+  onClose,
+  onAutoSchedule,
+  notify
+}: {
+  channels: Channel[];
+  initialChannelId: number | null;
+  onClose: () => void;
+  onAutoSchedule: (channelId: number, reflow: boolean) => Promise<void>;
+  notify: (message: string, type?: 'success' | 'error' | 'warning') => void;
+}) => {
+  const [channelId, setChannelId] = useState<number | null>(initialChannelId ?? channels[0]?.id ?? null);
+  const [timezone, setTimezone] = useState('UTC');
+  const [order, setOrder] = useState<'fifo' | 'shuffle'>('fifo');
+  const [windows, setWindows] = useState<PostingWindow[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (channelId === null) return;
+    fetch(`/api/channels/${channelId}/posting-windows`)
+      .then(res => res.json())
+      .then(data => {
+        setTimezone(data.timezone || 'UTC');
+        setOrder(data.schedule_order || 'fifo');
+        setWindows(data.windows.map((w: PostingWindow & { days: string }) => ({ ...w, days: w.days.split(',').map(Number) })));
+      })
+      .catch(() => notify("Failed to load posting windows", 'error'));
+  }, [channelId]);
+
+  const update = (index: number, changes: Partial<PostingWindow>) =>
+    setWindows(prev => prev.map((w, i) => i === index ? { ...w, ...changes } : w));
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/channels/${channelId}/posting-windows`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timezone, schedule_order: order, windows })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      notify("Saved posting windows", 'success');
+      return true;
+    } catch (error) {
+      notify(`Failed to save posting windows${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = "px-2 py-1 bg-zinc-900 border border-zinc-800 rounded-md text-xs text-zinc-300 outline-none focus:border-purple-500/50";
+  const labelClass = "text-[11px] font-semibold text-zinc-500 uppercase tracking-wider";
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/70 backdrop-blur-sm z-40"
+      />
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 20 }}
+        className="fixed inset-x-4 top-10 bottom-10 md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-[640px] z-50 bg-zinc-950 border border-zinc-800 rounded-xl flex flex-col"
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-900">
+          <h3 className="text-sm font-semibold text-zinc-100 flex items-center gap-2">
+            <Clock size={16} className="text-purple-400" />
+            Posting Windows
+          </h3>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <label className={labelClass}>Channel</label>
+              <select value={channelId ?? ''} onChange={(e) => setChannelId(Number(e.target.value))} className={`w-full ${inputClass}`}>
+                {channels.map(c => <option key={c.id} value={c.id}>{c.name || `Channel ${c.id}`}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>Timezone</label>
+              <input value={timezone} onChange={(e) => setTimezone(e.target.value)} placeholder="Europe/London" className={`w-full ${inputClass}`} />
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>Order</label>
+              <select value={order} onChange={(e) => setOrder(e.target.value as typeof order)} className={`w-full ${inputClass}`}>
+                <option value="fifo">Oldest first</option>
+                <option value="shuffle">Shuffle</option>
+              </select>
+            </div>
+          </div>
+          <p className="text-[11px] text-zinc-500">
+            Slots are spread evenly across each window. Higher-priority posts are placed first, and the channel's daily limit of {channels.find(c => c.id === channelId)?.daily_limit ?? '—'} is never exceeded.
+          </p>
+
+          {windows.map((w, index) => (
+            <div key={index} className="p-3 bg-zinc-900/50 border border-zinc-800 rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex gap-1">
+                  {WEEKDAYS.map((label, day) => (
+                    <button
+                      key={day}
+                      onClick={() => update(index, { days: w.days.includes(day) ? w.days.filter(d => d !== day) : [...w.days, day] })}
+                      className={`w-6 h-6 rounded-md text-[10px] font-bold transition-colors ${w.days.includes(day) ? 'bg-purple-600 text-white' : 'bg-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <button onClick={() => setWindows(prev => prev.filter((_, i) => i !== index))} className="p-1 text-zinc-500 hover:text-red-400"><Trash2 size={14} /></button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-500">
+                <input type="time" value={w.start_time} onChange={(e) => update(index, { start_time: e.target.value })} className={inputClass} />
+                to
+                <input type="time" value={w.end_time} onChange={(e) => update(index, { end_time: e.target.value })} className={inputClass} />
+                <input type="number" min={1} max={48} value={w.slots} onChange={(e) => update(index, { slots: Number(e.target.value) })} className={`w-14 ${inputClass}`} />
+                slots, at least
+                <input type="number" min={0} value={w.min_spacing_minutes} onChange={(e) => update(index, { min_spacing_minutes: Number(e.target.value) })} className={`w-16 ${inputClass}`} />
+                min apart
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={() => setWindows(prev => [...prev, { days: [1, 2, 3, 4, 5], start_time: '09:00', end_time: '21:00', slots: 3, min_spacing_minutes: 60 }])}
+            className="flex items-center gap-1.5 text-xs text-purple-400 hover:text-purple-300 font-medium"
+          >
+            <Plus size={14} />
+            Add Window
+          </button>
+        </div>
+
+        <div className="flex justify-between gap-2 px-4 py-3 border-t border-zinc-900">
+          <button
+            onClick={async () => { if (channelId !== null && await save()) await onAutoSchedule(channelId, true); }}
+            disabled={saving || channelId === null}
+            title="Lay out the auto-scheduled queue again from the first free slot"
+            className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-zinc-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            Save & Reflow Queue
+          </button>
+          <button
+            onClick={async () => { if (await save()) onClose(); }}
+            disabled={saving || channelId === null}
+            className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </motion.div>
+    </>
+  );
+};
+
+const ChannelSettingsDrawer = ({
+  channel,
+  channels,
+  onClose,
+  notify
+}: {
+  channel: Channel;
+  channels: Channel[];
+  onClose: () => void;
+  notify: (message: string, type?: 'success' | 'error' | 'warning') => void;
+}) => {
+  const [name, setName] = useState(channel.name || '');
+  const [folder, setFolder] = useState(channel.drive_folder_id || '');
+  const [limit, setLimit] = useState(channel.daily_limit);
+  const [avatar, setAvatar] = useState(channel.avatar || '');
+  const [saving, setSaving] = useState(false);
+  const [checking, setChecking] = useState(false);
+  // Set once the server refuses a delete because the channel still has unpublished posts.
+  const [queuedCount, setQueuedCount] = useState<number | null>(null);
+  const [plan, setPlan] = useState<'move' | 'remove'>('move');
+  const others = channels.filter(c => c.id !== channel.id);
+  const [moveTo, setMoveTo] = useState<number | null>(others[0]?.id ?? null);
+
+  const patch = async (changes: Record<string, unknown>, success: string) => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/channels/${channel.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      notify(success, 'success');
+      return true;
+    } catch (error) {
+      notify(`Failed to update channel${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const save = async () => {
+    const changes: Record<string, unknown> = {};
+    if (name.trim() !== (channel.name || '')) changes.name = name;
+    if (folder.trim() !== (channel.drive_folder_id || '')) changes.drive_folder_id = folder;
+    if (limit !== channel.daily_limit) changes.daily_limit = limit;
+    if (avatar.trim() !== (channel.avatar || '')) changes.avatar = avatar.trim() || null;
+    if (Object.keys(changes).length === 0) return onClose();
+    if (await patch(changes, `Saved ${name.trim() || 'channel'}`)) onClose();
+  };
+
+  const checkHealth = async () => {
+    setChecking(true);
+    try {
+      const res = await fetch(`/api/channels/${channel.id}/health-check`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      notify(data.status === 'Connected' ? 'Channel is connected' : `Channel is ${data.status}${data.health_error ? `: ${data.health_error}` : ''}`, data.status === 'Connected' ? 'success' : 'warning');
+    } catch (error) {
+      notify(`Health check failed${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const remove = async () => {
+    if (queuedCount === null && !window.confirm(`Delete ${channel.name || 'this channel'}? Its posting windows, templates and Snapchat authorization are removed too.`)) return;
+    const query = queuedCount === null ? '' : plan === 'move' ? `?queued=move&move_to=${moveTo}` : '?queued=remove';
+    try {
+      const res = await fetch(`/api/channels/${channel.id}${query}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (res.status === 409 && data.code === 'has_queued_media') return setQueuedCount(data.queued);
+      if (!res.ok) throw new Error(describeError(data));
+      notify(`Deleted ${channel.name || 'channel'}${data.moved ? `, moved ${data.moved} post(s)` : data.deleted ? `, deleted ${data.deleted} post(s)` : ''}`, 'success');
+      onClose();
+    } catch (error) {
+      notify(`Failed to delete channel${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300 outline-none focus:border-purple-500/50";
+  const labelClass = "text-[11px] font-semibold text-zinc-500 uppercase tracking-wider";
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/70 backdrop-blur-sm z-40"
+      />
+      <motion.div
+        initial={{ opacity: 0, x: 40 }}
+        animate={{ opacity: 1, x: 0 }}
+        exit={{ opacity: 0, x: 40 }}
+        className="fixed inset-y-0 right-0 w-full md:w-[420px] z-50 bg-zinc-950 border-l border-zinc-800 flex flex-col"
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-900">
+          <h3 className="text-sm font-semibold text-zinc-100 flex items-center gap-2">
+            <SettingsIcon size={16} className="text-purple-400" />
+            {channel.name || 'Unnamed Channel'}
+          </h3>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          <div className="p-3 bg-zinc-900/50 border border-zinc-800 rounded-lg space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Badge status={channel.status} />
+                {!!channel.paused && <Badge status="Paused" />}
+              </div>
+              <button onClick={checkHealth} disabled={checking} className="flex items-center gap-1.5 text-xs text-purple-400 hover:text-purple-300 disabled:opacity-50 font-medium">
+                <RefreshCw size={12} className={checking ? 'animate-spin' : ''} />
+                Check now
+              </button>
+            </div>
+            <p className="text-[11px] text-zinc-500">Last checked {timeAgo(channel.health_checked_at, Date.now())}</p>
+            {channel.status !== 'Connected' && channel.health_error && <p className="text-xs text-red-400">{channel.health_error}</p>}
+            {channel.status !== 'Connected' && (
+              <a href={`/api/snapchat/connect?channel_id=${channel.id}`} className="inline-block text-xs text-yellow-400 hover:text-yellow-300 font-medium">Reconnect to Snapchat</a>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between p-3 bg-zinc-900/50 border border-zinc-800 rounded-lg">
+            <div>
+              <p className="text-sm text-zinc-200 font-medium">{channel.paused ? 'Publishing paused' : 'Publishing active'}</p>
+              <p className="text-[11px] text-zinc-500">Paused channels keep their queue; nothing goes out until you resume.</p>
+            </div>
+            <button
+              onClick={() => patch({ paused: !channel.paused }, `${channel.name || 'Channel'} ${channel.paused ? 'resumed' : 'paused'}`)}
+              disabled={saving}
+              className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-zinc-200 rounded-lg text-xs font-medium transition-colors"
+            >
+              {channel.paused ? 'Resume' : 'Pause'}
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            <label className={labelClass}>Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Media folder</label>
+            <input value={folder} onChange={(e) => setFolder(e.target.value)} placeholder="Google Drive folder ID" className={inputClass} />
+            <p className="text-[11px] text-zinc-500">Posts already scanned from the old folder stay in the queue.</p>
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Daily limit</label>
+            <input type="number" min={1} max={100} value={limit} onChange={(e) => setLimit(Number(e.target.value))} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Avatar URL</label>
+            <input value={avatar} onChange={(e) => setAvatar(e.target.value)} placeholder="https://..." className={inputClass} />
+          </div>
+
+          <div className="p-3 border border-red-500/20 rounded-lg space-y-2">
+            <p className="text-sm text-red-400 font-medium">Delete channel</p>
+            {queuedCount !== null && (
+              <div className="space-y-2 text-xs text-zinc-400">
+                <p>{queuedCount} unpublished post(s) are still on this channel.</p>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={plan === 'move'} onChange={() => setPlan('move')} disabled={others.length === 0} className="accent-purple-500" />
+                  Move them to
+                  <select value={moveTo ?? ''} onChange={(e) => setMoveTo(Number(e.target.value))} disabled={plan !== 'move' || others.length === 0} className="px-2 py-1 bg-zinc-900 border border-zinc-800 rounded-md text-xs text-zinc-300 outline-none">
+                    {others.map(c => <option key={c.id} value={c.id}>{c.name || `Channel ${c.id}`}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={plan === 'remove'} onChange={() => setPlan('remove')} className="accent-purple-500" />
+                  Delete them with the channel
+                </label>
+              </div>
+            )}
+            <button
+              onClick={remove}
+              disabled={queuedCount !== null && plan === 'move' && moveTo === null}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-red-600/20 hover:bg-red-600/30 disabled:opacity-50 text-red-400 rounded-lg text-xs font-medium transition-colors"
+            >
+              <Trash2 size={12} />
+              {queuedCount === null ? 'Delete Channel' : plan === 'move' ? `Move ${queuedCount} post(s) and delete` : `Delete channel and ${queuedCount} post(s)`}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-zinc-900">
+          <button onClick={onClose} className="px-3 py-1.5 text-zinc-400 hover:text-zinc-200 text-sm">Cancel</button>
+          <button
+            onClick={save}
+            disabled={saving || !name.trim()}
+            className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </motion.div>
+    </>
+  );
+};
+
+type LibraryItem = MediaFile & { tags: string[] };
+
+const LIBRARY_STATUSES = ['Pending', 'Uploading', 'Published', 'Failed', 'Dead Letter', 'Needs Fix', 'Rejected', 'Removed'];
+
+const TagEditor = ({ item, onSaved }: { item: LibraryItem; onSaved: (tags: string[]) => void }) => {
+  const [value, setValue] = useState('');
+
+  const save = async (tags: string[]) => {
+    const res = await fetch(`/api/media/${item.id}/tags`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tags })
+    });
+    if (res.ok) onSaved((await res.json()).tags);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {item.tags.map(tag => (
+        <span key={tag} className="flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-zinc-800 text-[10px] text-zinc-300">
+          {tag}
+          <button onClick={() => save(item.tags.filter(t => t !== tag))} className="text-zinc-500 hover:text-red-400"><X size={10} /></button>
+        </span>
+      ))}
+      <input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && value.trim()) {
+            save([...item.tags, value]);
+            setValue('');
+          }
+        }}
+        placeholder="+ tag"
+        className="w-14 bg-transparent border-none outline-none text-[10px] text-zinc-400 placeholder:text-zinc-600"
+      />
+    </div>
+  );
+};
+
+const MediaLibrary = ({
+  channels,
+  query,
+  onQueryChange,
+  onPreview,
+  notify
+}: {
+  channels: Channel[];
+  query: string;
+  onQueryChange: (query: string) => void;
+  onPreview: (file: MediaFile) => void;
+  notify: (message: string, type?: 'success' | 'error' | 'warning') => void;
+}) => {
+  const [status, setStatus] = useState('');
+  const [type, setType] = useState('');
+  const [aspectRatio, setAspectRatio] = useState('');
+  const [channelId, setChannelId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [tags, setTags] = useState<{ tag: string; count: number }[]>([]);
+  const [items, setItems] = useState<LibraryItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadTags = () => fetch('/api/tags').then(res => res.json()).then(setTags).catch(() => setTags([]));
+
+  const load = async (after: string | null = null) => {
+    const params = new URLSearchParams();
+    if (query.trim()) params.set('q', query.trim());
+    if (status) params.set('status', status);
+    if (type) params.set('type', type);
+    if (aspectRatio) params.set('aspect_ratio', aspectRatio);
+    if (channelId) params.set('channel_id', channelId);
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    if (tagFilter.length) params.set('tags', tagFilter.join(','));
+    if (after) params.set('cursor', after);
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/media/search?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      setItems(prev => after ? [...prev, ...data.items] : data.items);
+      setTotal(data.total);
+      setCursor(data.next_cursor);
+    } catch (error) {
+      notify(`Search failed${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTags();
+  }, []);
+
+  // Typing is debounced; every other filter change reloads from the first page.
+  useEffect(() => {
+    const timer = setTimeout(() => load(), 250);
+    return () => clearTimeout(timer);
+  }, [query, status, type, aspectRatio, channelId, from, to, tagFilter.join(',')]);
+
+  const updateTags = (id: number, next: string[]) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, tags: next } : item));
+    loadTags();
+  };
+
+  const selectClass = "px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300 outline-none focus:border-purple-500/50";
+  const filtersActive = query || status || type || aspectRatio || channelId || from || to || tagFilter.length > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h2 className="text-lg font-bold text-zinc-100">Media Library</h2>
+        <div className="flex items-center gap-2 px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-500 focus-within:border-purple-500/50 focus-within:text-zinc-300 transition-all">
+          <Search size={16} />
+          <input
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            placeholder="Search file names and captions..."
+            className="bg-transparent border-none outline-none text-sm w-56"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <select value={status} onChange={(e) => setStatus(e.target.value)} className={selectClass}>
+          <option value="">Any status</option>
+          {LIBRARY_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select value={type} onChange={(e) => setType(e.target.value)} className={selectClass}>
+          <option value="">Any type</option>
+          <option value="video">Video</option>
+          <option value="image">Image</option>
+        </select>
+        <select value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value)} className={selectClass}>
+          <option value="">Any aspect ratio</option>
+          <option value="9:16">9:16</option>
+          <option value="16:9">16:9</option>
+          <option value="1:1">1:1</option>
+          <option value="4:5">4:5</option>
+        </select>
+        <select value={channelId} onChange={(e) => setChannelId(e.target.value)} className={selectClass}>
+          <option value="">All channels</option>
+          {channels.map(c => <option key={c.id} value={c.id}>{c.name || 'Unnamed Channel'}</option>)}
+        </select>
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} title="Ingested from" className={selectClass} />
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} title="Ingested until" className={selectClass} />
+        {filtersActive && (
+          <button
+            onClick={() => {
+              onQueryChange('');
+              setStatus(''); setType(''); setAspectRatio(''); setChannelId(''); setFrom(''); setTo(''); setTagFilter([]);
+            }}
+            className="px-3 py-1.5 text-zinc-500 hover:text-zinc-300 text-sm"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {tags.map(({ tag, count }) => (
+            <button
+              key={tag}
+              onClick={() => setTagFilter(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag])}
+              className={`px-2 py-0.5 rounded-full border text-[11px] transition-colors ${tagFilter.includes(tag) ? 'border-purple-500/50 bg-purple-500/10 text-purple-300' : 'border-zinc-800 text-zinc-400 hover:border-zinc-700'}`}
+            >
+              #{tag} <span className="text-zinc-600">{count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-zinc-500">{total} result{total === 1 ? '' : 's'}</p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+        {items.map(item => (
+          <div key={item.id} className="bg-zinc-900/50 border border-zinc-800 rounded-xl overflow-hidden">
+            <button onClick={() => onPreview(item)} className="w-full aspect-[9/16] bg-zinc-800 flex items-center justify-center hover:opacity-90">
+              <Thumbnail file={item} />
+            </button>
+            <div className="p-2 space-y-1.5">
+              <p className="text-xs text-zinc-200 font-medium truncate" title={item.file_name}>{item.file_name}</p>
+              <div className="flex items-center justify-between gap-1">
+                <Badge status={item.status} />
+                <span className="text-[10px] text-zinc-500 truncate">{channels.find(c => c.id === item.channel_id)?.name || 'Unassigned'}</span>
+              </div>
+              {item.caption && <p className="text-[10px] text-zinc-500 italic line-clamp-2">{item.caption}</p>}
+              <TagEditor item={item} onSaved={(next) => updateTags(item.id, next)} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {items.length === 0 && !loading && (
+        <div className="py-12 flex flex-col items-center justify-center text-zinc-500 border-2 border-dashed border-zinc-800 rounded-xl">
+          <ImageIcon size={48} className="mb-4 opacity-20" />
+          <p className="text-sm">{filtersActive ? 'Nothing matches these filters' : 'No media yet'}</p>
+        </div>
+      )}
+
+      {cursor && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => load(cursor)}
+            disabled={loading}
+            className="px-4 py-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-zinc-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            {loading ? 'Loading...' : `Load more (${items.length} of ${total})`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  debug: 'text-zinc-500',
+  info: 'text-blue-400',
+  warn: 'text-amber-500',
+  error: 'text-red-500',
+};
+
+const LEVEL_DOTS: Record<LogLevel, string> = {
+  debug: 'bg-zinc-600',
+  info: 'bg-blue-500',
+  warn: 'bg-amber-500',
+  error: 'bg-red-500',
+};
+
+const parseContext = (entry: LogEntry): Record<string, unknown> | null => {
+  if (!entry.context) return null;
+  try {
+    return JSON.parse(entry.context);
+  } catch {
+    return null;
+  }
+};
+
+const contextSummary = (entry: LogEntry) => {
+  const context = parseContext(entry);
+  if (!context) return '';
+  return Object.entries(context)
+    .map(([key, value]) => `${key}: ${typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value)}`)
+    .join(' · ');
+};
+
+const MediaTimeline = ({ media, onClose }: { media: { id: number; file_name: string }; onClose: () => void }) => {
+  const [entries, setEntries] = useState<LogEntry[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch(`/api/media/${media.id}/timeline`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(describeError(data));
+        setEntries(data);
+      })
+      .catch(e => setError(e instanceof Error && e.message ? e.message : 'Failed to load timeline'));
+  }, [media.id]);
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/80 backdrop-blur-sm z-40"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+      >
+        <div className="pointer-events-auto bg-zinc-950 border border-zinc-800 rounded-xl w-full max-w-xl max-h-full flex flex-col">
+          <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-zinc-900">
+            <div className="min-w-0">
+              <p className="text-sm text-zinc-200 font-medium truncate">{media.file_name}</p>
+              <p className="text-[10px] text-zinc-500">Timeline, including processed versions</p>
+            </div>
+            <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300"><X size={18} /></button>
+          </div>
+          <div className="p-4 overflow-y-auto custom-scrollbar">
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            {!error && entries === null && <p className="text-sm text-zinc-500">Loading...</p>}
+            {entries?.length === 0 && <p className="text-sm text-zinc-500 italic">Nothing logged for this post yet</p>}
+            <ol className="relative border-l border-zinc-800 ml-1.5 space-y-4">
+              {entries?.map(entry => (
+                <li key={entry.id} className="pl-4 relative">
+                  <span className={`absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full ${LEVEL_DOTS[entry.level] || LEVEL_DOTS.info}`} />
+                  <div className="flex items-baseline justify-between gap-2">
+                    <p className="text-sm text-zinc-200">{entry.action}</p>
+                    <span className="text-[10px] text-zinc-500 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</span>
+                  </div>
+                  <p className={`text-[10px] font-bold uppercase ${LEVEL_STYLES[entry.level] || LEVEL_STYLES.info}`}>
+                    {entry.level} · {entry.status}
+                    {entry.username && <span className="ml-2 normal-case font-medium text-zinc-500">by {entry.username}</span>}
+                    {entry.correlation_id && <span className="ml-2 font-mono normal-case text-zinc-600">{entry.correlation_id}</span>}
+                  </p>
+                  {entry.error_message && <p className="text-xs text-zinc-400 italic mt-0.5">{entry.error_message}</p>}
+                  {entry.context && <p className="text-[10px] text-zinc-500 font-mono mt-0.5 break-all">{contextSummary(entry)}</p>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      </motion.div>
+    </>
+  );
+};
+
+const LogViewer = ({
+  channels,
+  live,
+  onOpenTimeline,
+  notify
+}: {
+  channels: Channel[];
+  live: LogEntry[];
+  onOpenTimeline: (media: { id: number; file_name: string }) => void;
+  notify: (message: string, type?: 'success' | 'error' | 'warning') => void;
+}) => {
+  const [q, setQ] = useState('');
+  const [level, setLevel] = useState('');
+  const [channelId, setChannelId] = useState('');
+  const [correlationId, setCorrelationId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [items, setItems] = useState<LogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [cursor, setCursor] = useState<string | null>(null);
+  // Live entries newer than this arrived after the first page was loaded.
+  const [newestLoaded, setNewestLoaded] = useState(Number.MAX_SAFE_INTEGER);
+  const [loading, setLoading] = useState(false);
+
+  const params = new URLSearchParams();
+  if (q.trim()) params.set('q', q.trim());
+  if (level) params.set('level', level);
+  if (channelId) params.set('channel_id', channelId);
+  if (correlationId) params.set('correlation_id', correlationId);
+  if (from) params.set('from', from);
+  // Whole days: the end date includes everything logged on it.
+  if (to) params.set('to', `${to} 23:59:59`);
+
+  const load = async (after: string | null = null) => {
+    const query = new URLSearchParams(params);
+    if (after) query.set('cursor', after);
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/logs?${query}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      setItems(prev => after ? [...prev, ...data.items] : data.items);
+      setTotal(data.total);
+      setCursor(data.next_cursor);
+      if (!after) setNewestLoaded(data.items[0]?.id ?? 0);
+    } catch (error) {
+      notify(`Failed to load logs${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => load(), 250);
+    return () => clearTimeout(timer);
+  }, [q, level, channelId, correlationId, from, to]);
+
+  // New entries from the event stream, filtered the way the server would.
+  const matches = (entry: LogEntry) =>
+    !to &&
+    (!level || level.split(',').includes(entry.level)) &&
+    (!channelId || entry.channel_id === Number(channelId)) &&
+    (!correlationId || entry.correlation_id === correlationId) &&
+    (!q.trim() || [entry.file_name, entry.action, entry.error_message].some(text => text?.toLowerCase().includes(q.trim().toLowerCase())));
+  const arrived = live.filter(entry => entry.id > newestLoaded && matches(entry));
+  const rows = [...arrived, ...items];
+
+  const selectClass = "px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300 outline-none focus:border-purple-500/50";
+  const filtersActive = q || level || channelId || correlationId || from || to;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h2 className="text-lg font-bold text-zinc-100">System Logs</h2>
+        <div className="flex gap-2">
+          <a href={`/api/logs/export?format=csv&${params}`} download className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg text-sm font-medium transition-colors flex items-center gap-1.5">
+            <Download size={14} /> CSV
+          </a>
+          <a href={`/api/logs/export?format=json&${params}`} download className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg text-sm font-medium transition-colors flex items-center gap-1.5">
+            <Download size={14} /> JSON
+          </a>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <div className="flex items-center gap-2 px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-500 focus-within:border-purple-500/50 focus-within:text-zinc-300 transition-all">
+          <Search size={16} />
+          <input value={q} onChange={(e) => setQ(e.target.value)} placeholder="Search logs..." className="bg-transparent border-none outline-none text-sm w-44" />
+        </div>
+        <select value={level} onChange={(e) => setLevel(e.target.value)} className={selectClass}>
+          <option value="">All levels</option>
+          <option value="error">Errors only</option>
+          <option value="warn,error">Warnings and errors</option>
+          <option value="info">Info</option>
+          <option value="debug">Debug</option>
+        </select>
+        <select value={channelId} onChange={(e) => setChannelId(e.target.value)} className={selectClass}>
+          <option value="">All channels</option>
+          {channels.map(c => <option key={c.id} value={c.id}>{c.name || 'Unnamed Channel'}</option>)}
+        </select>
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} title="From" className={selectClass} />
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} title="Until" className={selectClass} />
+        {correlationId && (
+          <button onClick={() => setCorrelationId('')} className="px-2 py-1 rounded-full border border-purple-500/50 bg-purple-500/10 text-purple-300 text-xs font-mono flex items-center gap-1">
+            {correlationId} <X size={12} />
+          </button>
+        )}
+        {filtersActive && (
+          <button
+            onClick={() => { setQ(''); setLevel(''); setChannelId(''); setCorrelationId(''); setFrom(''); setTo(''); }}
+            className="px-3 py-1.5 text-zinc-500 hover:text-zinc-300 text-sm"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <Card className="p-0 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-zinc-800/50">
+              <tr>
+                <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Timestamp</th>
+                <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Level</th>
+                <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Context</th>
+                <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Action</th>
+                <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Message</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800/50">
+              {rows.map((log) => (
+                <tr key={log.id} className="hover:bg-zinc-800/30 transition-colors align-top">
+                  <td className="px-4 py-3 text-xs text-zinc-500 whitespace-nowrap">
+                    {new Date(log.timestamp).toLocaleString()}
+                    {log.username && <p className="text-[10px] text-zinc-600">by {log.username}</p>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`text-[10px] font-bold uppercase ${LEVEL_STYLES[log.level] || LEVEL_STYLES.info}`}>{log.level}</span>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-zinc-300 font-medium">
+                    {log.media_id !== null ? (
+                      <button onClick={() => onOpenTimeline({ id: log.media_id!, file_name: log.file_name })} className="hover:text-purple-400 text-left" title="Open timeline">
+                        {log.file_name}
+                      </button>
+                    ) : log.file_name}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-zinc-400">
+                    {log.action}
+                    {log.correlation_id && (
+                      <button onClick={() => setCorrelationId(log.correlation_id!)} className="block mt-0.5 text-[10px] font-mono text-zinc-600 hover:text-purple-400" title="Show this run only">
+                        {log.correlation_id}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`text-[10px] font-bold uppercase ${log.status === 'Success' ? 'text-emerald-500' : log.status === 'Failed' ? 'text-red-500' : 'text-blue-400'}`}>
+                      {log.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-xs text-zinc-500 max-w-md">
+                    <span className="italic">{log.error_message || '-'}</span>
+                    {log.context && <p className="text-[10px] font-mono text-zinc-600 truncate" title={contextSummary(log)}>{contextSummary(log)}</p>}
+                  </td>
+                </tr>
+              ))}
+              {rows.length === 0 && !loading && (
+                <tr>
+                  <td colSpan={6} className="py-8 text-center text-zinc-500 text-sm italic">{filtersActive ? 'No log entries match these filters' : 'No system activity yet'}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {cursor && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => load(cursor)}
+            disabled={loading}
+            className="px-4 py-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-zinc-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            {loading ? 'Loading...' : `Load more (${items.length} of ${total})`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+const initials = (name: string) =>
+  name.split(/[\s._-]+/).filter(Boolean).slice(0, 2).map(part => part[0]).join('') || '?';
+
+const LoginScreen = ({ setup, onSignedIn }: { setup: boolean; onSignedIn: (account: Account) => void }) => {
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError('');
+    try {
+      const res = await fetch(setup ? '/api/auth/setup' : '/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(setup ? { username, password, display_name: displayName } : { username, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      onSignedIn(data.user);
+    } catch (error) {
+      setError(error instanceof Error && error.message ? error.message : 'Sign in failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-200 outline-none focus:border-purple-500/50";
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-black text-zinc-300 font-sans p-4">
+      <form onSubmit={submit} className="w-full max-w-sm bg-zinc-950 border border-zinc-900 rounded-xl p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-yellow-400 flex items-center justify-center text-black">
+            <Share2 size={20} strokeWidth={2.5} />
+          </div>
+          <span className="font-bold text-zinc-100 tracking-tight">SnapAuto</span>
+        </div>
+        <div>
+          <h1 className="text-lg font-bold text-zinc-100">{setup ? 'Create the admin account' : 'Sign in'}</h1>
+          {setup && <p className="text-xs text-zinc-500 mt-1">No accounts exist yet. This one can add everyone else.</p>}
+        </div>
+        <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Username" autoComplete="username" autoFocus className={inputClass} />
+        {setup && <input value={displayName} onChange={(e) => setDisplayName(e.target.value)} placeholder="Display name (optional)" className={inputClass} />}
+        <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" autoComplete={setup ? 'new-password' : 'current-password'} className={inputClass} />
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={busy || !username || !password}
+          className="w-full px-3 py-2 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          {busy ? 'Please wait...' : setup ? 'Create account' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+const PasswordModal = ({ onClose, notify }: { onClose: () => void; notify: (message: string, type?: 'success' | 'error' | 'warning') => void }) => {
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/auth/password', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ current_password: current, new_password: next }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      notify('Password changed, other sessions were signed out', 'success');
+      onClose();
+    } catch (error) {
+      notify(`Failed to change password${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300 outline-none focus:border-purple-500/50";
+
+  return (
+    <>
+      <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={onClose} className="fixed inset-0 bg-black/80 backdrop-blur-sm z-40" />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+      >
+        <div className="pointer-events-auto bg-zinc-950 border border-zinc-800 rounded-xl w-full max-w-sm">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-900">
+            <p className="text-sm text-zinc-200 font-medium">Change password</p>
+            <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300"><X size={18} /></button>
+          </div>
+          <div className="p-4 space-y-3">
+            <input type="password" value={current} onChange={(e) => setCurrent(e.target.value)} placeholder="Current password" autoComplete="current-password" className={inputClass} />
+            <input type="password" value={next} onChange={(e) => setNext(e.target.value)} placeholder="New password (8+ characters)" autoComplete="new-password" className={inputClass} />
+          </div>
+          <div className="flex justify-end gap-2 px-4 py-3 border-t border-zinc-900">
+            <button onClick={onClose} className="px-3 py-1.5 text-zinc-400 hover:text-zinc-200 text-sm">Cancel</button>
+            <button
+              onClick={save}
+              disabled={saving || !current || next.length < 8}
+              className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              {saving ? 'Saving...' : 'Change password'}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </>
+  );
+};
+
+const UserManager = ({
+  account,
+  onClose,
+  notify
+}: {
+  account: Account;
+  onClose: () => void;
+  notify: (message: string, type?: 'success' | 'error' | 'warning') => void;
+}) => {
+  const [users, setUsers] = useState<Account[]>([]);
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<Role>('editor');
+  const [busy, setBusy] = useState(false);
+
+  const load = () => fetch('/api/users').then(res => res.json()).then(setUsers).catch(() => notify('Failed to load users', 'error'));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const request = async (url: string, method: string, body?: object) => {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(describeError(data));
+    return data;
+  };
+
+  const create = async () => {
+    setBusy(true);
+    try {
+      await request('/api/users', 'POST', { username, display_name: displayName, password, role });
+      notify(`Added ${username}`, 'success');
+      setUsername(''); setDisplayName(''); setPassword('');
+      load();
+    } catch (error) {
+      notify(`Failed to add user${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeRole = async (user: Account, next: Role) => {
+    try {
+      await request(`/api/users/${user.id}`, 'PATCH', { role: next });
+      load();
+    } catch (error) {
+      notify(`Failed to change role${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    }
+  };
+
+  const resetPassword = async (user: Account) => {
+    const next = window.prompt(`New password for ${user.username} (8+ characters)`);
+    if (!next) return;
+    try {
+      await request(`/api/users/${user.id}`, 'PATCH', { password: next });
+      notify(`Password reset for ${user.username}`, 'success');
+    } catch (error) {
+      notify(`Failed to reset password${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    }
+  };
+
+  const remove = async (user: Account) => {
+    if (!window.confirm(`Delete ${user.username}? Their log entries are kept.`)) return;
+    try {
+      await request(`/api/users/${user.id}`, 'DELETE');
+      load();
+    } catch (error) {
+      notify(`Failed to delete user${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    }
+  };
+
+  const inputClass = "px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300 outline-none focus:border-purple-500/50";
+
+  return (
+    <>
+      <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={onClose} className="fixed inset-0 bg-black/80 backdrop-blur-sm z-40" />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+      >
+        <div className="pointer-events-auto bg-zinc-950 border border-zinc-800 rounded-xl w-full max-w-2xl max-h-full flex flex-col">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-900">
+            <div>
+              <p className="text-sm text-zinc-200 font-medium">Users</p>
+              <p className="text-[10px] text-zinc-500">Editors can schedule and caption. Viewers can only look.</p>
+            </div>
+            <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300"><X size={18} /></button>
+          </div>
+          <div className="p-4 overflow-y-auto custom-scrollbar space-y-4">
+            <table className="w-full text-left">
+              <tbody className="divide-y divide-zinc-800/50">
+                {users.map(user => (
+                  <tr key={user.id}>
+                    <td className="py-2">
+                      <p className="text-sm text-zinc-200">{user.display_name}{user.id === account.id && <span className="text-zinc-500"> (you)</span>}</p>
+                      <p className="text-[10px] text-zinc-500">
+                        {user.username} · {user.last_login_at ? `last signed in ${new Date(user.last_login_at).toLocaleString()}` : 'never signed in'}
+                      </p>
+                    </td>
+                    <td className="py-2">
+                      <select value={user.role} onChange={(e) => changeRole(user, e.target.value as Role)} className={inputClass}>
+                        {(Object.keys(ROLE_LABELS) as Role[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                      </select>
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button onClick={() => resetPassword(user)} className="px-2 py-1 text-xs text-zinc-400 hover:text-zinc-200">Reset password</button>
+                      <button onClick={() => remove(user)} className="p-1.5 text-zinc-500 hover:text-red-400 hover:bg-red-400/10 rounded-md transition-colors" title="Delete">
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="border-t border-zinc-900 pt-4 space-y-2">
+              <p className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">Add user</p>
+              <div className="flex flex-wrap gap-2">
+                <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Username" className={`${inputClass} w-36`} />
+                <input value={displayName} onChange={(e) => setDisplayName(e.target.value)} placeholder="Display name" className={`${inputClass} w-40`} />
+                <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" autoComplete="new-password" className={`${inputClass} w-36`} />
+                <select value={role} onChange={(e) => setRole(e.target.value as Role)} className={inputClass}>
+                  {(Object.keys(ROLE_LABELS) as Role[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                <button
+                  onClick={create}
+                  disabled={busy || !username || password.length < 8}
+                  className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+                >
+                  Add
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </>
+  );
+};
+
+interface SettingField {
+  key: string;
+  group: 'scanning' | 'scheduling' | 'publishing' | 'notifications' | 'logs' | 'credentials';
+  label: string;
+  description: string;
+  type: 'integer' | 'number' | 'timezone' | 'text' | 'secret';
+  default: number | string | null;
+  min?: number;
+  max?: number;
+  value: number | string | null;
+  source: 'database' | 'environment' | 'default';
+  configured: boolean;
+}
+
+const SETTING_GROUP_LABELS: Record<SettingField['group'], { title: string; hint: string }> = {
+  scanning: { title: 'Scanning', hint: 'How often channel folders are checked for new media.' },
+  scheduling: { title: 'Scheduling', hint: 'Defaults for new channels and the scheduler.' },
+  publishing: { title: 'Publishing', hint: 'Pacing and the retry policy for failed uploads.' },
+  notifications: { title: 'Notifications', hint: 'When the notification center warns about the queue.' },
+  logs: { title: 'Logs', hint: 'How long the activity log keeps its history.' },
+  credentials: { title: 'API credentials', hint: 'Secrets are encrypted at rest and never shown again once saved.' },
+};
+
+const SOURCE_LABELS: Record<SettingField['source'], string> = {
+  database: 'Saved',
+  environment: 'From environment',
+  default: 'Default',
+};
+
+type NotificationKind = 'publish_failed' | 'dead_letter' | 'token_expired' | 'low_runway' | 'empty_scan' | 'duplicate';
+
+const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  publish_failed: 'Publish failures',
+  dead_letter: 'Dead-lettered posts',
+  token_expired: 'Expired channel tokens',
+  low_runway: 'Low queue runway',
+  empty_scan: 'Scans that found nothing',
+  duplicate: 'Likely reposts',
+};
+
+interface Webhook {
+  id: number;
+  name: string;
+  url: string;
+  format: 'json' | 'slack';
+  kinds: NotificationKind[] | null;
+  enabled: number;
+  has_secret: boolean;
+  last_delivery: { status: 'delivered' | 'failed'; response_status: number | null; error: string | null; created_at: string } | null;
+}
+
+interface WebhookDelivery {
+  id: number;
+  event: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+}
+
+// Blank secret on an existing webhook keeps the stored one.
+const EMPTY_WEBHOOK = { name: '', url: '', format: 'json' as Webhook['format'], secret: '', kinds: [] as NotificationKind[], enabled: true };
+
+const WebhooksPanel = ({ notify }: { notify: (message: string, type?: 'success' | 'error' | 'warning') => void }) => {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  // null: no form open; 0: adding a new webhook.
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(EMPTY_WEBHOOK);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState<number | null>(null);
+  const [history, setHistory] = useState<{ id: number; deliveries: WebhookDelivery[] } | null>(null);
+
+  const load = () => fetch('/api/webhooks').then(res => res.json()).then(setWebhooks).catch(() => notify('Failed to load webhooks', 'error'));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const startEdit = (webhook?: Webhook) => {
+    setEditingId(webhook?.id ?? 0);
+    setForm(webhook ? { name: webhook.name, url: webhook.url, format: webhook.format, secret: '', kinds: webhook.kinds ?? [], enabled: !!webhook.enabled } : EMPTY_WEBHOOK);
+  };
+
+  const request = async (url: string, method: string, body?: object) => {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(describeError(data));
+    return data;
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const { secret, kinds, ...rest } = form;
+      const body = { ...rest, kinds: kinds.length > 0 ? kinds : null, ...(secret ? { secret } : {}) };
+      if (editingId) await request(`/api/webhooks/${editingId}`, 'PATCH', body);
+      else await request('/api/webhooks', 'POST', body);
+      setEditingId(null);
+      notify('Webhook saved', 'success');
+      load();
+    } catch (error) {
+      notify(`Failed to save webhook${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const update = async (webhook: Webhook, changes: object, done: string) => {
+    try {
+      await request(`/api/webhooks/${webhook.id}`, 'PATCH', changes);
+      notify(done, 'success');
+      load();
+    } catch (error) {
+      notify(`Failed to update ${webhook.name}${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    }
+  };
+
+  const remove = async (webhook: Webhook) => {
+    if (!window.confirm(`Delete the ${webhook.name} webhook? Its delivery history goes with it.`)) return;
+    try {
+      await request(`/api/webhooks/${webhook.id}`, 'DELETE');
+      if (history?.id === webhook.id) setHistory(null);
+      notify('Webhook deleted', 'success');
+      load();
+    } catch (error) {
+      notify(`Failed to delete webhook${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    }
+  };
+
+  const showHistory = async (webhook: Webhook) => {
+    try {
+      setHistory({ id: webhook.id, deliveries: await request(`/api/webhooks/${webhook.id}/deliveries`, 'GET') });
+    } catch (error) {
+      notify(`Failed to load deliveries${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    }
+  };
+
+  const test = async (webhook: Webhook) => {
+    setTesting(webhook.id);
+    try {
+      const delivery: WebhookDelivery = await request(`/api/webhooks/${webhook.id}/test`, 'POST');
+      if (delivery.status === 'delivered') notify(`Test delivered to ${webhook.name} (HTTP ${delivery.response_status})`, 'success');
+      else notify(`Test to ${webhook.name} failed: ${delivery.error}`, 'error');
+      load();
+      if (history?.id === webhook.id) showHistory(webhook);
+    } catch (error) {
+      notify(`Failed to test webhook${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const toggleKind = (kind: NotificationKind) =>
+    setForm(prev => ({ ...prev, kinds: prev.kinds.includes(kind) ? prev.kinds.filter(k => k !== kind) : [...prev.kinds, kind] }));
+
+  const inputClass = "w-full px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300 outline-none focus:border-purple-500/50";
+  const editing = editingId === null ? null : webhooks.find(webhook => webhook.id === editingId) ?? null;
+
+  return (
+    <Card>
+      <div className="flex justify-between items-start gap-2 mb-4">
+        <div>
+          <h3 className="text-sm font-semibold text-zinc-200">Webhooks</h3>
+          <p className="text-[10px] text-zinc-500">Notifications are POSTed to each URL as JSON or as a Slack message, signed with the webhook's secret and retried when delivery fails.</p>
+        </div>
+        {editingId === null && (
+          <button onClick={() => startEdit()} className="flex items-center gap-1 px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg text-sm font-medium transition-colors shrink-0">
+            <Plus size={14} /> Add webhook
+          </button>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <div className="mb-4 p-3 border border-zinc-800 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Name, e.g. #ops channel" className={inputClass} />
+            <select value={form.format} onChange={(e) => setForm({ ...form, format: e.target.value as Webhook['format'] })} className={inputClass}>
+              <option value="json">Generic JSON</option>
+              <option value="slack">Slack-compatible</option>
+            </select>
+            <input value={form.url} onChange={(e) => setForm({ ...form, url: e.target.value })} placeholder="https://example.com/hooks/snap" className={`${inputClass} md:col-span-2`} />
+            <input
+              type="password"
+              autoComplete="off"
+              value={form.secret}
+              onChange={(e) => setForm({ ...form, secret: e.target.value })}
+              placeholder={editing?.has_secret ? '•••••••• (enter a new secret to replace)' : 'Signing secret (optional)'}
+              className={`${inputClass} md:col-span-2`}
+            />
+          </div>
+          <div>
+            <p className="text-[10px] text-zinc-500 mb-1">Send {form.kinds.length === 0 ? 'every notification' : 'only'}:</p>
+            <div className="flex flex-wrap gap-3">
+              {(Object.keys(NOTIFICATION_KIND_LABELS) as NotificationKind[]).map(kind => (
+                <label key={kind} className="flex items-center gap-1.5 text-xs text-zinc-300">
+                  <input type="checkbox" checked={form.kinds.includes(kind)} onChange={() => toggleKind(kind)} className="accent-purple-500" />
+                  {NOTIFICATION_KIND_LABELS[kind]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1.5 text-xs text-zinc-300 mr-auto">
+              <input type="checkbox" checked={form.enabled} onChange={(e) => setForm({ ...form, enabled: e.target.checked })} className="accent-purple-500" />
+              Enabled
+            </label>
+            {editing?.has_secret && (
+              <button onClick={() => update(editing, { secret: null }, 'Secret removed')} className="px-3 py-1.5 text-zinc-400 hover:text-zinc-200 text-sm">Remove secret</button>
+            )}
+            <button onClick={() => setEditingId(null)} className="px-3 py-1.5 text-zinc-400 hover:text-zinc-200 text-sm">Cancel</button>
+            <button
+              onClick={save}
+              disabled={saving || !form.name.trim() || !form.url.trim()}
+              className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              {saving ? 'Saving...' : 'Save webhook'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {webhooks.length === 0 && editingId === null && <p className="text-xs text-zinc-500 italic">No webhooks yet.</p>}
+      <div className="divide-y divide-zinc-800/50">
+        {webhooks.map(webhook => (
+          <div key={webhook.id} className="py-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="min-w-0 mr-auto">
+                <p className="text-sm text-zinc-300">
+                  {webhook.name}
+                  <span className="ml-2 text-[10px] text-zinc-500">{webhook.format === 'slack' ? 'Slack' : 'JSON'}{webhook.has_secret ? ' · signed' : ''}{webhook.enabled ? '' : ' · disabled'}</span>
+                </p>
+                <p className="text-[10px] text-zinc-500 truncate">{webhook.url}</p>
+                <p className="text-[10px] text-zinc-500">
+                  {webhook.kinds ? webhook.kinds.map(kind => NOTIFICATION_KIND_LABELS[kind]).join(', ') : 'All notifications'}
+                  {webhook.last_delivery && (
+                    <span className={webhook.last_delivery.status === 'delivered' ? 'text-green-400' : 'text-red-400'}>
+                      {' · '}last {webhook.last_delivery.status} {timeAgo(webhook.last_delivery.created_at, Date.now())}
+                      {webhook.last_delivery.error ? ` (${webhook.last_delivery.error})` : ''}
+                    </span>
+                  )}
+                </p>
+              </div>
+              <button onClick={() => test(webhook)} disabled={testing === webhook.id} className="px-2 py-1 text-xs text-purple-400 hover:text-purple-300 disabled:opacity-50">
+                {testing === webhook.id ? 'Sending...' : 'Test'}
+              </button>
+              <button onClick={() => history?.id === webhook.id ? setHistory(null) : showHistory(webhook)} className="px-2 py-1 text-xs text-zinc-400 hover:text-zinc-200">
+                {history?.id === webhook.id ? 'Hide deliveries' : 'Deliveries'}
+              </button>
+              <button onClick={() => update(webhook, { enabled: !webhook.enabled }, webhook.enabled ? 'Webhook disabled' : 'Webhook enabled')} className="px-2 py-1 text-xs text-zinc-400 hover:text-zinc-200">
+                {webhook.enabled ? 'Disable' : 'Enable'}
+              </button>
+              <button onClick={() => startEdit(webhook)} className="px-2 py-1 text-xs text-zinc-400 hover:text-zinc-200">Edit</button>
+              <button onClick={() => remove(webhook)} className="p-1 text-zinc-500 hover:text-red-400" title="Delete webhook">
+                <Trash2 size={14} />
+              </button>
+            </div>
+            {history?.id === webhook.id && (
+              <div className="mt-2 space-y-1">
+                {history.deliveries.length === 0 && <p className="text-[10px] text-zinc-500 italic">Nothing sent yet.</p>}
+                {history.deliveries.map(delivery => (
+                  <div key={delivery.id} className="flex items-center gap-2 text-[10px]">
+                    <span className={`w-16 shrink-0 ${delivery.status === 'delivered' ? 'text-green-400' : delivery.status === 'failed' ? 'text-red-400' : 'text-orange-400'}`}>{delivery.status}</span>
+                    <span className="w-24 shrink-0 text-zinc-400">{delivery.event}</span>
+                    <span className="text-zinc-500 truncate">
+                      {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                      {delivery.response_status ? ` · HTTP ${delivery.response_status}` : ''}
+                      {delivery.error ? ` · ${delivery.error}` : ''}
+                      {delivery.status === 'pending' && delivery.next_attempt_at ? ` · next try ${new Date(delivery.next_attempt_at).toLocaleString()}` : ''}
+                    </span>
+                    <span className="ml-auto text-zinc-500 whitespace-nowrap">{new Date(delivery.created_at).toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+const SettingsPage = ({ canEdit, notify }: { canEdit: boolean; notify: (message: string, type?: 'success' | 'error' | 'warning') => void }) => {
+  const [fields, setFields] = useState<SettingField[]>([]);
+  // Edited values by key; null resets a setting to its environment value or default.
+  const [draft, setDraft] = useState<Record<string, string | null>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/settings').then(res => res.json()).then(setFields).catch(() => notify('Failed to load settings', 'error'));
+  }, []);
+
+  const edit = (key: string, value: string | null) => setDraft(prev => ({ ...prev, [key]: value }));
+  const discard = (key: string) => setDraft(prev => {
+    const { [key]: _, ...rest } = prev;
+    return rest;
+  });
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      setFields(data);
+      setDraft({});
+      notify('Settings saved', 'success');
+    } catch (error) {
+      notify(`Failed to save settings${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300 outline-none focus:border-purple-500/50 disabled:opacity-60";
+  const dirty = Object.keys(draft).length > 0;
+
+  const renderInput = (field: SettingField) => {
+    const edited = field.key in draft;
+    if (field.type === 'secret') {
+      return (
+        <input
+          type="password"
+          autoComplete="off"
+          disabled={!canEdit}
+          value={edited ? draft[field.key] ?? '' : ''}
+          onChange={(e) => e.target.value ? edit(field.key, e.target.value) : discard(field.key)}
+          placeholder={edited && draft[field.key] === null ? 'Will be cleared' : field.configured ? '•••••••• (enter a new value to replace)' : 'Not set'}
+          className={inputClass}
+        />
+      );
+    }
+    const shown = edited ? draft[field.key] ?? String(field.default ?? '') : String(field.value ?? '');
+    return (
+      <input
+        type={field.type === 'integer' || field.type === 'number' ? 'number' : 'text'}
+        min={field.min}
+        max={field.max}
+        step={field.type === 'number' ? 'any' : 1}
+        disabled={!canEdit}
+        value={shown}
+        onChange={(e) => edit(field.key, e.target.value)}
+        placeholder={field.type === 'timezone' ? 'e.g. Europe/London' : undefined}
+        className={inputClass}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div>
+          <h2 className="text-lg font-bold text-zinc-100">Settings</h2>
+          {!canEdit && <p className="text-xs text-zinc-500">Only admins can change settings.</p>}
+        </div>
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            {dirty && <button onClick={() => setDraft({})} className="px-3 py-1.5 text-zinc-400 hover:text-zinc-200 text-sm">Discard</button>}
+            <button
+              onClick={save}
+              disabled={!dirty || saving}
+              className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              {saving ? 'Saving...' : 'Save changes'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {(Object.keys(SETTING_GROUP_LABELS) as SettingField['group'][]).map(group => (
+        <Card key={group}>
+          <h3 className="text-sm font-semibold text-zinc-200">{SETTING_GROUP_LABELS[group].title}</h3>
+          <p className="text-[10px] text-zinc-500 mb-4">{SETTING_GROUP_LABELS[group].hint}</p>
+          <div className="divide-y divide-zinc-800/50">
+            {fields.filter(field => field.group === group).map(field => (
+              <div key={field.key} className="py-3 grid grid-cols-1 md:grid-cols-2 gap-2 items-start">
+                <div>
+                  <p className="text-sm text-zinc-300">{field.label}</p>
+                  {field.description && <p className="text-[10px] text-zinc-500">{field.description}</p>}
+                </div>
+                <div className="space-y-1">
+                  {renderInput(field)}
+                  <div className="flex items-center gap-2 text-[10px] text-zinc-500">
+                    <span>{field.type === 'secret' && !field.configured ? 'Not configured' : SOURCE_LABELS[field.source]}</span>
+                    {field.default !== null && <span>· default {field.default}</span>}
+                    {canEdit && field.source === 'database' && !(field.key in draft) && (
+                      <button onClick={() => edit(field.key, null)} className="ml-auto text-purple-400 hover:text-purple-300">
+                        {field.type === 'secret' ? 'Clear' : 'Reset'}
+                      </button>
+                    )}
+                    {field.key in draft && (
+                      <button onClick={() => discard(field.key)} className="ml-auto text-zinc-400 hover:text-zinc-200">Undo</button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      ))}
+
+      {canEdit && <WebhooksPanel notify={notify} />}
+    </div>
+  );
+};
+
+const APPROVAL_STATES: ApprovalStatus[] = ['In Review', 'Changes Requested', 'Draft', 'Approved'];
+
+interface ReviewItem extends MediaFile {
+  channel_name: string;
+  last_comment: string | null;
+}
+
+interface ReviewEvent {
+  id: number;
+  action: string;
+  from_status: ApprovalStatus | null;
+  to_status: ApprovalStatus | null;
+  comment: string | null;
+  username: string | null;
+  created_at: string;
+}
+
+const REVIEW_EVENT_LABELS: Record<string, string> = {
+  submit: 'submitted for review',
+  approve: 'approved',
+  request_changes: 'requested changes',
+  comment: 'commented',
+  reset: 'sent back to Draft',
+};
+
+const ReviewCard = ({
+  item,
+  canReview,
+  onReview,
+  onPreview
+}: {
+  item: ReviewItem;
+  key?: React.Key;
+  canReview: boolean;
+  onReview: (item: ReviewItem, action: string, comment?: string) => Promise<boolean>;
+  onPreview: (file: MediaFile) => void;
+}) => {
+  const [comment, setComment] = useState('');
+  const [history, setHistory] = useState<ReviewEvent[] | null>(null);
+  const state = item.approval_status ?? 'Draft';
+
+  const loadHistory = () => fetch(`/api/media/${item.id}/reviews`).then(res => res.json()).then(setHistory).catch(() => setHistory([]));
+
+  const act = async (action: string) => {
+    if (await onReview(item, action, comment)) {
+      setComment('');
+      if (history) loadHistory();
+    }
+  };
+
+  return (
+    <Card className="flex gap-4">
+      <button onClick={() => onPreview(item)} className="w-20 aspect-[9/16] bg-zinc-800 rounded-lg overflow-hidden flex items-center justify-center shrink-0 hover:opacity-90">
+        <Thumbnail file={item} />
+      </button>
+      <div className="flex-1 min-w-0 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="text-sm text-zinc-200 font-medium truncate">{item.file_name}</p>
+            <p className="text-[10px] text-zinc-500">
+              {item.channel_name} · {item.scheduled_time ? `scheduled ${new Date(item.scheduled_time).toLocaleString()}` : 'not scheduled'}
+            </p>
+          </div>
+          <Badge status={state} />
+        </div>
+        <p className={`text-xs ${item.caption ? 'text-zinc-300' : 'text-zinc-600 italic'}`}>{item.caption || 'No caption'}</p>
+        {item.last_comment && (
+          <p className="text-xs text-zinc-400 border-l-2 border-zinc-700 pl-2 italic">{item.last_comment}</p>
+        )}
+
+        {canReview && (
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder={state === 'In Review' ? 'Comment (required to request changes)' : 'Comment'}
+              className="flex-1 min-w-[12rem] px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-xs text-zinc-300 outline-none focus:border-purple-500/50"
+            />
+            {(state === 'Draft' || state === 'Changes Requested') && (
+              <button onClick={() => act('submit')} className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 text-white rounded-lg text-xs font-medium transition-colors">Submit for review</button>
+            )}
+            {state === 'In Review' && (
+              <button onClick={() => act('approve')} className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-xs font-medium transition-colors">Approve</button>
+            )}
+            {(state === 'In Review' || state === 'Approved') && (
+              <button onClick={() => act('request_changes')} disabled={!comment.trim()} className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-zinc-200 rounded-lg text-xs font-medium transition-colors">Request changes</button>
+            )}
+            <button onClick={() => act('comment')} disabled={!comment.trim()} className="px-3 py-1.5 text-zinc-400 hover:text-zinc-200 disabled:opacity-50 text-xs">Comment</button>
+          </div>
+        )}
+
+        <button onClick={() => history ? setHistory(null) : loadHistory()} className="text-[10px] text-zinc-500 hover:text-zinc-300 flex items-center gap-1">
+          <History size={12} /> {history ? 'Hide history' : 'History'}
+        </button>
+        {history && (
+          <ol className="space-y-1">
+            {history.length === 0 && <li className="text-[10px] text-zinc-600 italic">No review activity yet</li>}
+            {history.map(event => (
+              <li key={event.id} className="text-[10px] text-zinc-500">
+                <span className="text-zinc-400">{event.username || 'System'}</span> {REVIEW_EVENT_LABELS[event.action] || event.action}
+                {' · '}{new Date(event.created_at).toLocaleString()}
+                {event.comment && <span className="block text-zinc-400 italic">“{event.comment}”</span>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+interface DuplicateItem extends MediaFile {
+  channel_name: string;
+  original: MediaFile;
+}
+
+const DUPLICATE_ACTION_LABELS: Record<string, string> = { merge: 'merged into the published post', skip: 'skipped', allow: 'queued to post anyway' };
+
+// Files the scan matched against something already published on the same
+// channel. They stay out of the publishing queue until someone decides.
+const DuplicateReview = ({
+  channelId,
+  canReview,
+  refreshKey,
+  onPreview,
+  onChanged,
+  notify
+}: {
+  channelId: string;
+  canReview: boolean;
+  refreshKey: unknown;
+  onPreview: (file: MediaFile) => void;
+  onChanged: () => void;
+  notify: (message: string, type?: 'success' | 'error' | 'warning') => void;
+}) => {
+  const [items, setItems] = useState<DuplicateItem[]>([]);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const load = async () => {
+    try {
+      const res = await fetch(`/api/duplicates${channelId ? `?channel_id=${channelId}` : ''}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      setItems(data);
+    } catch (error) {
+      notify(`Failed to load likely reposts${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [channelId, refreshKey]);
+
+  const resolve = async (item: DuplicateItem, action: 'merge' | 'skip' | 'allow') => {
+    setBusyId(item.id);
+    try {
+      const res = await fetch(`/api/media/${item.id}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      notify(`${item.file_name} ${DUPLICATE_ACTION_LABELS[action]}`, 'success');
+      load();
+      onChanged();
+    } catch (error) {
+      notify(`Failed to resolve ${item.file_name}${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold text-zinc-200 flex items-center gap-2">
+          <Copy size={14} className="text-amber-400" /> Likely reposts <span className="text-zinc-600 font-normal">{items.length}</span>
+        </h3>
+        <p className="text-xs text-zinc-500">These match something already published on the same channel and won't be posted until resolved.</p>
+      </div>
+      {items.map(item => (
+        <Card key={item.id} className="flex flex-wrap gap-4">
+          {[item, item.original].map((file, i) => (
+            <button key={file.id} onClick={() => onPreview(file)} className="w-20 shrink-0 space-y-1 text-left hover:opacity-90">
+              <div className="aspect-[9/16] bg-zinc-800 rounded-lg overflow-hidden flex items-center justify-center">
+                <Thumbnail file={file} />
+              </div>
+              <p className="text-[10px] text-zinc-500">{i === 0 ? 'New' : 'Published'}</p>
+            </button>
+          ))}
+          <div className="flex-1 min-w-[12rem] space-y-2">
+            <div>
+              <p className="text-sm text-zinc-200 font-medium truncate">{item.file_name}</p>
+              <p className="text-[10px] text-zinc-500">
+                {item.channel_name} · {item.duplicate_kind === 'exact' ? 'exact copy' : `near copy, ${item.duplicate_distance}/64 bits differ`} of {item.original.file_name}
+                {item.original.published_at && `, published ${new Date(item.original.published_at).toLocaleDateString()}`}
+              </p>
+            </div>
+            {canReview && (
+              <div className="flex flex-wrap gap-2">
+                <button onClick={() => resolve(item, 'merge')} disabled={busyId === item.id} title="Delete this file and add its tags to the published post" className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg text-xs font-medium transition-colors">Merge</button>
+                <button onClick={() => resolve(item, 'skip')} disabled={busyId === item.id} title="Delete this file" className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-zinc-200 rounded-lg text-xs font-medium transition-colors">Skip</button>
+                <button onClick={() => resolve(item, 'allow')} disabled={busyId === item.id} title="Not a repost, queue it as usual" className="px-3 py-1.5 text-zinc-400 hover:text-zinc-200 disabled:opacity-50 text-xs">Post anyway</button>
+              </div>
+            )}
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+const ReviewQueue = ({
+  channels,
+  canReview,
+  refreshKey,
+  onPreview,
+  onChanged,
+  notify
+}: {
+  channels: Channel[];
+  canReview: boolean;
+  refreshKey: unknown;
+  onPreview: (file: MediaFile) => void;
+  onChanged: () => void;
+  notify: (message: string, type?: 'success' | 'error' | 'warning') => void;
+}) => {
+  const [state, setState] = useState<ApprovalStatus>('In Review');
+  const [channelId, setChannelId] = useState('');
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<ApprovalStatus, number>>>({});
+
+  const load = async () => {
+    const params = new URLSearchParams({ status: state });
+    if (channelId) params.set('channel_id', channelId);
+    try {
+      const res = await fetch(`/api/reviews?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      setItems(data.items);
+      setCounts(data.counts);
+    } catch (error) {
+      notify(`Failed to load reviews${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [state, channelId, refreshKey]);
+
+  const handleReview = async (item: ReviewItem, action: string, comment?: string) => {
+    try {
+      const res = await fetch(`/api/media/${item.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, comment })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      if (action !== 'comment') notify(`${item.file_name}: ${data.media.approval_status}`, 'success');
+      load();
+      onChanged();
+      return true;
+    } catch (error) {
+      notify(`Review failed${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+      return false;
+    }
+  };
+
+  const approvalChannels = channels.filter(c => c.requires_approval);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h2 className="text-lg font-bold text-zinc-100">Review Queue</h2>
+        <select value={channelId} onChange={(e) => setChannelId(e.target.value)} className="px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300 outline-none focus:border-purple-500/50">
+          <option value="">All channels</option>
+          {channels.map(c => <option key={c.id} value={c.id}>{c.name || 'Unnamed Channel'}</option>)}
+        </select>
+      </div>
+
+      <DuplicateReview channelId={channelId} canReview={canReview} refreshKey={refreshKey} onPreview={onPreview} onChanged={onChanged} notify={notify} />
+
+      <div className="flex flex-wrap gap-1">
+        {APPROVAL_STATES.map(s => (
+          <button
+            key={s}
+            onClick={() => setState(s)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${state === s ? 'bg-purple-600/10 text-purple-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+          >
+            {s} <span className="text-zinc-600">{counts[s] || 0}</span>
+          </button>
+        ))}
+      </div>
+
+      {approvalChannels.length === 0 ? (
+        <div className="py-12 flex flex-col items-center justify-center text-zinc-500 border-2 border-dashed border-zinc-800 rounded-xl">
+          <CheckCircle2 size={48} className="mb-4 opacity-20" />
+          <p className="text-sm">No channel requires approval. Turn it on from the channel card.</p>
+        </div>
+      ) : items.length === 0 ? (
+        <div className="py-12 flex flex-col items-center justify-center text-zinc-500 border-2 border-dashed border-zinc-800 rounded-xl">
+          <CheckCircle2 size={48} className="mb-4 opacity-20" />
+          <p className="text-sm">Nothing {state === 'Draft' ? 'in draft' : state.toLowerCase()}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {items.map(item => <ReviewCard key={item.id} item={item} canReview={canReview} onReview={handleReview} onPreview={onPreview} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface DailyPoint {
+  day: string;
+  published: number;
+  failed: number;
+  backlog: number;
+}
+
+interface Runway {
+  queued: number;
+  per_day: number | null;
+  basis: 'posting_windows' | 'recent_average' | null;
+  days_left: number | null;
+  runs_out_on: string | null;
+  stalled: 'paused' | 'disconnected' | null;
+}
+
+interface AnalyticsData {
+  from: string;
+  to: string;
+  summary: { published: number; failed: number; success_rate: number | null; mean_hours_to_publish: number | null };
+  series: DailyPoint[];
+  channels: {
+    channel_id: number;
+    name: string;
+    published: number;
+    failed: number;
+    success_rate: number | null;
+    mean_hours_to_publish: number | null;
+    series: DailyPoint[];
+    runway: Runway;
+  }[];
+}
+
+// Same order as CHANNEL_COLORS, for SVG strokes.
+const CHANNEL_STROKES = ['stroke-purple-500', 'stroke-sky-500', 'stroke-emerald-500', 'stroke-amber-500', 'stroke-pink-500', 'stroke-teal-500'];
+const RANGE_PRESETS = [7, 30, 90];
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+const daysAgo = (days: number) => isoDay(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+const shortDay = (day: string) => new Date(`${day}T00:00:00Z`).toLocaleDateString([], { month: 'short', day: 'numeric', timeZone: 'UTC' });
+const formatHours = (hours: number | null) => hours === null ? '—' : hours < 48 ? `${hours} h` : `${Math.round(hours / 2.4) / 10} days`;
+
+const runwayLabel = (runway: Runway) => {
+  if (runway.stalled === 'paused') return `Paused with ${runway.queued} queued`;
+  if (runway.stalled === 'disconnected') return `Disconnected with ${runway.queued} queued`;
+  if (runway.queued === 0) return 'Out of content';
+  if (runway.days_left === null) return `${runway.queued} queued, set posting windows to forecast`;
+  return `Runs out of content in ${runway.days_left} day${runway.days_left === 1 ? '' : 's'} (${shortDay(runway.runs_out_on!)})`;
+};
+
+// Day labels under a chart: first, middle and last.
+const AxisLabels = ({ days }: { days: string[] }) => (
+  <div className="flex justify-between text-[10px] text-zinc-600 mt-1">
+    <span>{days[0] && shortDay(days[0])}</span>
+    <span>{days.length > 2 && shortDay(days[Math.floor(days.length / 2)])}</span>
+    <span>{days.length > 1 && shortDay(days[days.length - 1])}</span>
+  </div>
+);
+
+// Published and failed attempts per day, stacked.
+const PublishChart = ({ series }: { series: DailyPoint[] }) => {
+  const max = Math.max(1, ...series.map(point => point.published + point.failed));
+  const width = series.length * 10;
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} 100`} preserveAspectRatio="none" className="w-full h-40">
+        {series.map((point, i) => {
+          const published = (point.published / max) * 100;
+          const failed = (point.failed / max) * 100;
+          return (
+            <g key={point.day}>
+              <title>{`${shortDay(point.day)}: ${point.published} published, ${point.failed} failed`}</title>
+              <rect x={i * 10 + 1} y={100 - published} width={8} height={published} className="fill-emerald-500/70" />
+              <rect x={i * 10 + 1} y={100 - published - failed} width={8} height={failed} className="fill-red-500/70" />
+            </g>
+          );
+        })}
+      </svg>
+      <AxisLabels days={series.map(point => point.day)} />
+    </div>
+  );
+};
+
+// End-of-day backlog, one line per channel.
+const BacklogChart = ({ channels, colorOf }: { channels: AnalyticsData['channels']; colorOf: (channelId: number) => number }) => {
+  const days = channels[0]?.series.map(point => point.day) ?? [];
+  const max = Math.max(1, ...channels.flatMap(channel => channel.series.map(point => point.backlog)));
+  const width = Math.max(1, days.length - 1) * 10;
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} 100`} preserveAspectRatio="none" className="w-full h-40">
+        {channels.map(channel => (
+          <polyline
+            key={channel.channel_id}
+            points={channel.series.map((point, i) => `${i * 10},${100 - (point.backlog / max) * 96}`).join(' ')}
+            fill="none"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            className={CHANNEL_STROKES[colorOf(channel.channel_id) % CHANNEL_STROKES.length]}
+          >
+            <title>{`${channel.name}: ${channel.series[channel.series.length - 1]?.backlog ?? 0} in backlog at the end of the range`}</title>
+          </polyline>
+        ))}
+      </svg>
+      <AxisLabels days={days} />
+    </div>
+  );
+};
+
+const AnalyticsPanel = ({
+  channels,
+  channelId,
+  notify
+}: {
+  channels: Channel[];
+  channelId: number | null;
+  notify: (message: string, type?: 'success' | 'error' | 'warning') => void;
+}) => {
+  const [from, setFrom] = useState(() => daysAgo(29));
+  const [to, setTo] = useState(() => isoDay(new Date()));
+  const [data, setData] = useState<AnalyticsData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ from, to });
+      if (channelId !== null) params.set('channel_id', String(channelId));
+      const res = await fetch(`/api/analytics?${params}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(describeError(body));
+      setData(body);
+    } catch (error) {
+      notify(`Failed to load analytics${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (from && to) load();
+  }, [from, to, channelId]);
+
+  const colorOf = (id: number) => Math.max(0, channels.findIndex(c => c.id === id));
+  const preset = (days: number) => {
+    setFrom(daysAgo(days - 1));
+    setTo(isoDay(new Date()));
+  };
+  const inputClass = "px-2 py-1 bg-zinc-900 border border-zinc-800 rounded-md text-xs text-zinc-300 outline-none focus:border-purple-500/50";
+
+  return (
+    <Card className="space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-zinc-200">Publishing Analytics</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {RANGE_PRESETS.map(days => (
+            <button
+              key={days}
+              onClick={() => preset(days)}
+              className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${from === daysAgo(days - 1) && to === isoDay(new Date()) ? 'bg-purple-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-zinc-200'}`}
+            >
+              {days}d
+            </button>
+          ))}
+          <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          <span className="text-xs text-zinc-600">to</span>
+          <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          <button onClick={load} disabled={loading} className="p-1 text-zinc-500 hover:text-zinc-300 disabled:opacity-50">
+            <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {data && (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            {[
+              { label: 'Published', value: data.summary.published },
+              { label: 'Failed attempts', value: data.summary.failed },
+              { label: 'Success rate', value: data.summary.success_rate === null ? '—' : `${data.summary.success_rate}%` },
+              { label: 'Ingest to publish', value: formatHours(data.summary.mean_hours_to_publish) },
+            ].map(tile => (
+              <div key={tile.label} className="p-3 bg-zinc-900/50 border border-zinc-800 rounded-lg">
+                <p className="text-[10px] text-zinc-500 font-semibold uppercase tracking-wider">{tile.label}</p>
+                <p className="text-xl font-bold text-zinc-100">{tile.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <div className="flex items-center gap-3 mb-2 text-[11px] text-zinc-500">
+                <span className="font-semibold uppercase tracking-wider">Daily posts</span>
+                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-emerald-500/70" />Published</span>
+                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-red-500/70" />Failed</span>
+              </div>
+              <PublishChart series={data.series} />
+            </div>
+            <div>
+              <div className="flex flex-wrap items-center gap-3 mb-2 text-[11px] text-zinc-500">
+                <span className="font-semibold uppercase tracking-wider">Backlog</span>
+                {data.channels.map(channel => (
+                  <span key={channel.channel_id} className="flex items-center gap-1">
+                    <span className={`w-2 h-2 rounded-full ${CHANNEL_COLORS[colorOf(channel.channel_id) % CHANNEL_COLORS.length]}`} />
+                    {channel.name || `Channel ${channel.channel_id}`}
+                  </span>
+                ))}
+              </div>
+              <BacklogChart channels={data.channels} colorOf={colorOf} />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b border-zinc-800">
+                  <th className="pb-2 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Channel</th>
+                  <th className="pb-2 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Published</th>
+                  <th className="pb-2 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Success</th>
+                  <th className="pb-2 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Ingest to publish</th>
+                  <th className="pb-2 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Runway</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800/50">
+                {data.channels.map(channel => (
+                  <tr key={channel.channel_id}>
+                    <td className="py-2 text-sm text-zinc-300">{channel.name || `Channel ${channel.channel_id}`}</td>
+                    <td className="py-2 text-xs text-zinc-400">{channel.published}</td>
+                    <td className="py-2 text-xs text-zinc-400">{channel.success_rate === null ? '—' : `${channel.success_rate}%`}</td>
+                    <td className="py-2 text-xs text-zinc-400">{formatHours(channel.mean_hours_to_publish)}</td>
+                    <td className={`py-2 text-xs ${channel.runway.stalled || (channel.runway.days_left !== null && channel.runway.days_left < 3) || channel.runway.queued === 0 ? 'text-amber-400' : 'text-zinc-400'}`}>
+                      {runwayLabel(channel.runway)}
+                      {channel.runway.per_day !== null && !channel.runway.stalled && channel.runway.queued > 0 && (
+                        <span className="text-zinc-600"> · ~{channel.runway.per_day}/day from {channel.runway.basis === 'posting_windows' ? 'posting windows' : 'the last 14 days'}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
+
+interface NotificationItem {
+  id: number;
+  kind: NotificationKind;
+  severity: 'info' | 'warning' | 'error';
+  title: string;
+  message: string | null;
+  media_id: number | null;
+  channel_id: number | null;
+  created_at: string;
+  read: boolean;
+}
 
-  useEffect(() => {
-    const timer = setTimeout(onClose, 5000);
-    return () => clearTimeout(timer);
-  }, [onClose]);
+const SEVERITY_DOTS: Record<NotificationItem['severity'], string> = {
+  info: 'bg-blue-400',
+  warning: 'bg-orange-400',
+  error: 'bg-red-500',
+};
+
+const NotificationMenu = ({
+  items,
+  unread,
+  now,
+  onOpen,
+  onMarkAllRead
+}: {
+  items: NotificationItem[];
+  unread: number;
+  now: number;
+  onOpen: (item: NotificationItem) => void;
+  onMarkAllRead: () => void;
+}) => {
+  const [open, setOpen] = useState(false);
 
   return (
-    <motion.div
-      initial={{ opacity: 0, y: -20, x: 20 }}
-      animate={{ opacity: 1, y: 0, x: 0 }}
-      exit={{ opacity: 0, scale: 0.95 }}
-      className={`fixed top-4 right-4 z-50 p-3 rounded-lg border flex items-center gap-3 shadow-lg backdrop-blur-md ${colors[type]}`}
-    >
-      {type === 'success' && <CheckCircle2 size={18} />}
-      {type === 'error' && <AlertCircle size={18} />}
-      {type === 'warning' && <AlertCircle size={18} />}
-      <span className="text-sm font-medium">{message}</span>
-      <button onClick={onClose} className="ml-2 hover:opacity-70"><X size={14} /></button>
-    </motion.div>
+    <div className="relative">
+      <button onClick={() => setOpen(prev => !prev)} className="p-1.5 text-zinc-400 hover:bg-zinc-800 rounded-lg relative" title="Notifications">
+        <Bell size={18} />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 bg-purple-500 rounded-full border border-zinc-950 text-[9px] font-bold text-white flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-1 w-80 max-w-[calc(100vw-2rem)] bg-zinc-950 border border-zinc-800 rounded-lg shadow-xl z-40 text-sm">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-900">
+              <p className="text-zinc-200 font-medium">Notifications</p>
+              {unread > 0 && <button onClick={onMarkAllRead} className="text-[10px] text-purple-400 hover:text-purple-300">Mark all read</button>}
+            </div>
+            <div className="max-h-96 overflow-y-auto divide-y divide-zinc-900">
+              {items.length === 0 && <p className="px-3 py-6 text-center text-xs text-zinc-500 italic">Nothing to report</p>}
+              {items.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => { onOpen(item); setOpen(false); }}
+                  className={`w-full text-left px-3 py-2 flex gap-2 hover:bg-zinc-900 ${item.read ? 'opacity-60' : ''}`}
+                >
+                  <span className={`mt-1.5 w-1.5 h-1.5 rounded-full shrink-0 ${item.read ? 'bg-zinc-700' : SEVERITY_DOTS[item.severity]}`} />
+                  <span className="min-w-0">
+                    <span className="block text-xs text-zinc-200">{item.title}</span>
+                    {item.message && <span className="block text-[10px] text-zinc-500 line-clamp-2">{item.message}</span>}
+                    <span className="block text-[10px] text-zinc-600">{timeAgo(item.created_at, now)}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
   );
 };
 
 // --- Main App ---
 
-export default function App() {
+function Workspace({ account, onSignedOut }: { account: Account; onSignedOut: () => void }) {
   const [activePage, setActivePage] = useState<Page>('dashboard');
   const [collapsed, setCollapsed] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -160,14 +3444,35 @@ export default function App() {
   const [loading, setLoading] = useState(false);
   
   // Data State
-  const [stats, setStats] = useState({ totalMedia: 0, pending: 0, publishedToday: 0, failed: 0 });
+  const [stats, setStats] = useState({ totalMedia: 0, pending: 0, publishedToday: 0, failed: 0, deadLetter: 0, inReview: 0 });
   const [recentActivity, setRecentActivity] = useState<MediaFile[]>([]);
   const [channels, setChannels] = useState<Channel[]>([]);
   const [media, setMedia] = useState<MediaFile[]>([]);
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [workerStatus, setWorkerStatus] = useState<WorkerStatus | null>(null);
+  const [scanState, setScanState] = useState<ScanState | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [channelFilter, setChannelFilter] = useState<number | null>(null);
+  const [failedOnly, setFailedOnly] = useState(false);
+  const [fitMode, setFitMode] = useState<'blur' | 'crop' | 'letterbox'>('blur');
+  const [transforming, setTransforming] = useState<number | null>(null);
+  const [previewFile, setPreviewFile] = useState<MediaFile | null>(null);
+  const [settingsChannelId, setSettingsChannelId] = useState<number | null>(null);
+  const [captionFiles, setCaptionFiles] = useState<MediaFile[] | null>(null);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [windowsOpen, setWindowsOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [headerSearch, setHeaderSearch] = useState('');
+  const [libraryQuery, setLibraryQuery] = useState('');
+  const [timelineMedia, setTimelineMedia] = useState<{ id: number; file_name: string } | null>(null);
+  const [accountMenuOpen, setAccountMenuOpen] = useState(false);
+  const [usersOpen, setUsersOpen] = useState(false);
+  const [passwordOpen, setPasswordOpen] = useState(false);
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [unreadNotifications, setUnreadNotifications] = useState(0);
 
   const addToast = (message: string, type: 'success' | 'error' | 'warning' = 'success') => {
-    const id = Date.now();
+    const id = Date.now() + Math.random();
     setToasts(prev => [...prev, { id, message, type }]);
   };
 
@@ -176,8 +3481,11 @@ export default function App() {
   };
 
   const fetchData = async () => {
+    const channelQuery = channelFilter !== null ? `?channel_id=${channelFilter}` : '';
     try {
-      const statsRes = await fetch('/api/stats');
+      const statsRes = await fetch(`/api/stats${channelQuery}`);
+      // The session expired or was revoked elsewhere.
+      if (statsRes.status === 401) return onSignedOut();
       const statsData = await statsRes.json();
       setStats(statsData.stats);
       setRecentActivity(statsData.recentActivity);
@@ -185,28 +3493,160 @@ export default function App() {
       const channelsRes = await fetch('/api/channels');
       setChannels(await channelsRes.json());
 
-      const mediaRes = await fetch('/api/media');
+      const mediaRes = await fetch(`/api/media${channelQuery}`);
       setMedia(await mediaRes.json());
 
-      const logsRes = await fetch('/api/logs');
-      setLogs(await logsRes.json());
+      const workerRes = await fetch('/api/worker');
+      setWorkerStatus(await workerRes.json());
+
+      const notificationsRes = await fetch('/api/notifications');
+      const notificationsData = await notificationsRes.json();
+      setNotifications(notificationsData.items);
+      setUnreadNotifications(notificationsData.unread);
     } catch (error) {
       console.error("Failed to fetch data", error);
     }
   };
 
+  // Pick up the result of the Snapchat OAuth redirect.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (!params.has('connected') && !params.has('connect_error')) return;
+    if (params.get('page') === 'channels') setActivePage('channels');
+    if (params.has('connected')) addToast("Snapchat channel connected", "success");
+    else addToast(params.get('connect_error') || "Failed to connect channel", "error");
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
+
+  // Live updates replace polling: media rows and log entries are patched in
+  // place as the server reports them, and a dropped stream resyncs on reconnect.
   useEffect(() => {
     fetchData();
-    const interval = setInterval(fetchData, 30000);
+    const events = new EventSource('/api/events');
+    const channelQuery = channelFilter !== null ? `?channel_id=${channelFilter}` : '';
+    let dropped = false;
+    let countsTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Stats and channel counts are aggregates, so refetch them once a burst of changes settles.
+    const refreshCounts = () => {
+      clearTimeout(countsTimer);
+      countsTimer = setTimeout(async () => {
+        try {
+          const [statsRes, channelsRes] = await Promise.all([fetch(`/api/stats${channelQuery}`), fetch('/api/channels')]);
+          const statsData = await statsRes.json();
+          setStats(statsData.stats);
+          setRecentActivity(statsData.recentActivity);
+          setChannels(await channelsRes.json());
+        } catch (error) {
+          console.error("Failed to refresh stats", error);
+        }
+      }, 1000);
+    };
+
+    const on = <T,>(type: string, handler: (data: T) => void) =>
+      events.addEventListener(type, (event) => handler(JSON.parse((event as MessageEvent).data)));
+
+    on<MediaFile>('media', (row) => {
+      const visible = row.status !== 'Deleted' && (channelFilter === null || row.channel_id === channelFilter);
+      setMedia(prev => {
+        const known = prev.some(file => file.id === row.id);
+        if (!visible) return known ? prev.filter(file => file.id !== row.id) : prev;
+        return known ? prev.map(file => file.id === row.id ? row : file) : [row, ...prev];
+      });
+      refreshCounts();
+    });
+    on<{ id: number; deleted?: boolean }>('channel', (change) => {
+      if (change.deleted && change.id === channelFilter) setChannelFilter(null);
+      refreshCounts();
+    });
+    on<LogEntry>('log', (entry) => setLogs(prev => [entry, ...prev].slice(0, 50)));
+    on<NotificationItem>('notification', (item) => {
+      setNotifications(prev => [{ ...item, read: false }, ...prev].slice(0, 30));
+      setUnreadNotifications(prev => prev + 1);
+    });
+    on<{ phase: 'started' | 'progress' | 'finished'; at: string; channel?: string; processed?: number; total?: number }>('scan', (scan) => {
+      if (scan.phase === 'finished') {
+        setScanState(null);
+        setWorkerStatus(prev => prev && { ...prev, lastScanAt: scan.at });
+      } else {
+        setScanState({ channel: scan.channel ?? null, processed: scan.processed ?? 0, total: scan.total ?? 0 });
+      }
+    });
+    on<WorkerStatus>('worker', (status) => setWorkerStatus(prev => ({ ...prev, ...status })));
+
+    events.onerror = () => {
+      dropped = true;
+    };
+    events.onopen = () => {
+      if (dropped) fetchData();
+      dropped = false;
+    };
+
+    return () => {
+      events.close();
+      clearTimeout(countsTimer);
+    };
+  }, [channelFilter]);
+
+  // Keeps the relative times in the status bar current.
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 15000);
     return () => clearInterval(interval);
   }, []);
 
+  // Without ids, marks everything read.
+  const markNotificationsRead = async (ids?: number[]) => {
+    try {
+      const res = await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {})
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      setUnreadNotifications(data.unread);
+      setNotifications(prev => prev.map(item => !ids || ids.includes(item.id) ? { ...item, read: true } : item));
+    } catch (error) {
+      addToast(`Failed to update notifications${error instanceof Error && error.message ? `: ${error.message}` : ''}`, 'error');
+    }
+  };
+
+  // Takes the user to where the problem can be dealt with.
+  const openNotification = (item: NotificationItem) => {
+    if (!item.read) markNotificationsRead([item.id]);
+    if (item.kind === 'publish_failed' || item.kind === 'dead_letter') {
+      setFailedOnly(true);
+      setActivePage('upload-manager');
+    } else if (item.kind === 'low_runway') {
+      setActivePage('dashboard');
+    } else if (item.kind === 'duplicate') {
+      setActivePage('reviews');
+    } else {
+      setActivePage('channels');
+    }
+  };
+
   const handleScan = async () => {
     setLoading(true);
     try {
       const res = await fetch('/api/media/scan', { method: 'POST' });
       const data = await res.json();
-      addToast(`Scan complete! Found ${data.newCount} new files.`, 'success');
+      if (!res.ok) {
+        addToast(describeError(data, "Failed to scan Drive"), errorToastType(data));
+        return;
+      }
+      const total = (key: 'added' | 'modified' | 'removed' | 'flagged' | 'duplicates') =>
+        data.results.reduce((sum: number, result: Record<string, unknown[]>) => sum + result[key].length, 0);
+      addToast(`Scan complete! ${total('added')} new, ${total('modified')} modified, ${total('removed')} removed.`, 'success');
+      if (total('flagged') > 0) {
+        addToast(`${total('flagged')} file(s) don't meet the Snapchat spec, see Upload Manager.`, 'warning');
+      }
+      if (total('duplicates') > 0) {
+        addToast(`${total('duplicates')} file(s) look like posts already published, see Review Queue.`, 'warning');
+      }
+      if (data.errors.length > 0) {
+        addToast(`${data.errors.length} channel(s) failed to scan: ${data.errors[0].error}`, 'warning');
+      }
       fetchData();
     } catch (error) {
       addToast("Failed to scan Drive", "error");
@@ -218,12 +3658,15 @@ export default function App() {
   const handlePublishNow = async (id: number) => {
     setLoading(true);
     try {
-      await fetch(`/api/media/${id}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: 'Published' })
-      });
-      addToast("Post published successfully", "success");
+      const res = await fetch(`/api/media/${id}/publish`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        addToast(describeError(data, "Failed to publish"), errorToastType(data));
+      } else if (data.status === 'Failed') {
+        addToast("Publish failed, see logs for details", "error");
+      } else {
+        addToast("Post published successfully", "success");
+      }
       fetchData();
     } catch (error) {
       addToast("Failed to publish", "error");
@@ -232,27 +3675,198 @@ export default function App() {
     }
   };
 
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      onSignedOut();
+    }
+  };
+
+  // The worker counts as alive if its last heartbeat is recent, allowing for one missed tick.
+  const workerAlive = !!workerStatus?.running && !!workerStatus.lastTickAt &&
+    now - new Date(workerStatus.lastTickAt).getTime() < workerStatus.intervalMs * 2 + 15000;
+
+  // Looked up live so the drawer shows health and pause changes as they arrive.
+  const settingsChannel = channels.find(c => c.id === settingsChannelId) ?? null;
+  const channelName = (id: number | null) => channels.find(c => c.id === id)?.name || 'Unassigned';
+  const needsApproval = (file: MediaFile) => !!channels.find(c => c.id === file.channel_id)?.requires_approval;
+
+  const renderChannelFilter = () => (
+    <select
+      value={channelFilter ?? ''}
+      onChange={(e) => setChannelFilter(e.target.value ? Number(e.target.value) : null)}
+      className="px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300 outline-none focus:border-purple-500/50"
+    >
+      <option value="">All channels</option>
+      {channels.map(channel => (
+        <option key={channel.id} value={channel.id}>{channel.name || 'Unnamed Channel'}</option>
+      ))}
+    </select>
+  );
+
+  const handleRetry = async (id: number) => {
+    try {
+      const res = await fetch(`/api/media/${id}/retry`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        addToast(describeError(data, "Failed to retry"), errorToastType(data));
+      } else {
+        addToast(`${data.file_name} queued for retry`, "success");
+      }
+      fetchData();
+    } catch (error) {
+      addToast("Failed to retry", "error");
+    }
+  };
+
+  const handleAutoSchedule = async (channelId: number | null, { ids, reflow = false }: { ids?: number[]; reflow?: boolean } = {}) => {
+    try {
+      const res = await fetch('/api/schedule/auto', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel_id: channelId, ids, reflow })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      const scheduled = data.results.reduce((sum: number, r: { scheduled: unknown[] }) => sum + r.scheduled.length, 0);
+      const waiting = data.results.reduce((sum: number, r: { unscheduled: number }) => sum + r.unscheduled, 0);
+      if (data.results.length === 0 && data.errors.length === 0) {
+        addToast("Set up posting windows first", "warning");
+        setWindowsOpen(true);
+      } else if (data.errors.length > 0) {
+        addToast(data.errors[0].error, "warning");
+      } else {
+        addToast(`Scheduled ${scheduled} post(s)${waiting > 0 ? `, ${waiting} still waiting for a free slot` : ''}`, waiting > 0 ? "warning" : "success");
+      }
+      fetchData();
+    } catch (error) {
+      addToast(`Auto-schedule failed${error instanceof Error && error.message ? `: ${error.message}` : ''}`, "error");
+    }
+  };
+
+  const handleBulk = async (action: string, ids: number[], params: Record<string, unknown> = {}) => {
+    if (ids.length === 0) return addToast("Select some posts first", "warning");
+    try {
+      const res = await fetch('/api/media/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ids, params })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(describeError(data));
+      const firstError = data.results.find((r: { ok: boolean; error?: string }) => !r.ok)?.error;
+      const firstNote = data.results.find((r: { note?: string }) => r.note)?.note;
+      if (data.failed > 0) {
+        addToast(`${data.succeeded} done, ${data.failed} skipped: ${firstError}`, "warning");
+      } else {
+        addToast(`${data.succeeded} post(s) updated${firstNote ? ` (${firstNote})` : ''}`, firstNote ? "warning" : "success");
+      }
+      setSelectedIds(new Set());
+      fetchData();
+    } catch (error) {
+      addToast(`Bulk ${action} failed${error instanceof Error && error.message ? `: ${error.message}` : ''}`, "error");
+    }
+  };
+
+  const handleDelete = (ids: number[]) => {
+    if (!window.confirm(`Delete ${ids.length === 1 ? 'this post' : `${ids.length} posts`}? Deleted files won't be picked up again by scans.`)) return;
+    handleBulk('delete', ids);
+  };
+
+  const handlePriority = async (file: MediaFile) => {
+    const res = await fetch(`/api/media/${file.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ priority: file.priority > 0 ? 0 : 1, version: file.version })
+    });
+    if (!res.ok) {
+      const data = await res.json();
+      addToast(describeError(data, "Failed to update priority"), errorToastType(data));
+    }
+    fetchData();
+  };
+
+  const handleRequireApproval = async (channel: Channel) => {
+    const res = await fetch(`/api/channels/${channel.id}/approval`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ requires_approval: !channel.requires_approval })
+    });
+    if (!res.ok) addToast(describeError(await res.json(), "Failed to update approval setting"), "error");
+    else addToast(`${channel.name || 'Channel'} ${channel.requires_approval ? 'no longer requires' : 'now requires'} approval`, "success");
+    fetchData();
+  };
+
+  const handleSubmitForReview = async (file: MediaFile) => {
+    const res = await fetch(`/api/media/${file.id}/review`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'submit' })
+    });
+    const data = await res.json();
+    if (!res.ok) addToast(describeError(data, "Failed to submit for review"), errorToastType(data));
+    else addToast(`${file.file_name} submitted for review`, "success");
+    fetchData();
+  };
+
+  const handleTransform = async (id: number) => {
+    setTransforming(id);
+    try {
+      const res = await fetch(`/api/media/${id}/transform`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fit: fitMode })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        addToast(describeError(data, "Failed to reformat"), errorToastType(data));
+      } else {
+        addToast(`Created ${data.file_name}`, data.status === 'Pending' ? "success" : "warning");
+      }
+      fetchData();
+    } catch (error) {
+      addToast("Failed to reformat", "error");
+    } finally {
+      setTransforming(null);
+    }
+  };
+
+  const showFailedUploads = () => {
+    setFailedOnly(true);
+    setActivePage('upload-manager');
+  };
+
   const renderDashboard = () => (
     <div className="space-y-6">
+      <div className="flex justify-end">{renderChannelFilter()}</div>
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         {[
           { label: 'Total Media', value: stats.totalMedia, icon: <ImageIcon size={20} />, color: 'text-purple-400' },
-          { label: 'Pending Posts', value: stats.pending, icon: <Clock size={20} />, color: 'text-orange-400' },
+          { label: 'Pending Posts', value: stats.pending, icon: <Clock size={20} />, color: 'text-orange-400', onClick: stats.inReview > 0 ? () => setActivePage('reviews') : undefined },
           { label: 'Published Today', value: stats.publishedToday, icon: <CheckCircle2 size={20} />, color: 'text-emerald-400' },
-          { label: 'Failed Uploads', value: stats.failed, icon: <AlertCircle size={20} />, color: 'text-red-400' },
+          { label: 'Failed Uploads', value: stats.failed, icon: <AlertCircle size={20} />, color: 'text-red-400', onClick: showFailedUploads },
         ].map((stat, i) => (
-          <Card key={i} className="flex items-center gap-4">
+          <Card key={i} onClick={stat.onClick} className={`flex items-center gap-4 ${stat.onClick ? 'cursor-pointer hover:border-zinc-700 transition-colors' : ''}`}>
             <div className={`p-3 rounded-lg bg-zinc-800 ${stat.color}`}>
               {stat.icon}
             </div>
             <div>
               <p className="text-xs text-zinc-500 font-medium uppercase tracking-wider">{stat.label}</p>
               <p className="text-2xl font-bold text-zinc-100">{stat.value}</p>
+              {stat.label === 'Pending Posts' && stats.inReview > 0 && (
+                <p className="text-[10px] text-sky-400">{stats.inReview} awaiting review</p>
+              )}
+              {stat.label === 'Failed Uploads' && stats.deadLetter > 0 && (
+                <p className="text-[10px] text-red-400">{stats.deadLetter} in dead letter</p>
+              )}
             </div>
           </Card>
         ))}
       </div>
 
+      <AnalyticsPanel channels={channels} channelId={channelFilter} notify={addToast} />
+
       <Card>
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-sm font-semibold text-zinc-200">Recent Activity</h3>
@@ -294,10 +3908,12 @@ export default function App() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-lg font-bold text-zinc-100">Snapchat Channels</h2>
-        <button className="flex items-center gap-2 px-3 py-1.5 bg-purple-600 hover:bg-purple-500 text-white rounded-lg text-sm font-medium transition-colors">
-          <Plus size={16} />
-          Connect Channel
-        </button>
+        {account.role === 'admin' && (
+          <a href="/api/snapchat/connect" className="flex items-center gap-2 px-3 py-1.5 bg-purple-600 hover:bg-purple-500 text-white rounded-lg text-sm font-medium transition-colors">
+            <Plus size={16} />
+            Connect Channel
+          </a>
+        )}
       </div>
       
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -310,12 +3926,28 @@ export default function App() {
               <div className="flex items-center gap-2">
                 <h4 className="font-semibold text-zinc-200">{channel.name || 'Unnamed Channel'}</h4>
                 <Badge status={channel.status} />
+                {!!channel.paused && <Badge status="Paused" />}
               </div>
               <p className="text-xs text-zinc-500">ID: {channel.profile_id}</p>
+              {channel.status !== 'Connected' && channel.health_error && <p className="text-[11px] text-red-400">{channel.health_error}</p>}
             </div>
             <div className="flex flex-col items-end gap-1">
-              <span className="text-[10px] text-zinc-500 uppercase font-bold">Limit: {channel.daily_limit}/day</span>
-              <button className="text-xs text-purple-400 hover:text-purple-300 font-medium">Settings</button>
+              <span className="text-[10px] text-zinc-500 uppercase font-bold">Today: {channel.published_today}/{channel.daily_limit}</span>
+              <span className="text-[10px] text-zinc-500 uppercase font-bold">Queued: {channel.queued}</span>
+              {account.role === 'admin' ? (
+                <label className="flex items-center gap-1.5 text-[10px] text-zinc-400 cursor-pointer">
+                  <input type="checkbox" checked={!!channel.requires_approval} onChange={() => handleRequireApproval(channel)} className="accent-purple-500" />
+                  Requires approval
+                </label>
+              ) : channel.requires_approval ? (
+                <span className="text-[10px] text-sky-400 uppercase font-bold">Requires approval</span>
+              ) : null}
+              {account.role === 'admin' && (!channel.authorized || channel.status !== 'Connected') && (
+                <a href={`/api/snapchat/connect?channel_id=${channel.id}`} className="text-xs text-yellow-400 hover:text-yellow-300 font-medium">Reconnect</a>
+              )}
+              {account.role === 'admin' && (
+                <button onClick={() => setSettingsChannelId(channel.id)} className="text-xs text-purple-400 hover:text-purple-300 font-medium">Settings</button>
+              )}
             </div>
           </Card>
         ))}
@@ -390,21 +4022,118 @@ export default function App() {
     </div>
   );
 
+  // Processed versions are listed directly under the original they were rendered from.
+  const uploadManagerMedia = (() => {
+    const visible = failedOnly ? media.filter(file => file.status === 'Failed' || file.status === 'Dead Letter') : media;
+    const visibleIds = new Set(visible.map(file => file.id));
+    const ordered: MediaFile[] = [];
+    for (const file of visible) {
+      if (file.parent_id !== null && visibleIds.has(file.parent_id)) continue;
+      ordered.push(file, ...visible.filter(child => child.parent_id === file.id));
+    }
+    return ordered;
+  })();
+
+  // Only rows still on screen count, so a filter change can't act on hidden posts.
+  const selectedMedia = uploadManagerMedia.filter(file => selectedIds.has(file.id));
+  const selectedList = selectedMedia.map(file => file.id);
+  const allSelected = uploadManagerMedia.length > 0 && selectedMedia.length === uploadManagerMedia.length;
+
+  const toggleSelected = (id: number) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
   const renderUploadManager = () => (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-lg font-bold text-zinc-100">Upload Manager</h2>
         <div className="flex gap-2">
-          <button className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg text-sm font-medium transition-colors">Bulk Schedule</button>
-          <button className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 text-white rounded-lg text-sm font-medium transition-colors">Bulk Publish</button>
+          <button
+            onClick={() => setFailedOnly(!failedOnly)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${failedOnly ? 'bg-red-500/20 text-red-400' : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-200'}`}
+          >
+            Failed Only
+          </button>
+          {renderChannelFilter()}
+          <select
+            value={fitMode}
+            onChange={(e) => setFitMode(e.target.value as typeof fitMode)}
+            title="How reformatting fits media into 9:16"
+            className="px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300 outline-none focus:border-purple-500/50"
+          >
+            <option value="blur">Fit: blur fill</option>
+            <option value="crop">Fit: crop</option>
+            <option value="letterbox">Fit: letterbox</option>
+          </select>
+          <button
+            onClick={() => {
+              const uncaptioned = uploadManagerMedia.filter(f => !f.caption && f.status !== 'Published' && f.status !== 'Removed').slice(0, 50);
+              if (uncaptioned.length === 0) addToast("Every visible post already has a caption", "warning");
+              else setCaptionFiles(uncaptioned);
+            }}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            <Sparkles size={14} />
+            AI Captions
+          </button>
+          <button
+            onClick={() => setTemplatesOpen(true)}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            <FileText size={14} />
+            Templates
+          </button>
+          <button
+            onClick={() => selectedList.length > 0 ? handleBulk('schedule', selectedList, { auto: true }) : handleAutoSchedule(channelFilter)}
+            title={selectedList.length > 0 ? "Put the selected posts into the next free posting-window slots" : "Put unscheduled posts into the next free posting-window slots"}
+            className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            Bulk Schedule
+          </button>
+          <button
+            onClick={() => handleBulk('publish', selectedList)}
+            title="Publish the selected posts now"
+            className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Bulk Publish
+          </button>
         </div>
       </div>
 
+      {selectedList.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 bg-purple-600/10 border border-purple-600/20 rounded-lg text-sm">
+          <span className="text-purple-300 font-medium">{selectedList.length} selected</span>
+          <button onClick={() => setCaptionFiles(selectedMedia.slice(0, 50))} className="px-2 py-1 text-zinc-300 hover:bg-zinc-800 rounded-md text-xs font-medium">Captions</button>
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleBulk('reassign-channel', selectedList, { channel_id: Number(e.target.value) })}
+            className="px-2 py-1 bg-zinc-900 border border-zinc-800 rounded-md text-xs text-zinc-300 outline-none"
+          >
+            <option value="">Move to channel...</option>
+            {channels.map(channel => <option key={channel.id} value={channel.id}>{channel.name || 'Unnamed Channel'}</option>)}
+          </select>
+          <button onClick={() => handleBulk('retry', selectedList)} className="px-2 py-1 text-orange-400 hover:bg-orange-400/10 rounded-md text-xs font-medium">Retry</button>
+          <button onClick={() => handleDelete(selectedList)} className="px-2 py-1 text-red-400 hover:bg-red-400/10 rounded-md text-xs font-medium">Delete</button>
+          <button onClick={() => setSelectedIds(new Set())} className="ml-auto px-2 py-1 text-zinc-500 hover:text-zinc-300 text-xs">Clear</button>
+        </div>
+      )}
+
       <Card className="p-0 overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full text-left">
             <thead className="bg-zinc-800/50">
               <tr>
+                <th className="pl-4 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={() => setSelectedIds(allSelected ? new Set() : new Set(uploadManagerMedia.map(file => file.id)))}
+                    className="accent-purple-500"
+                  />
+                </th>
                 <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Preview</th>
                 <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">File Name</th>
                 <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Caption</th>
@@ -414,27 +4143,66 @@ export default function App() {
               </tr>
             </thead>
             <tbody className="divide-y divide-zinc-800/50">
-              {media.map((file) => (
-                <tr key={file.id} className="hover:bg-zinc-800/30 transition-colors group">
+              {uploadManagerMedia.map((file) => (
+                <tr key={file.id} className={`hover:bg-zinc-800/30 transition-colors group ${selectedIds.has(file.id) ? 'bg-purple-600/5' : ''}`}>
+                  <td className="pl-4 py-3">
+                    <input type="checkbox" checked={selectedIds.has(file.id)} onChange={() => toggleSelected(file.id)} className="accent-purple-500" />
+                  </td>
                   <td className="px-4 py-3">
-                    <div className="w-10 h-14 bg-zinc-800 rounded border border-zinc-700 flex items-center justify-center overflow-hidden">
-                      {file.type === 'video' ? <Play size={16} className="text-zinc-600" /> : <ImageIcon size={16} className="text-zinc-600" />}
-                    </div>
+                    <button
+                      onClick={() => setPreviewFile(file)}
+                      title="Preview"
+                      className="w-10 h-14 bg-zinc-800 rounded border border-zinc-700 flex items-center justify-center overflow-hidden hover:border-purple-500/50 transition-colors"
+                    >
+                      <Thumbnail file={file} />
+                    </button>
                   </td>
                   <td className="px-4 py-3">
-                    <p className="text-sm text-zinc-300 font-medium truncate max-w-[150px]">{file.file_name}</p>
-                    <p className="text-[10px] text-zinc-500">{(file.size / (1024 * 1024)).toFixed(1)}MB • {file.aspect_ratio}</p>
+                    <div className="flex items-center gap-1">
+                      {file.parent_id !== null && <CornerDownRight size={12} className="text-zinc-600 shrink-0" />}
+                      <p className="text-sm text-zinc-300 font-medium truncate max-w-[150px]">{file.file_name}</p>
+                    </div>
+                    {file.parent_id !== null && <p className="text-[10px] text-purple-400">Processed version</p>}
+                    <p className="text-[10px] text-zinc-500">
+                      {(file.size / (1024 * 1024)).toFixed(1)}MB • {file.aspect_ratio || '?'}
+                      {file.duration !== null && ` • ${file.duration.toFixed(1)}s`} • {channelName(file.channel_id)}
+                    </p>
                   </td>
                   <td className="px-4 py-3">
                     <div className="flex items-center gap-2 max-w-[200px]">
                       <span className="text-xs text-zinc-400 truncate italic">{file.caption || 'No caption...'}</span>
-                      <button className="opacity-0 group-hover:opacity-100 p-1 text-zinc-500 hover:text-purple-400 transition-opacity">
+                      <button
+                        onClick={() => setCaptionFiles([file])}
+                        className="opacity-0 group-hover:opacity-100 p-1 text-zinc-500 hover:text-purple-400 transition-opacity" title="Edit caption">
                         <FileText size={14} />
                       </button>
                     </div>
                   </td>
-                  <td className="px-4 py-3"><Badge status={file.status} /></td>
-                  <td className="px-4 py-3 text-xs text-zinc-500">{file.scheduled_time ? new Date(file.scheduled_time).toLocaleString() : 'Not set'}</td>
+                  <td className="px-4 py-3">
+                    <Badge status={file.status} />
+                    {(file.status === 'Failed' || file.status === 'Dead Letter') && (
+                      <p className="mt-1 text-[10px] text-zinc-500 max-w-[180px] truncate" title={file.last_error || undefined}>
+                        {file.attempts} attempt{file.attempts === 1 ? '' : 's'}
+                        {file.next_attempt_at ? ` • retry ${new Date(file.next_attempt_at).toLocaleTimeString()}` : ''}
+                        {file.last_error ? ` • ${file.last_error}` : ''}
+                      </p>
+                    )}
+                    {(file.status === 'Needs Fix' || file.status === 'Rejected') && specIssues(file).map((reason, i) => (
+                      <p key={i} className="mt-1 text-[10px] text-zinc-500 max-w-[200px]">{reason}</p>
+                    ))}
+                    {file.status === 'Pending' && needsApproval(file) && (
+                      <div className="mt-1"><Badge status={file.approval_status ?? 'Draft'} /></div>
+                    )}
+                    {file.duplicate_status === 'flagged' && (
+                      <button onClick={() => setActivePage('reviews')} className="mt-1 flex items-center gap-1 text-[10px] text-amber-400 hover:text-amber-300">
+                        <Copy size={10} /> Likely repost
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-zinc-500">
+                    {file.scheduled_time ? new Date(file.scheduled_time).toLocaleString() : 'Not set'}
+                    {file.scheduled_time && file.auto_scheduled === 1 && <span className="ml-1 text-[10px] text-purple-400" title="Picked by the auto-scheduler">auto</span>}
+                  </td>
                   <td className="px-4 py-3 text-right">
                     <div className="flex justify-end gap-1">
                       {file.status === 'Pending' && (
@@ -444,19 +4212,60 @@ export default function App() {
                             className="p-1.5 text-emerald-500 hover:bg-emerald-500/10 rounded-md transition-colors" title="Publish Now">
                             <Share2 size={16} />
                           </button>
-                          <button className="p-1.5 text-purple-400 hover:bg-purple-400/10 rounded-md transition-colors" title="Schedule">
-                            <Calendar size={16} />
+                          <button
+                            onClick={() => handlePriority(file)}
+                            className={`p-1.5 rounded-md transition-colors ${file.priority > 0 ? 'text-yellow-400 hover:bg-yellow-400/10' : 'text-zinc-500 hover:bg-zinc-700'}`}
+                            title={file.priority > 0 ? "High priority" : "Mark as high priority"}>
+                            <Flag size={16} />
                           </button>
+                          {needsApproval(file) && (!file.approval_status || file.approval_status === 'Draft' || file.approval_status === 'Changes Requested') && (
+                            <button
+                              onClick={() => handleSubmitForReview(file)}
+                              className="p-1.5 text-sky-400 hover:bg-sky-400/10 rounded-md transition-colors" title="Submit for review">
+                              <ClipboardCheck size={16} />
+                            </button>
+                          )}
+                          {!file.scheduled_time && (
+                            <button
+                              onClick={() => handleAutoSchedule(file.channel_id, { ids: [file.id] })}
+                              className="p-1.5 text-purple-400 hover:bg-purple-400/10 rounded-md transition-colors" title="Schedule in next free slot">
+                              <Calendar size={16} />
+                            </button>
+                          )}
                         </>
                       )}
+                      {file.status === 'Needs Fix' && file.parent_id === null && (
+                        <button
+                          onClick={() => handleTransform(file.id)}
+                          disabled={transforming !== null}
+                          className="p-1.5 text-yellow-500 hover:bg-yellow-500/10 disabled:opacity-50 rounded-md transition-colors" title="Reformat to 9:16">
+                          <Wand2 size={16} className={transforming === file.id ? 'animate-pulse' : ''} />
+                        </button>
+                      )}
+                      {(file.status === 'Failed' || file.status === 'Dead Letter') && (
+                        <button
+                          onClick={() => handleRetry(file.id)}
+                          className="p-1.5 text-orange-400 hover:bg-orange-400/10 rounded-md transition-colors" title="Retry">
+                          <RotateCcw size={16} />
+                        </button>
+                      )}
                       {file.status === 'Published' && (
                         <a href={file.snapchat_link || '#'} target="_blank" className="p-1.5 text-zinc-400 hover:bg-zinc-700 rounded-md transition-colors">
                           <ExternalLink size={16} />
                         </a>
                       )}
-                      <button className="p-1.5 text-zinc-500 hover:text-red-400 hover:bg-red-400/10 rounded-md transition-colors">
-                        <Trash2 size={16} />
+                      <button
+                        onClick={() => setTimelineMedia(file)}
+                        className="p-1.5 text-zinc-500 hover:bg-zinc-700 rounded-md transition-colors" title="Timeline">
+                        <History size={16} />
                       </button>
+                      {file.status !== 'Published' && file.status !== 'Uploading' && (
+                        <button
+                          onClick={() => handleDelete([file.id])}
+                          className="p-1.5 text-zinc-500 hover:text-red-400 hover:bg-red-400/10 rounded-md transition-colors" title="Delete">
+                          <Trash2 size={16} />
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -468,61 +4277,39 @@ export default function App() {
     </div>
   );
 
-  const renderLogs = () => (
-    <div className="space-y-6">
-      <div className="flex justify-between items-center">
-        <h2 className="text-lg font-bold text-zinc-100">System Logs</h2>
-        <div className="flex gap-2">
-          <button className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg text-sm font-medium transition-colors">Errors Only</button>
-          <button className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg text-sm font-medium transition-colors">Clear Logs</button>
-        </div>
-      </div>
-
-      <Card className="p-0 overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full text-left">
-            <thead className="bg-zinc-800/50">
-              <tr>
-                <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Timestamp</th>
-                <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Context</th>
-                <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Action</th>
-                <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Status</th>
-                <th className="px-4 py-3 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Message</th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-zinc-800/50">
-              {logs.map((log) => (
-                <tr key={log.id} className="hover:bg-zinc-800/30 transition-colors">
-                  <td className="px-4 py-3 text-xs text-zinc-500">{new Date(log.timestamp).toLocaleString()}</td>
-                  <td className="px-4 py-3 text-sm text-zinc-300 font-medium">{log.file_name}</td>
-                  <td className="px-4 py-3 text-xs text-zinc-400">{log.action}</td>
-                  <td className="px-4 py-3">
-                    <span className={`text-[10px] font-bold uppercase ${log.status === 'Success' ? 'text-emerald-500' : 'text-red-500'}`}>
-                      {log.status}
-                    </span>
-                  </td>
-                  <td className="px-4 py-3 text-xs text-zinc-500 italic">{log.error_message || '-'}</td>
-                </tr>
-              ))}
-              {logs.length === 0 && (
-                <tr>
-                  <td colSpan={5} className="py-8 text-center text-zinc-500 text-sm italic">No system activity yet</td>
-                </tr>
-              )}
-            </tbody>
-          </table>
-        </div>
-      </Card>
-    </div>
-  );
-
   const renderContent = () => {
     switch (activePage) {
       case 'dashboard': return renderDashboard();
       case 'channels': return renderChannels();
       case 'drive-sync': return renderDriveSync();
       case 'upload-manager': return renderUploadManager();
-      case 'logs': return renderLogs();
+      case 'media-library': return (
+        <MediaLibrary channels={channels} query={libraryQuery} onQueryChange={setLibraryQuery} onPreview={setPreviewFile} notify={addToast} />
+      );
+      case 'scheduler': return (
+        <Scheduler
+          channels={channels}
+          channelFilter={channelFilter}
+          filter={renderChannelFilter()}
+          onChanged={fetchData}
+          onAutoSchedule={() => handleAutoSchedule(channelFilter)}
+          onOpenWindows={() => setWindowsOpen(true)}
+          refreshKey={media}
+          notify={addToast}
+        />
+      );
+      case 'reviews': return (
+        <ReviewQueue
+          channels={channels}
+          canReview={account.role !== 'viewer'}
+          refreshKey={media}
+          onPreview={setPreviewFile}
+          onChanged={fetchData}
+          notify={addToast}
+        />
+      );
+      case 'settings': return <SettingsPage canEdit={account.role === 'admin'} notify={addToast} />;
+      case 'logs': return <LogViewer channels={channels} live={logs} onOpenTimeline={setTimelineMedia} notify={addToast} />;
       default: return (
         <div className="flex flex-col items-center justify-center py-20 text-zinc-500">
           <AlertCircle size={48} className="mb-4 opacity-20" />
@@ -557,6 +4344,7 @@ export default function App() {
           <SidebarItem icon={<UploadCloud size={18} />} label="Upload Manager" active={activePage === 'upload-manager'} collapsed={collapsed} onClick={() => setActivePage('upload-manager')} />
           <SidebarItem icon={<Calendar size={18} />} label="Scheduler" active={activePage === 'scheduler'} collapsed={collapsed} onClick={() => setActivePage('scheduler')} />
           <SidebarItem icon={<ImageIcon size={18} />} label="Media Library" active={activePage === 'media-library'} collapsed={collapsed} onClick={() => setActivePage('media-library')} />
+          <SidebarItem icon={<ClipboardCheck size={18} />} label="Review Queue" active={activePage === 'reviews'} collapsed={collapsed} onClick={() => setActivePage('reviews')} />
           <SidebarItem icon={<FileText size={18} />} label="Logs" active={activePage === 'logs'} collapsed={collapsed} onClick={() => setActivePage('logs')} />
         </nav>
 
@@ -604,6 +4392,7 @@ export default function App() {
                 <SidebarItem icon={<UploadCloud size={18} />} label="Upload Manager" active={activePage === 'upload-manager'} collapsed={false} onClick={() => { setActivePage('upload-manager'); setMobileMenuOpen(false); }} />
                 <SidebarItem icon={<Calendar size={18} />} label="Scheduler" active={activePage === 'scheduler'} collapsed={false} onClick={() => { setActivePage('scheduler'); setMobileMenuOpen(false); }} />
                 <SidebarItem icon={<ImageIcon size={18} />} label="Media Library" active={activePage === 'media-library'} collapsed={false} onClick={() => { setActivePage('media-library'); setMobileMenuOpen(false); }} />
+                <SidebarItem icon={<ClipboardCheck size={18} />} label="Review Queue" active={activePage === 'reviews'} collapsed={false} onClick={() => { setActivePage('reviews'); setMobileMenuOpen(false); }} />
                 <SidebarItem icon={<FileText size={18} />} label="Logs" active={activePage === 'logs'} collapsed={false} onClick={() => { setActivePage('logs'); setMobileMenuOpen(false); }} />
                 <SidebarItem icon={<SettingsIcon size={18} />} label="Settings" active={activePage === 'settings'} collapsed={false} onClick={() => { setActivePage('settings'); setMobileMenuOpen(false); }} />
               </nav>
@@ -629,22 +4418,55 @@ export default function App() {
           <div className="flex items-center gap-2">
             <div className="hidden sm:flex items-center gap-2 px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-zinc-500 focus-within:border-purple-500/50 focus-within:text-zinc-300 transition-all">
               <Search size={16} />
-              <input type="text" placeholder="Search..." className="bg-transparent border-none outline-none text-xs w-32 lg:w-48" />
+              <input
+                type="text"
+                value={headerSearch}
+                onChange={(e) => setHeaderSearch(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key !== 'Enter') return;
+                  setLibraryQuery(headerSearch);
+                  setActivePage('media-library');
+                  setHeaderSearch('');
+                }}
+                placeholder="Search media..."
+                className="bg-transparent border-none outline-none text-xs w-32 lg:w-48"
+              />
             </div>
             
-            <button className="p-1.5 text-zinc-400 hover:bg-zinc-800 rounded-lg relative">
-              <Bell size={18} />
-              <span className="absolute top-1.5 right-1.5 w-1.5 h-1.5 bg-purple-500 rounded-full border border-zinc-950"></span>
-            </button>
+            <NotificationMenu
+              items={notifications}
+              unread={unreadNotifications}
+              now={now}
+              onOpen={openNotification}
+              onMarkAllRead={() => markNotificationsRead()}
+            />
             
             <div className="h-8 w-px bg-zinc-900 mx-1"></div>
             
-            <button className="flex items-center gap-2 pl-1 pr-2 py-1 hover:bg-zinc-800 rounded-lg transition-colors">
-              <div className="w-7 h-7 rounded-full bg-gradient-to-br from-purple-500 to-indigo-600 flex items-center justify-center text-[10px] font-bold text-white uppercase">
-                JD
-              </div>
-              <span className="hidden lg:block text-xs font-medium text-zinc-300">John Doe</span>
-            </button>
+            <div className="relative">
+              <button onClick={() => setAccountMenuOpen(open => !open)} className="flex items-center gap-2 pl-1 pr-2 py-1 hover:bg-zinc-800 rounded-lg transition-colors">
+                <div className="w-7 h-7 rounded-full bg-gradient-to-br from-purple-500 to-indigo-600 flex items-center justify-center text-[10px] font-bold text-white uppercase">
+                  {initials(account.display_name)}
+                </div>
+                <span className="hidden lg:block text-xs font-medium text-zinc-300">{account.display_name}</span>
+              </button>
+              {accountMenuOpen && (
+                <>
+                  <div className="fixed inset-0 z-30" onClick={() => setAccountMenuOpen(false)} />
+                  <div className="absolute right-0 mt-1 w-48 bg-zinc-950 border border-zinc-800 rounded-lg shadow-xl z-40 py-1 text-sm">
+                    <div className="px-3 py-2 border-b border-zinc-900">
+                      <p className="text-zinc-200 truncate">{account.display_name}</p>
+                      <p className="text-[10px] text-zinc-500">{account.username} · {ROLE_LABELS[account.role]}</p>
+                    </div>
+                    {account.role === 'admin' && (
+                      <button onClick={() => { setUsersOpen(true); setAccountMenuOpen(false); }} className="w-full text-left px-3 py-1.5 text-zinc-300 hover:bg-zinc-900">Manage users</button>
+                    )}
+                    <button onClick={() => { setPasswordOpen(true); setAccountMenuOpen(false); }} className="w-full text-left px-3 py-1.5 text-zinc-300 hover:bg-zinc-900">Change password</button>
+                    <button onClick={handleSignOut} className="w-full text-left px-3 py-1.5 text-zinc-300 hover:bg-zinc-900">Sign out</button>
+                  </div>
+                </>
+              )}
+            </div>
           </div>
         </header>
 
@@ -653,22 +4475,42 @@ export default function App() {
           <div className="max-w-6xl mx-auto">
             {/* Global Automation Status */}
             <div className="mb-6 flex flex-wrap items-center gap-4 text-[11px] font-bold uppercase tracking-widest">
-              <div className="flex items-center gap-2 text-emerald-500">
-                <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></span>
-                Automation Running
-              </div>
+              {workerAlive && !workerStatus.publisherReady ? (
+                <div className="flex items-center gap-2 text-amber-500" title="Add Snapchat credentials in Settings to start publishing">
+                  <span className="w-2 h-2 rounded-full bg-amber-500"></span>
+                  Publishing Off: No Snapchat Credentials
+                </div>
+              ) : workerAlive ? (
+                <div className="flex items-center gap-2 text-emerald-500">
+                  <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></span>
+                  Automation Running
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-red-500">
+                  <span className="w-2 h-2 rounded-full bg-red-500"></span>
+                  Automation Stopped
+                </div>
+              )}
               <div className="text-zinc-500 flex items-center gap-1.5">
-                <RefreshCw size={12} />
-                Last Scan: 2 mins ago
+                <RefreshCw size={12} className={scanState ? 'animate-spin' : ''} />
+                {scanState
+                  ? `Scanning${scanState.channel ? ` ${scanState.channel}` : ''}${scanState.total > 0 ? `: ${scanState.processed}/${scanState.total}` : '...'}`
+                  : `Last Scan: ${timeAgo(workerStatus?.lastScanAt, now)}`}
               </div>
               <div className="text-zinc-500 flex items-center gap-1.5">
                 <Share2 size={12} />
-                Last Publish: 1 hour ago
+                Last Publish: {timeAgo(workerStatus?.lastPublishAt, now)}
               </div>
               <div className="text-zinc-500 flex items-center gap-1.5">
                 <Clock size={12} />
                 Pending: {stats.pending}
               </div>
+              {account.role === 'viewer' && (
+                <div className="text-amber-500 flex items-center gap-1.5">
+                  <User size={12} />
+                  Read-only access
+                </div>
+              )}
             </div>
 
             {renderContent()}
@@ -676,6 +4518,52 @@ export default function App() {
         </div>
       </main>
 
+      <AnimatePresence>
+        {previewFile && <PreviewModal file={previewFile} onClose={() => setPreviewFile(null)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {timelineMedia && <MediaTimeline media={timelineMedia} onClose={() => setTimelineMedia(null)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {usersOpen && <UserManager account={account} onClose={() => setUsersOpen(false)} notify={addToast} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {passwordOpen && <PasswordModal onClose={() => setPasswordOpen(false)} notify={addToast} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {captionFiles && (
+          <CaptionEditor files={captionFiles} channels={channels} onClose={() => setCaptionFiles(null)} onSaved={fetchData} notify={addToast} />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {templatesOpen && (
+          <TemplateManager channels={channels} media={media} onClose={() => setTemplatesOpen(false)} onSaved={fetchData} notify={addToast} />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {settingsChannel && (
+          <ChannelSettingsDrawer channel={settingsChannel} channels={channels} onClose={() => setSettingsChannelId(null)} notify={addToast} />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {windowsOpen && (
+          <PostingWindowsEditor
+            channels={channels}
+            initialChannelId={channelFilter}
+            onClose={() => setWindowsOpen(false)}
+            onAutoSchedule={(channelId, reflow) => handleAutoSchedule(channelId, { reflow })}
+            notify={addToast}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Toasts */}
       <AnimatePresence>
         {toasts.map(toast => (
@@ -685,3 +4573,24 @@ export default function App() {
     </div>
   );
 }
+
+// Checks the session before showing anything; signing in or out swaps the whole workspace.
+export default function App() {
+  const [auth, setAuth] = useState<{ account: Account | null; setupRequired: boolean } | null>(null);
+
+  const checkSession = () =>
+    fetch('/api/auth/me')
+      .then(res => res.json())
+      .then(data => setAuth({ account: data.user, setupRequired: data.setup_required }))
+      .catch(() => setAuth({ account: null, setupRequired: false }));
+
+  useEffect(() => {
+    checkSession();
+  }, []);
+
+  if (!auth) return <div className="h-screen bg-black" />;
+  if (!auth.account) {
+    return <LoginScreen setup={auth.setupRequired} onSignedIn={(account) => setAuth({ account, setupRequired: false })} />;
+  }
+  return <Workspace account={auth.account} onSignedOut={checkSession} />;
+}